@@ -1,12 +1,73 @@
+import { readFile } from 'fs/promises';
 import { HDC } from '../utils/hdc.js';
+import { CommandQueue } from '../utils/commandQueue.js';
+import { Workspace } from '../utils/workspace.js';
+import { ImageProcessor, RawImage, Rgb } from '../utils/image.js';
+import { TemplateMatcher, TemplateMatchOptions, ImageMatch } from '../utils/templateMatcher.js';
 import { RenderServiceParser, UINode } from '../parsers/renderService.js';
-import { ElementLocator, SearchConditions } from './elementLocator.js';
+import { ElementLocator, SearchConditions, Coordinates } from './elementLocator.js';
 
 // 常量定义
 const DEFAULT_POLL_INTERVAL = 500; // 默认轮询间隔（毫秒）
 const DEFAULT_WAIT_TIMEOUT = 10000; // 默认等待超时（毫秒）
 const DEFAULT_SWIPE_DURATION = 300; // 默认滑动持续时间（毫秒）
 const MAX_RETRY_COUNT = 3; // 最大重试次数
+const DEFAULT_MAX_MARKS = 50; // 标注截图默认最多标注的元素数
+const MAX_MARKS = 200; // 标注截图最多标注的元素数
+
+// 视为可交互元素的组件类型（frameNodeTag）
+const INTERACTIVE_TAGS = new Set([
+  'Button', 'Toggle', 'Checkbox', 'CheckboxGroup', 'Radio', 'Switch', 'TextInput', 'TextArea',
+  'Search', 'Select', 'Slider', 'Rating', 'ListItem', 'GridItem', 'MenuItem', 'Option', 'Hyperlink',
+]);
+
+// 标注框颜色（按编号循环使用）
+const MARK_COLORS: Rgb[] = [
+  [230, 25, 75], [60, 180, 75], [0, 130, 200], [245, 130, 48],
+  [145, 30, 180], [0, 150, 150], [240, 50, 230], [128, 128, 0],
+];
+
+/**
+ * 标注截图选项
+ */
+export interface AnnotateOptions {
+  /** 进程 ID，默认为最上层窗口所属进程 */
+  pid?: number;
+  /** 只标注可交互组件（按钮、输入框、列表项等） */
+  interactiveOnly?: boolean;
+  /** 只标注名称包含该文字的节点 */
+  text?: string;
+  /** 最多标注的元素数，默认 50 */
+  maxMarks?: number;
+}
+
+/**
+ * 截图上的编号标注
+ */
+export interface ScreenMark {
+  /** 编号（从 1 开始） */
+  index: number;
+  nodeId: string;
+  type: string;
+  frameNodeTag?: string;
+  name?: string;
+  bounds: Coordinates;
+  center: { x: number; y: number };
+}
+
+/**
+ * 标注截图结果
+ */
+export interface AnnotatedScreen {
+  /** 已绘制标注的截图（原始分辨率） */
+  image: RawImage;
+  pid?: number;
+  marks: ScreenMark[];
+  /** 符合条件但没有坐标信息的节点数 */
+  withoutBounds: number;
+  /** 超出 maxMarks 未标注的节点数 */
+  omitted: number;
+}
 
 /**
  * 智能点击控制器
@@ -14,9 +75,23 @@ const MAX_RETRY_COUNT = 3; // 最大重试次数
  */
 export class UIController {
   private hdc: HDC;
+  private workspace: Workspace;
+  private marks: ScreenMark[] = [];
 
-  constructor(hdc?: HDC) {
-    this.hdc = hdc || new HDC();
+  /**
+   * @param hdc HDC 实例，或目标设备序列号（将创建绑定该设备的 HDC 实例）
+   * @param workspace 本地文件工作区，参考图路径相对于其根目录解析
+   */
+  constructor(hdc?: HDC | string, workspace: Workspace = new Workspace()) {
+    this.hdc = typeof hdc === 'string' ? new HDC({ deviceId: hdc }) : hdc || new HDC();
+    this.workspace = workspace;
+  }
+
+  /**
+   * 获取底层 HDC 实例
+   */
+  getHdc(): HDC {
+    return this.hdc;
   }
 
   /**
@@ -165,6 +240,109 @@ export class UIController {
     return null;
   }
 
+  /**
+   * 在当前截图中查找参考图（适用于没有文字的图标按钮）
+   * @param templatePath 参考图路径（相对于工作区根目录，PNG 或 JPEG）
+   * @param options 匹配度阈值、缩放比例、结果数量与搜索区域
+   * @returns 按匹配度降序排列的匹配结果
+   */
+  async findImage(templatePath: string, options: TemplateMatchOptions = {}): Promise<ImageMatch[]> {
+    const template = await this.loadTemplate(templatePath);
+    return TemplateMatcher.match(await this.hdc.captureScreenImage(), template, this.withSignal(options));
+  }
+
+  /**
+   * 等待参考图出现在屏幕上
+   * @param templatePath 参考图本地路径
+   * @param timeout 超时时间（毫秒），默认 10000ms
+   * @param options 匹配选项
+   * @returns 匹配度最高的结果，超时返回 null
+   */
+  async waitForImage(
+    templatePath: string,
+    timeout: number = DEFAULT_WAIT_TIMEOUT,
+    options: TemplateMatchOptions = {}
+  ): Promise<ImageMatch | null> {
+    const template = await this.loadTemplate(templatePath);
+    const matchOptions = this.withSignal({ ...options, maxResults: 1 });
+    const startTime = Date.now();
+
+    do {
+      const matches = await TemplateMatcher.match(await this.hdc.captureScreenImage(), template, matchOptions);
+      if (matches.length > 0) {
+        return matches[0];
+      }
+      await new Promise(resolve => setTimeout(resolve, DEFAULT_POLL_INTERVAL));
+    } while (Date.now() - startTime < timeout);
+
+    return null;
+  }
+
+  /**
+   * 点击屏幕上与参考图匹配度最高的位置
+   * @param templatePath 参考图本地路径
+   * @param options 匹配选项
+   * @param timeout 等待参考图出现的超时时间（毫秒），未指定时只查找一次
+   * @returns 点击结果信息
+   */
+  async tapImage(
+    templatePath: string,
+    options: TemplateMatchOptions = {},
+    timeout?: number
+  ): Promise<{
+    success: boolean;
+    message: string;
+    match?: ImageMatch;
+    coordinates?: { x: number; y: number };
+  }> {
+    try {
+      const match =
+        timeout !== undefined
+          ? await this.waitForImage(templatePath, timeout, options)
+          : (await this.findImage(templatePath, { ...options, maxResults: 1 }))[0];
+
+      if (!match) {
+        return {
+          success: false,
+          message: `屏幕上未找到与参考图 ${templatePath} 匹配的区域`,
+        };
+      }
+
+      await this.tapAt(match.center.x, match.center.y);
+
+      return {
+        success: true,
+        message: `成功点击与参考图匹配的区域 (匹配度: ${match.confidence})`,
+        match,
+        coordinates: match.center,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `按图片点击失败: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * 未指定取消信号时使用当前请求上下文中的信号，请求取消后停止匹配
+   */
+  private withSignal(options: TemplateMatchOptions): TemplateMatchOptions {
+    return options.signal ? options : { ...options, signal: CommandQueue.currentSignal() };
+  }
+
+  /**
+   * 读取参考图
+   * @throws 路径跳出工作区或文件无法读取时抛出错误
+   */
+  private async loadTemplate(templatePath: string): Promise<RawImage> {
+    const localPath = await this.workspace.resolveLocal(templatePath);
+    const content = await readFile(localPath).catch(() => {
+      throw new Error(`无法读取参考图: ${templatePath}`);
+    });
+    return ImageProcessor.decode(content);
+  }
+
   /**
    * 在 UI 树中查找包含指定文字的元素
    * @param uiTreeOutput UI 树输出
@@ -243,6 +421,121 @@ export class UIController {
     return allMatches.map(m => m.node);
   }
 
+  /**
+   * 截图并用编号框标注 UI 树中的节点
+   * 标注结果会被保存，之后可通过 getMark() 按编号获取元素坐标
+   * @param options 进程、筛选条件与标注数量
+   * @returns 标注后的截图与编号说明
+   */
+  async annotateScreen(options: AnnotateOptions = {}): Promise<AnnotatedScreen> {
+    const maxMarks = options.maxMarks ?? DEFAULT_MAX_MARKS;
+    if (!Number.isInteger(maxMarks) || maxMarks < 1 || maxMarks > MAX_MARKS) {
+      throw new Error(`maxMarks 必须是 1-${MAX_MARKS} 之间的整数`);
+    }
+
+    let pid = options.pid;
+    if (!pid) {
+      pid = (await this.hdc.getTopWindow())?.pid;
+    }
+
+    const image = await this.hdc.captureScreenImage();
+    const trees = RenderServiceParser.parse(await this.hdc.getUiTree());
+
+    const seen = new Set<string>();
+    const candidates: Array<{ node: UINode; bounds: Coordinates }> = [];
+    let withoutBounds = 0;
+
+    const visit = (node: UINode) => {
+      if (node.type !== 'ProcessRoot' && this.matchesAnnotateFilter(node, options)) {
+        const bounds = ElementLocator.getCoordinates(node);
+        if (!bounds) {
+          withoutBounds++;
+        } else if (this.isOnScreen(bounds, image)) {
+          // 嵌套节点常有相同的区域，只标注最外层
+          const key = `${bounds.x},${bounds.y},${bounds.width},${bounds.height}`;
+          if (!seen.has(key)) {
+            seen.add(key);
+            candidates.push({ node, bounds });
+          }
+        }
+      }
+      node.children.forEach(visit);
+    };
+
+    for (const [currentPid, root] of trees) {
+      if (pid && currentPid !== pid) continue;
+      visit(root);
+    }
+
+    // 按从上到下、从左到右的阅读顺序编号
+    candidates.sort((a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x);
+    const marks: ScreenMark[] = candidates.slice(0, maxMarks).map(({ node, bounds }, i) => ({
+      index: i + 1,
+      nodeId: node.id,
+      type: node.type,
+      frameNodeTag: node.frameNodeTag,
+      name: node.name,
+      bounds,
+      center: {
+        x: Math.round(bounds.x + bounds.width / 2),
+        y: Math.round(bounds.y + bounds.height / 2),
+      },
+    }));
+
+    const thickness = Math.max(2, Math.round(image.width / 250));
+    const scale = Math.max(2, Math.round(image.width / 180));
+    for (const mark of marks) {
+      const color = MARK_COLORS[(mark.index - 1) % MARK_COLORS.length];
+      ImageProcessor.strokeRect(image, mark.bounds, color, thickness);
+      ImageProcessor.drawLabel(image, mark.bounds.x, mark.bounds.y, String(mark.index), { background: color, scale });
+    }
+
+    this.marks = marks;
+    return {
+      image,
+      pid,
+      marks,
+      withoutBounds,
+      omitted: candidates.length - marks.length,
+    };
+  }
+
+  /**
+   * 获取最近一次 annotateScreen() 的编号标注
+   * @param index 编号
+   * @returns 标注信息，编号不存在时返回 undefined
+   */
+  getMark(index: number): ScreenMark | undefined {
+    return this.marks.find(mark => mark.index === index);
+  }
+
+  /**
+   * 检查节点是否符合标注筛选条件
+   */
+  private matchesAnnotateFilter(node: UINode, options: AnnotateOptions): boolean {
+    if (options.interactiveOnly && !(node.frameNodeTag && INTERACTIVE_TAGS.has(node.frameNodeTag))) {
+      return false;
+    }
+    if (options.text && !(node.name && node.name.toLowerCase().includes(options.text.toLowerCase()))) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 检查区域是否有面积且与截图有交集
+   */
+  private isOnScreen(bounds: Coordinates, image: RawImage): boolean {
+    return (
+      bounds.width > 0 &&
+      bounds.height > 0 &&
+      bounds.x < image.width &&
+      bounds.y < image.height &&
+      bounds.x + bounds.width > 0 &&
+      bounds.y + bounds.height > 0
+    );
+  }
+
   /**
    * 提取元素的中心坐标
    * 使用统一的 ElementLocator.getCoordinates 方法
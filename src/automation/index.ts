@@ -6,5 +6,10 @@
 export { UIController } from './controller.js';
 export { ElementLocator } from './elementLocator.js';
 export { Workflow } from './workflow.js';
+export { LaunchProfiler } from './launchProfiler.js';
+export type { AnnotateOptions, AnnotatedScreen, ScreenMark } from './controller.js';
 export type { ElementMatch } from './elementLocator.js';
-export type { WorkflowStep, WorkflowResult, StepResult } from './workflow.js';
+export type { WorkflowStep, WorkflowResult, StepResult, WorkflowOptions } from './workflow.js';
+export type { VisualCompareOptions, VisualComparison } from '../utils/baselineStore.js';
+export type { TemplateMatchOptions, ImageMatch } from '../utils/templateMatcher.js';
+export type { LaunchMode, LaunchMeasureOptions, LaunchMeasurement, LaunchRun } from './launchProfiler.js';
@@ -0,0 +1,184 @@
+import { HDC } from '../utils/hdc.js';
+import { MainAbility } from '../parsers/bundleManager.js';
+import { summarize, SeriesSummary } from '../utils/statistics.js';
+import { UIController } from './controller.js';
+
+// 常量定义
+const DEFAULT_ITERATIONS = 5; // 默认测量次数
+const MAX_ITERATIONS = 50; // 最大测量次数
+const DEFAULT_LAUNCH_TIMEOUT = 15000; // 单次启动默认超时（毫秒）
+const LAUNCH_POLL_INTERVAL = 100; // 检查启动完成的轮询间隔（毫秒）
+const PREPARE_SETTLE_DELAY = 1000; // 停止或切到后台后等待系统稳定的时间（毫秒）
+
+/**
+ * 启动类型
+ * cold: 先强制停止应用，warm: 先将应用切到后台（按 Home 键）
+ */
+export type LaunchMode = 'cold' | 'warm';
+
+/**
+ * 启动耗时测量选项
+ */
+export interface LaunchMeasureOptions {
+  abilityName?: string;
+  /** 启动类型，默认 cold */
+  mode?: LaunchMode;
+  /** 视为启动完成的元素文字；未指定时以应用窗口成为最上层窗口为准 */
+  targetText?: string;
+  /** 测量次数，默认 5 */
+  iterations?: number;
+  /** 单次启动超时（毫秒），默认 15000ms */
+  timeout?: number;
+}
+
+/**
+ * 单次启动结果
+ */
+export interface LaunchRun {
+  index: number;
+  /** 启动耗时（毫秒），失败时为空 */
+  durationMs?: number;
+  error?: string;
+}
+
+/**
+ * 启动耗时测量结果
+ */
+export interface LaunchMeasurement {
+  bundleName: string;
+  mode: LaunchMode;
+  /** 启动完成的判定条件 */
+  target: string;
+  runs: LaunchRun[];
+  /** 成功启动的耗时统计（含 p50/p90/p95） */
+  summary: SeriesSummary | null;
+  failures: number;
+}
+
+/**
+ * 应用启动耗时测量
+ *
+ * 计时从执行 `aa start` 开始，到 UI 树中出现目标元素（或应用窗口成为最上层窗口）为止。
+ * 启动完成通过轮询设备状态判断，结果包含一次查询的耗时，适合用于对比回归而非绝对值。
+ */
+export class LaunchProfiler {
+  private hdc: HDC;
+  private uiController: UIController;
+
+  /**
+   * @param hdc HDC 实例，或目标设备序列号（将创建绑定该设备的 HDC 实例）
+   */
+  constructor(hdc?: HDC | string) {
+    this.hdc = typeof hdc === 'string' ? new HDC({ deviceId: hdc }) : hdc || new HDC();
+    this.uiController = new UIController(this.hdc);
+  }
+
+  /**
+   * 重复启动应用并统计耗时
+   * @param bundleName 应用包名
+   * @param options 启动类型、完成条件、次数与超时
+   * @returns 每次启动的耗时与百分位统计
+   */
+  async measure(bundleName: string, options: LaunchMeasureOptions = {}): Promise<LaunchMeasurement> {
+    const mode = options.mode || 'cold';
+    const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+    const timeout = options.timeout ?? DEFAULT_LAUNCH_TIMEOUT;
+
+    if (mode !== 'cold' && mode !== 'warm') {
+      throw new Error(`无效的启动类型: ${mode}（可选值: cold/warm）`);
+    }
+    if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_ITERATIONS) {
+      throw new Error(`iterations 必须是 1-${MAX_ITERATIONS} 之间的整数`);
+    }
+    if (typeof timeout !== 'number' || timeout <= 0) {
+      throw new Error('timeout 必须是正数');
+    }
+
+    // 提前解析入口 Ability，避免首次测量包含查询应用包信息的耗时
+    const ability: MainAbility = options.abilityName
+      ? { abilityName: options.abilityName }
+      : await this.hdc.resolveMainAbility(bundleName);
+
+    if (mode === 'warm') {
+      const result = await this.hdc.startApp(bundleName, ability);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+    }
+
+    const runs: LaunchRun[] = [];
+    for (let i = 1; i <= iterations; i++) {
+      runs.push(await this.measureOnce(bundleName, ability, mode, options.targetText, timeout, i));
+    }
+
+    return {
+      bundleName,
+      mode,
+      target: options.targetText ? `元素 "${options.targetText}"` : '应用窗口位于最上层',
+      runs,
+      summary: summarize(runs.map(run => run.durationMs)),
+      failures: runs.filter(run => run.durationMs === undefined).length,
+    };
+  }
+
+  /**
+   * 测量单次启动
+   */
+  private async measureOnce(
+    bundleName: string,
+    ability: MainAbility,
+    mode: LaunchMode,
+    targetText: string | undefined,
+    timeout: number,
+    index: number
+  ): Promise<LaunchRun> {
+    try {
+      if (mode === 'cold') {
+        const result = await this.hdc.stopApp(bundleName);
+        if (!result.success) {
+          return { index, error: result.message };
+        }
+      } else {
+        await this.hdc.pressKey('Home');
+      }
+      await this.delay(PREPARE_SETTLE_DELAY);
+
+      const startTime = Date.now();
+      const deadline = startTime + timeout;
+      const result = await this.hdc.startApp(bundleName, { ...ability, verify: false });
+      if (!result.success) {
+        return { index, error: result.message };
+      }
+
+      while (Date.now() < deadline) {
+        if (await this.isLaunched(bundleName, targetText)) {
+          return { index, durationMs: Date.now() - startTime };
+        }
+        await this.delay(LAUNCH_POLL_INTERVAL);
+      }
+
+      return { index, error: `${timeout}ms 内未检测到启动完成` };
+    } catch (error) {
+      return { index, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * 检查启动是否完成：目标元素已出现，或应用窗口已成为最上层窗口
+   */
+  private async isLaunched(bundleName: string, targetText?: string): Promise<boolean> {
+    if (targetText) {
+      return (await this.uiController.findElements({ text: targetText })).length > 0;
+    }
+
+    const topWindow = await this.hdc.getTopWindow();
+    return topWindow !== null && (await this.hdc.findPids(bundleName)).includes(topWindow.pid);
+  }
+
+  /**
+   * 延迟执行
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
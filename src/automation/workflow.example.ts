@@ -45,6 +45,12 @@ async function main() {
   // 示例 5: 执行完整的测试序列
   console.log('示例 5: 执行完整的测试序列');
   const testSteps: WorkflowStep[] = [
+    // 重置应用状态：清理数据并预先授予权限
+    {
+      type: 'resetApp',
+      bundleName: 'com.example.app',
+      grantPermissions: ['ohos.permission.CAMERA'],
+    },
     // 启动应用
     {
       type: 'launchAndTap',
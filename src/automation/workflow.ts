@@ -1,16 +1,35 @@
-import { HDC } from '../utils/hdc.js';
+import { HDC, ClearScope, ActionLogOptions, ActionLogs } from '../utils/hdc.js';
 import { UIController } from './controller.js';
 import { UINode } from '../parsers/renderService.js';
+import { FaultLogParser, FaultLog, FaultLogType } from '../parsers/faultLog.js';
+import { BaselineStore, VisualCompareOptions, VisualComparison } from '../utils/baselineStore.js';
+import { CropRect } from '../utils/image.js';
+import { TemplateMatchOptions } from '../utils/templateMatcher.js';
+import { Logger } from '../utils/logger.js';
+import { Workspace } from '../utils/workspace.js';
+
+// 常量定义
+const FALLBACK_SCREEN_SIZE = { width: 1080, height: 2340 }; // 无法读取分辨率时使用的常见分辨率
 
 /**
  * 工作流步骤类型
  */
 export type WorkflowStep =
   | { type: 'launchAndTap'; bundleName: string; abilityName: string; targetText: string; timeout?: number }
+  | { type: 'resetApp'; bundleName: string; scope?: ClearScope; grantPermissions?: string[] }
   | { type: 'scrollAndTap'; targetText: string; maxScrolls?: number }
   | { type: 'assertExists'; text: string }
   | { type: 'assertTextEquals'; elementText: string; expectedText: string }
+  | {
+      type: 'assertVisual';
+      baseline: string;
+      tolerance?: number;
+      maxDiffPercent?: number;
+      ignoreRegions?: CropRect[];
+    }
+  | { type: 'assertImage'; image: string; threshold?: number; region?: CropRect }
   | { type: 'tap'; text: string }
+  | { type: 'tapImage'; image: string; threshold?: number; region?: CropRect; timeout?: number }
   | { type: 'inputText'; text: string; targetText?: string }
   | { type: 'swipe'; startX: number; startY: number; endX: number; endY: number; duration?: number }
   | { type: 'waitFor'; text: string; timeout?: number }
@@ -34,6 +53,35 @@ export interface StepResult {
   message: string;
   duration: number;
   element?: UINode;
+  /** 步骤执行期间目标应用输出的日志（开启 captureLogs 时） */
+  logs?: ActionLogs;
+  /** 步骤执行期间被测应用产生的故障日志（开启 failOnCrash 时） */
+  crashes?: FaultLog[];
+  /** 截图对比结果（assertVisual 步骤） */
+  visual?: VisualComparison;
+}
+
+/**
+ * 工作流选项
+ */
+export interface WorkflowOptions {
+  /**
+   * 为 runSequence() 的每个步骤附带执行期间目标应用的 hilog 日志
+   * 未指定 bundleName 时使用步骤中的 bundleName，其次为步骤开始时的前台应用
+   */
+  captureLogs?: ActionLogOptions;
+  /**
+   * 被测应用在 runSequence() 执行期间崩溃或无响应时，将当前步骤标记为失败并附带故障摘要
+   * 每个步骤结束后检查 faultlogger 中新增的故障日志；故障日志可能延迟生成，会在下一个步骤被检出
+   */
+  failOnCrash?: { bundleName: string; types?: FaultLogType[] };
+  /**
+   * assertVisual 步骤使用的基准图目录（相对于工作区根目录）
+   * 默认读取 HDC_BASELINE_DIR 环境变量，都未设置时为工作区下的 baselines 目录
+   */
+  baselineDir?: string;
+  /** 本地文件工作区，baselineDir 与 tapImage / assertImage 步骤的参考图路径相对于其根目录解析 */
+  workspace?: Workspace;
 }
 
 /**
@@ -44,10 +92,20 @@ export class Workflow {
   private uiController: UIController;
   private hdc: HDC;
   private results: StepResult[] = [];
+  private options: WorkflowOptions;
+  private workspace: Workspace;
+  private baselines: BaselineStore;
 
-  constructor(hdc?: HDC) {
-    this.hdc = hdc || new HDC();
-    this.uiController = new UIController(this.hdc);
+  /**
+   * @param hdc HDC 实例，或目标设备序列号（将创建绑定该设备的 HDC 实例）
+   * @param options 工作流选项
+   */
+  constructor(hdc?: HDC | string, options: WorkflowOptions = {}) {
+    this.hdc = typeof hdc === 'string' ? new HDC({ deviceId: hdc }) : hdc || new HDC();
+    this.workspace = options.workspace || new Workspace();
+    this.uiController = new UIController(this.hdc, this.workspace);
+    this.options = options;
+    this.baselines = new BaselineStore({ workspace: this.workspace });
   }
 
   /**
@@ -68,9 +126,18 @@ export class Workflow {
     const step: WorkflowStep = { type: 'launchAndTap', bundleName, abilityName, targetText, timeout };
 
     try {
-      // 启动应用
-      const launchCommand = `aa start -a ${abilityName} -b ${bundleName}`;
-      await this.hdc.shell(launchCommand);
+      // 启动应用（校验参数、处理模块与 Want，并确认应用进入前台）
+      const startResult = await this.hdc.startApp(bundleName, abilityName);
+      if (!startResult.success) {
+        const result: StepResult = {
+          step,
+          success: false,
+          message: startResult.message,
+          duration: Date.now() - startTime,
+        };
+        this.results.push(result);
+        return result;
+      }
 
       // 等待应用启动并查找目标元素
       const element = await this.uiController.waitForElement(targetText, timeout);
@@ -110,6 +177,29 @@ export class Workflow {
     }
   }
 
+  /**
+   * 重置应用到干净状态（停止应用、清理数据与缓存、授予权限）
+   * 通常作为测试用例的第一步
+   * @param bundleName 应用包名
+   * @param scope 清理范围，默认 all
+   * @param grantPermissions 清理后授予的权限
+   * @returns 执行结果
+   */
+  async resetApp(bundleName: string, scope?: ClearScope, grantPermissions?: string[]): Promise<StepResult> {
+    const startTime = Date.now();
+    const step: WorkflowStep = { type: 'resetApp', bundleName, scope, grantPermissions };
+
+    const resetResult = await this.hdc.resetApp(bundleName, { scope, grantPermissions });
+    const result: StepResult = {
+      step,
+      success: resetResult.success,
+      message: resetResult.message,
+      duration: Date.now() - startTime,
+    };
+    this.results.push(result);
+    return result;
+  }
+
   /**
    * 滚动查找并点击元素
    * @param targetText 目标元素文字
@@ -213,6 +303,90 @@ export class Workflow {
     }
   }
 
+  /**
+   * 断言当前屏幕与基准图一致
+   * @param baseline 基准图名称（通过 save_baseline 或 BaselineStore.save() 保存）
+   * @param options 容差、忽略区域与允许的差异比例
+   * @returns 执行结果，visual 中包含不一致像素统计与差异图路径
+   */
+  async assertVisual(baseline: string, options: VisualCompareOptions = {}): Promise<StepResult> {
+    const startTime = Date.now();
+    const step: WorkflowStep = { type: 'assertVisual', baseline, ...options };
+
+    try {
+      const { comparison } = await (await this.getBaselines()).compare(this.hdc, baseline, options);
+
+      const message = comparison.passed
+        ? `断言通过: 与基准图 "${baseline}" 的不一致像素 ${comparison.mismatchPercent}%`
+        : `断言失败: 与基准图 "${baseline}" 的不一致像素 ${comparison.mismatchPercent}%，超过允许的 ${comparison.maxDiffPercent}%（差异图: ${comparison.diffPath}）`;
+
+      const result: StepResult = {
+        step,
+        success: comparison.passed,
+        message,
+        duration: Date.now() - startTime,
+        visual: comparison,
+      };
+      this.results.push(result);
+      return result;
+    } catch (error) {
+      const result: StepResult = {
+        step,
+        success: false,
+        message: `截图对比时发生错误: ${error instanceof Error ? error.message : String(error)}`,
+        duration: Date.now() - startTime,
+      };
+      this.results.push(result);
+      return result;
+    }
+  }
+
+  /**
+   * 获取 assertVisual 使用的基准图存储
+   * 指定 baselineDir 时每次都经工作区沙箱解析，防止通过 `..` 或符号链接读写工作区之外的文件
+   */
+  private async getBaselines(): Promise<BaselineStore> {
+    if (!this.options.baselineDir) {
+      return this.baselines;
+    }
+    return new BaselineStore({ dir: await this.workspace.resolveLocal(this.options.baselineDir) });
+  }
+
+  /**
+   * 断言屏幕上存在与参考图匹配的区域
+   * @param image 参考图本地路径（PNG 或 JPEG）
+   * @param options 匹配度阈值、缩放比例与搜索区域
+   * @returns 执行结果
+   */
+  async assertImage(image: string, options: TemplateMatchOptions = {}): Promise<StepResult> {
+    const startTime = Date.now();
+    const step: WorkflowStep = { type: 'assertImage', image, threshold: options.threshold, region: options.region };
+
+    try {
+      const [match] = await this.uiController.findImage(image, { ...options, maxResults: 1 });
+
+      const result: StepResult = {
+        step,
+        success: match !== undefined,
+        message: match
+          ? `断言通过: 找到与参考图匹配的区域 [${match.bounds.x}, ${match.bounds.y}, ${match.bounds.width}x${match.bounds.height}] (匹配度: ${match.confidence})`
+          : `断言失败: 屏幕上未找到与参考图 ${image} 匹配的区域`,
+        duration: Date.now() - startTime,
+      };
+      this.results.push(result);
+      return result;
+    } catch (error) {
+      const result: StepResult = {
+        step,
+        success: false,
+        message: `断言失败时发生错误: ${error instanceof Error ? error.message : String(error)}`,
+        duration: Date.now() - startTime,
+      };
+      this.results.push(result);
+      return result;
+    }
+  }
+
   /**
    * 断言文本相等
    * @param elementText 元素中的文字
@@ -276,15 +450,38 @@ export class Workflow {
     this.results = []; // 清空之前的结果
     const startTime = Date.now();
 
+    // 记录执行前已有的故障日志，之后新增的即为本次执行期间产生的
+    let knownFaultLogs: Set<string> | undefined;
+    let crashCheckError: string | undefined;
+    if (this.options.failOnCrash) {
+      try {
+        const { bundleName, types } = this.options.failOnCrash;
+        knownFaultLogs = new Set((await this.hdc.listFaultLogs(bundleName, { types })).map(f => f.fileName));
+      } catch (error) {
+        crashCheckError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
     for (let i = 0; i < steps.length; i++) {
       const step = steps[i];
       let result: StepResult;
 
+      const logMark = this.options.captureLogs
+        ? await this.hdc.beginActionLogs({
+            ...this.options.captureLogs,
+            bundleName: this.options.captureLogs.bundleName ?? ('bundleName' in step ? step.bundleName : undefined),
+          })
+        : undefined;
+
       switch (step.type) {
         case 'launchAndTap':
           result = await this.launchAndTap(step.bundleName, step.abilityName, step.targetText, step.timeout);
           break;
 
+        case 'resetApp':
+          result = await this.resetApp(step.bundleName, step.scope, step.grantPermissions);
+          break;
+
         case 'scrollAndTap':
           result = await this.scrollAndTap(step.targetText, step.maxScrolls);
           break;
@@ -297,6 +494,18 @@ export class Workflow {
           result = await this.assertTextEquals(step.elementText, step.expectedText);
           break;
 
+        case 'assertImage':
+          result = await this.assertImage(step.image, { threshold: step.threshold, region: step.region });
+          break;
+
+        case 'assertVisual':
+          result = await this.assertVisual(step.baseline, {
+            tolerance: step.tolerance,
+            maxDiffPercent: step.maxDiffPercent,
+            ignoreRegions: step.ignoreRegions,
+          });
+          break;
+
         case 'tap': {
           const startTime = Date.now();
           const tapResult = await this.uiController.smartTap(step.text);
@@ -311,6 +520,23 @@ export class Workflow {
           break;
         }
 
+        case 'tapImage': {
+          const startTime = Date.now();
+          const tapResult = await this.uiController.tapImage(
+            step.image,
+            { threshold: step.threshold, region: step.region },
+            step.timeout
+          );
+          result = {
+            step,
+            success: tapResult.success,
+            message: tapResult.message,
+            duration: Date.now() - startTime,
+          };
+          this.results.push(result);
+          break;
+        }
+
         case 'inputText': {
           // 功能已移除 - uitest uiInput inputText 在当前设备上不可用
           result = {
@@ -379,6 +605,14 @@ export class Workflow {
           this.results.push(result);
       }
 
+      if (logMark) {
+        result.logs = await this.hdc.collectActionLogs(logMark);
+      }
+
+      if (knownFaultLogs) {
+        await this.checkCrashes(result, knownFaultLogs);
+      }
+
       // 如果步骤失败且是断言类型，可以选择继续或停止
       // 这里选择继续执行，但可以添加配置选项
       if (!result.success && (step.type === 'assertExists' || step.type === 'assertTextEquals')) {
@@ -393,10 +627,40 @@ export class Workflow {
     return {
       success: failureCount === 0,
       steps: this.results,
-      summary: `执行完成: ${this.results.length} 个步骤, ${successCount} 成功, ${failureCount} 失败, 总耗时 ${totalDuration}ms`,
+      summary:
+        `执行完成: ${this.results.length} 个步骤, ${successCount} 成功, ${failureCount} 失败, 总耗时 ${totalDuration}ms` +
+        (crashCheckError ? `（崩溃检测不可用: ${crashCheckError}）` : ''),
     };
   }
 
+  /**
+   * 检查被测应用是否产生了新的故障日志，有则将步骤标记为失败
+   * @param result 当前步骤结果
+   * @param known 已检查过的故障日志文件名
+   */
+  private async checkCrashes(result: StepResult, known: Set<string>): Promise<void> {
+    const { bundleName, types } = this.options.failOnCrash!;
+
+    try {
+      const files = (await this.hdc.listFaultLogs(bundleName, { types })).filter(f => !known.has(f.fileName));
+      if (files.length === 0) {
+        return;
+      }
+
+      const crashes: FaultLog[] = [];
+      for (const file of files) {
+        known.add(file.fileName);
+        crashes.push(await this.hdc.readFaultLog(file));
+      }
+
+      result.success = false;
+      result.crashes = crashes;
+      result.message += `\n${bundleName} 发生故障:\n` + crashes.map(c => `  - ${FaultLogParser.summarize(c)}`).join('\n');
+    } catch (error) {
+      result.message += `\n崩溃检测失败: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
   /**
    * 获取所有执行结果
    */
@@ -413,24 +677,17 @@ export class Workflow {
 
   /**
    * 获取屏幕尺寸
+   * 使用 DisplayManagerService 中的真实分辨率（按设备缓存）；
+   * 读取失败时返回常见分辨率，滚动等只需要大致坐标的步骤仍可继续
    */
   private async getScreenSize(): Promise<{ width: number; height: number }> {
     try {
-      // 通过 hdc shell 获取屏幕尺寸
-      const output = await this.hdc.shell('wm size');
-      const match = output.match(/Physical size: (\d+)x(\d+)/);
-      if (match) {
-        return {
-          width: parseInt(match[1]),
-          height: parseInt(match[2]),
-        };
-      }
+      return await this.hdc.getScreenResolution();
     } catch (error) {
-      // 使用默认值
+      const { width, height } = FALLBACK_SCREEN_SIZE;
+      Logger.warn(`获取屏幕分辨率失败，使用默认值 ${width}x${height}: ${error instanceof Error ? error.message : String(error)}`);
+      return FALLBACK_SCREEN_SIZE;
     }
-
-    // 默认返回常见分辨率
-    return { width: 1080, height: 2340 };
   }
 
   /**
@@ -2,18 +2,405 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { HDC } from './utils/hdc.js';
+import { mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { HDC, OperationResult, WantParamValue, ClearScope, ActionLogs, ProcessStats, ProcessSampling } from './utils/hdc.js';
+import { HdcError } from './utils/errors.js';
 import { WindowManagerParser } from './parsers/windowManager.js';
 import { RenderServiceParser } from './parsers/renderService.js';
-import { UIController } from './automation/controller.js';
+import { AbilityManagerParser, AbilityRecord } from './parsers/abilityManager.js';
+import { UIController, AnnotatedScreen } from './automation/controller.js';
+import { LaunchProfiler, LaunchMeasurement, LaunchMode } from './automation/launchProfiler.js';
+import { Workspace } from './utils/workspace.js';
+import { FileTransfer, TransferResult } from './utils/fileTransfer.js';
+import { BaselineStore, VisualComparison } from './utils/baselineStore.js';
+import { TemplateMatchOptions, ImageMatch } from './utils/templateMatcher.js';
+import { HilogParser, HilogLevel } from './parsers/hilog.js';
+import { FaultLogType, FAULT_LOG_TYPES } from './parsers/faultLog.js';
+import { FpsReport } from './parsers/fps.js';
+import { ImageProcessor, CropRect, RawImage, Rgb } from './utils/image.js';
+import { WindowOverlay, WINDOW_CATEGORY_STYLES } from './utils/windowOverlay.js';
+
+// 设备参数定义（所有设备相关工具共用）
+const DEVICE_ID_PROPERTY = {
+  type: 'string',
+  description: '可选：目标设备序列号（见 list_devices）。连接多台设备时必须指定',
+};
+
+// 操作日志参数定义（tap / smart_tap / swipe / press_key 共用）
+const ACTION_LOG_PROPERTIES = {
+  captureLogs: {
+    type: 'boolean',
+    description: '可选：在结果中附带操作期间目标应用输出的 hilog 日志（默认 false）',
+  },
+  logBundleName: {
+    type: 'string',
+    description: '可选：日志的目标应用包名，默认为操作开始时的前台应用',
+  },
+  logLevel: {
+    type: 'string',
+    enum: ['D', 'I', 'W', 'E', 'F'],
+    description: '可选：日志最低级别（默认 I）',
+  },
+  logSettleMs: {
+    type: 'number',
+    description: '可选：操作完成后继续等待日志的时间（毫秒，默认 1000）',
+  },
+};
+
+// 截图默认保存路径（相对于工作区根目录）
+const DEFAULT_SCREENSHOT_PATH = 'screenshot.jpeg';
+// 截图内联返回时的默认大小控制
+const DEFAULT_INLINE_MAX_WIDTH = 720;
+const DEFAULT_INLINE_QUALITY = 80;
+// 窗口布局图的空白画布颜色
+const BLANK_CANVAS_COLOR: Rgb = [40, 40, 40];
+
+// 参考图匹配参数定义（find_image / tap_image 共用）
+const IMAGE_MATCH_PROPERTIES = {
+  templatePath: {
+    type: 'string',
+    description: '参考图路径（相对于工作区根目录 HDC_WORKSPACE，PNG 或 JPEG，建议从设备截图中裁剪）',
+  },
+  threshold: {
+    type: 'number',
+    description: '可选：最低匹配度 0-1（默认 0.8）',
+  },
+  scales: {
+    type: 'array',
+    items: { type: 'number' },
+    description: '可选：尝试的参考图缩放比例（默认 [0.75, 0.875, 1, 1.125, 1.25]）',
+  },
+  region: {
+    type: 'object',
+    description: '可选：只在该区域内搜索（屏幕像素坐标）',
+    properties: {
+      x: { type: 'number' },
+      y: { type: 'number' },
+      width: { type: 'number' },
+      height: { type: 'number' },
+    },
+    required: ['x', 'y', 'width', 'height'],
+  },
+};
+
+// 文件传输的本地工作区（HDC_WORKSPACE / HDC_REMOTE_ALLOW / HDC_MAX_TRANSFER_BYTES）
+const workspace = new Workspace();
+
+// 视觉回归对比的基准图目录（HDC_BASELINE_DIR，默认为工作区下的 baselines 目录）
+const baselines = new BaselineStore({ workspace });
+
+// 按设备序列号缓存 HDC / UIController 实例
+const devices = new Map<string, { hdc: HDC; uiController: UIController }>();
+
+// 未指定 deviceId 时用于自动选择唯一在线设备（结果短期缓存）
+const autoTarget = new HDC();
+
+/**
+ * 获取绑定到指定设备的 HDC 与 UIController 实例
+ * 未指定 deviceId 时先解析出自动选择的设备序列号，
+ * 保证同一台设备无论是否显式指定都共用一个实例（及其命令队列）
+ * @throws 未指定 deviceId 且没有设备或连接了多台设备时抛出错误
+ */
+async function getDevice(deviceId?: string): Promise<{ hdc: HDC; uiController: UIController }> {
+  const serial = deviceId || (await autoTarget.resolveTarget());
+  let device = devices.get(serial);
+  if (!device) {
+    const hdc = new HDC({ deviceId: serial });
+    device = { hdc, uiController: new UIController(hdc, workspace) };
+    devices.set(serial, device);
+  }
+  return device;
+}
+
+/**
+ * 格式化异常信息，HdcError 附带错误码与处理建议
+ */
+function formatError(error: unknown): string {
+  if (error instanceof HdcError) {
+    return `错误 [${error.code}]: ${error.message}\n建议: ${error.hint}`;
+  }
+  return `错误: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * 格式化失败的操作结果，附带错误码与处理建议
+ */
+function formatFailure(result: OperationResult): string {
+  if (result.errorCode) {
+    return `[${result.errorCode}] ${result.message}\n建议: ${result.hint}`;
+  }
+  return result.message;
+}
+
+/**
+ * 格式化 Ability 实例表格
+ */
+function formatAbilityTable(abilities: AbilityRecord[]): string {
+  let table = '| 包名 | Ability 名称 | 模块 | 状态 | Mission ID | PID | 前台 |\n';
+  table += '|------|-------------|------|------|------------|-----|------|\n';
+  for (const ability of abilities) {
+    table += `| ${ability.bundleName} | ${ability.abilityName} | ${ability.moduleName || '-'} | ${ability.state} | ${ability.missionId ?? '-'} | ${ability.pid ?? '-'} | ${ability.isForeground ? '是' : '否'} |\n`;
+  }
+  return table;
+}
+
+/**
+ * 解析日志级别参数
+ */
+function parseLevel(value: unknown): HilogLevel | undefined {
+  if (value === undefined) return undefined;
+  const level = HilogParser.normalizeLevel(String(value));
+  if (!level) {
+    throw new Error(`无效的日志级别: ${value}（可选值: D/I/W/E/F 或 DEBUG/INFO/WARN/ERROR/FATAL）`);
+  }
+  return level;
+}
+
+/**
+ * 执行操作，captureLogs 为 true 时附带操作期间目标应用的日志
+ * @returns 操作结果与格式化后的日志（未开启时为空字符串）
+ */
+async function runAction<T>(
+  hdc: HDC,
+  args: Record<string, unknown> | undefined,
+  action: () => Promise<T>
+): Promise<{ result: T; logText: string }> {
+  if (!args?.captureLogs) {
+    return { result: await action(), logText: '' };
+  }
+
+  const { result, logs } = await hdc.withActionLogs(action, {
+    bundleName: args.logBundleName as string | undefined,
+    level: parseLevel(args.logLevel),
+    settleMs: args.logSettleMs as number | undefined,
+  });
+  return { result, logText: formatActionLogs(logs) };
+}
+
+/**
+ * 格式化操作期间的日志
+ */
+function formatActionLogs(logs: ActionLogs): string {
+  let text = `\n\n## 操作期间的日志${logs.bundleName ? ` (${logs.bundleName})` : ''}\n\n`;
+  if (logs.error) {
+    return text + `无法获取日志: ${logs.error}\n`;
+  }
+  if (logs.entries.length === 0) {
+    return text + '没有新的日志\n';
+  }
+  if (logs.truncated) {
+    text += `（另有 ${logs.truncated} 条较早的日志未返回）\n`;
+  }
+  return text + '```\n' + logs.entries.map(e => HilogParser.format(e)).join('\n') + '\n```\n';
+}
+
+/**
+ * 格式化内存大小（kB）
+ */
+function formatKb(kb: number | undefined): string {
+  return kb === undefined ? '-' : `${(kb / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * 格式化单次进程资源占用
+ */
+function formatProcessStats(stats: ProcessStats): string {
+  const { cpu, memory } = stats;
+  let text = `## 进程资源: ${stats.name || '-'} (PID: ${stats.pid})\n\n`;
+
+  if (cpu) {
+    const detail = [
+      cpu.user !== undefined ? `用户态 ${cpu.user}%` : '',
+      cpu.kernel !== undefined ? `内核态 ${cpu.kernel}%` : '',
+      cpu.systemTotal !== undefined ? `整机 ${cpu.systemTotal}%` : '',
+    ].filter(Boolean);
+    text += `- CPU: ${cpu.total}%${detail.length ? `（${detail.join('，')}）` : ''}\n`;
+  } else {
+    text += '- CPU: 无数据（进程可能已退出）\n';
+  }
+
+  if (memory) {
+    text += `- PSS: ${formatKb(memory.pss)}\n`;
+    text += `- RSS: ${formatKb(memory.rss)}\n`;
+    if (memory.privateDirty !== undefined) text += `- Private Dirty: ${formatKb(memory.privateDirty)}\n`;
+    if (memory.swapPss !== undefined) text += `- Swap PSS: ${formatKb(memory.swapPss)}\n`;
+    if (memory.heapSize !== undefined) text += `- Native Heap: ${formatKb(memory.heapAlloc)} / ${formatKb(memory.heapSize)}\n`;
+  } else {
+    text += '- 内存: 无数据（进程可能已退出）\n';
+  }
+
+  return text;
+}
+
+/**
+ * 格式化进程资源采样结果
+ */
+function formatProcessSampling(sampling: ProcessSampling): string {
+  const { cpu, pss, rss } = sampling.summary;
+  let text = `## 进程资源采样: ${sampling.name || '-'} (PID: ${sampling.pid})\n\n`;
+  text += `${sampling.samples.length} 次采样，间隔 ${sampling.intervalMs}ms\n\n`;
+
+  text += '| 指标 | 最小 | 最大 | 平均 |\n';
+  text += '|------|------|------|------|\n';
+  text += cpu ? `| CPU | ${cpu.min}% | ${cpu.max}% | ${cpu.avg}% |\n` : '| CPU | - | - | - |\n';
+  text += `| PSS | ${formatKb(pss?.min)} | ${formatKb(pss?.max)} | ${formatKb(pss?.avg)} |\n`;
+  text += `| RSS | ${formatKb(rss?.min)} | ${formatKb(rss?.max)} | ${formatKb(rss?.avg)} |\n\n`;
+
+  text += '| 时间 (s) | CPU | PSS | RSS |\n';
+  text += '|----------|-----|-----|-----|\n';
+  for (const sample of sampling.samples) {
+    text += `| ${(sample.offsetMs / 1000).toFixed(1)} | ${sample.cpu !== undefined ? `${sample.cpu}%` : '-'} | ${formatKb(sample.pss)} | ${formatKb(sample.rss)} |\n`;
+  }
+
+  return text;
+}
+
+/**
+ * 格式化帧率测量结果
+ */
+function formatFpsReport(report: FpsReport): string {
+  let text = `## 帧率: ${report.surface}\n\n`;
+  if (report.frames === 0) {
+    return text + '测量期间没有渲染新的帧（画面静止，或图层名称不正确）\n';
+  }
+
+  text += `- 渲染帧数: ${report.frames}（${report.durationMs}ms）\n`;
+  text += `- 平均帧率: ${report.avgFps} fps（刷新率 ${report.refreshRate}Hz，单帧 ${report.expectedFrameMs}ms）\n`;
+  text += `- 丢帧: ${report.droppedFrames}，卡顿帧: ${report.jankFrames}\n`;
+  if (report.frameTime) {
+    text += `- 帧间隔: 最小 ${report.frameTime.min}ms / 平均 ${report.frameTime.avg}ms / 最大 ${report.frameTime.max}ms\n`;
+  }
+  if (report.worstFrames.length > 0) {
+    text += `- 最长帧间隔: ${report.worstFrames.map(ms => `${ms}ms`).join(', ')}\n`;
+  }
+  if (report.truncated) {
+    text += '\n⚠️ 帧记录缓冲区已被覆盖，较早的帧未计入，请缩短测量时长\n';
+  }
+  return text;
+}
+
+/**
+ * 格式化启动耗时测量结果
+ */
+function formatLaunchMeasurement(measurement: LaunchMeasurement): string {
+  const { summary } = measurement;
+  let text = `## ${measurement.mode === 'cold' ? '冷' : '热'}启动耗时: ${measurement.bundleName}\n\n`;
+  text += `完成条件: ${measurement.target}，${measurement.runs.length} 次测量，失败 ${measurement.failures} 次\n\n`;
+
+  if (summary) {
+    text += '| p50 | p90 | p95 | 最小 | 最大 | 平均 |\n';
+    text += '|-----|-----|-----|------|------|------|\n';
+    text += `| ${summary.p50}ms | ${summary.p90}ms | ${summary.p95}ms | ${summary.min}ms | ${summary.max}ms | ${summary.avg}ms |\n\n`;
+  }
+
+  text += '| 次数 | 耗时 | 错误 |\n';
+  text += '|------|------|------|\n';
+  for (const run of measurement.runs) {
+    text += `| ${run.index} | ${run.durationMs !== undefined ? `${run.durationMs}ms` : '-'} | ${run.error || '-'} |\n`;
+  }
+  return text;
+}
+
+/**
+ * 读取参考图匹配参数
+ */
+function imageMatchOptions(args: Record<string, unknown> | undefined): TemplateMatchOptions {
+  return {
+    threshold: args?.threshold as number | undefined,
+    scales: args?.scales as number[] | undefined,
+    region: args?.region as CropRect | undefined,
+  };
+}
+
+/**
+ * 格式化参考图匹配结果
+ */
+function formatImageMatches(templatePath: string, matches: ImageMatch[]): string {
+  if (matches.length === 0) {
+    return `屏幕上未找到与参考图 ${templatePath} 匹配的区域\n提示: 可降低 threshold，或调整 scales 以适配不同的屏幕密度`;
+  }
+
+  let text = `## 参考图匹配结果 (${matches.length} 个)\n\n`;
+  text += '| # | 匹配度 | 中心坐标 | 区域 | 缩放比例 |\n';
+  text += '|---|--------|----------|------|----------|\n';
+  matches.forEach((match, i) => {
+    const b = match.bounds;
+    text += `| ${i + 1} | ${match.confidence} | (${match.center.x}, ${match.center.y}) | [${b.x}, ${b.y}, ${b.width}x${b.height}] | ${match.scale} |\n`;
+  });
+  return text;
+}
+
+/**
+ * 格式化截图对比结果
+ */
+function formatVisualComparison(comparison: VisualComparison): string {
+  let text = `## 截图对比: ${comparison.name} — ${comparison.passed ? '通过' : '不通过'}\n\n`;
+  text += `- 不一致像素: ${comparison.mismatchedPixels} / ${comparison.comparedPixels} (${comparison.mismatchPercent}%，允许 ${comparison.maxDiffPercent}%)\n`;
+  text += `- 单通道容差: ${comparison.tolerance}\n`;
+  if (comparison.ignoredPixels > 0) {
+    text += `- 忽略像素: ${comparison.ignoredPixels}\n`;
+  }
+  if (comparison.mismatchBounds) {
+    const b = comparison.mismatchBounds;
+    text += `- 差异区域: [${b.x}, ${b.y}, ${b.width}x${b.height}]\n`;
+  }
+  text += `- 基准图: ${comparison.baselinePath}\n`;
+  text += `- 本次截图: ${comparison.actualPath}\n`;
+  text += `- 差异图: ${comparison.diffPath}\n`;
+  return text;
+}
+
+/**
+ * 格式化标注截图的编号说明
+ */
+function formatAnnotatedScreen(annotated: AnnotatedScreen): string {
+  let text = `## 标注截图 (${annotated.marks.length} 个元素${annotated.pid ? `，PID ${annotated.pid}` : ''})\n\n`;
+
+  if (annotated.marks.length > 0) {
+    text += '| 编号 | 类型 | 名称 | 中心坐标 | 节点 ID |\n';
+    text += '|------|------|------|----------|---------|\n';
+    for (const mark of annotated.marks) {
+      text += `| ${mark.index} | ${mark.frameNodeTag || mark.type} | ${mark.name || '-'} | (${mark.center.x}, ${mark.center.y}) | ${mark.nodeId} |\n`;
+    }
+    text += '\n使用 tap { mark: <编号> } 点击对应元素（界面变化后请重新标注）\n';
+  } else {
+    text += '没有可标注的元素\n';
+  }
+
+  if (annotated.withoutBounds > 0) {
+    text += `\n${annotated.withoutBounds} 个符合条件的节点没有坐标信息，未标注\n`;
+  }
+  if (annotated.omitted > 0) {
+    text += `\n超出 maxMarks，另有 ${annotated.omitted} 个元素未标注\n`;
+  }
+  return text;
+}
 
-// 创建 HDC 实例
-const hdc = new HDC();
-// 创建 UIController 实例
-const uiController = new UIController(hdc);
+/**
+ * 格式化文件传输结果
+ */
+function formatTransfer(result: TransferResult): string {
+  const verified =
+    result.verified === undefined ? '未校验（设备不支持 sha256sum）' : result.verified ? '一致' : '不一致';
+
+  let text = `## 文件${result.direction === 'push' ? '推送' : '拉取'}完成\n\n`;
+  text += `- 本地路径: ${result.localPath}\n`;
+  text += `- 设备路径: ${result.remotePath}\n`;
+  text += `- 大小: ${result.bytes} 字节\n`;
+  text += `- SHA-256: ${result.sha256}\n`;
+  if (result.remoteSha256) {
+    text += `- 设备端 SHA-256: ${result.remoteSha256}\n`;
+  }
+  text += `- 校验: ${verified}\n`;
+  text += `- 耗时: ${result.durationMs}ms\n`;
+  return text;
+}
 
 // 创建 MCP 服务器
 const server = new Server(
@@ -32,19 +419,58 @@ const server = new Server(
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
   tools: [
     {
-      name: 'list_windows',
-      description: '列出鸿蒙系统所有窗口及其信息（名称、进程ID、位置、尺寸等）',
+      name: 'list_devices',
+      description: '列出通过 hdc 连接的所有设备（序列号、连接方式、状态）',
       inputSchema: {
         type: 'object',
         properties: {},
       },
     },
+    {
+      name: 'get_device_info',
+      description: '获取设备信息：型号、系统版本、API 级别、分辨率、像素密度、旋转方向和显示屏 ID（按设备缓存）',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          refresh: {
+            type: 'boolean',
+            description: '可选：忽略缓存重新读取（默认 false）',
+          },
+        },
+      },
+    },
+    {
+      name: 'list_windows',
+      description:
+        '列出鸿蒙系统所有窗口及其信息（名称、进程ID、位置、尺寸等）。指定 overlay 时返回按类别着色、标注编号的窗口布局图',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          overlay: {
+            type: 'string',
+            enum: ['screenshot', 'blank'],
+            description: '可选：在截图（screenshot，截图失败时使用空白画布）或空白画布（blank）上绘制窗口边框',
+          },
+          maxWidth: {
+            type: 'number',
+            description: `可选：布局图的最大宽度（默认 ${DEFAULT_INLINE_MAX_WIDTH}）`,
+          },
+          quality: {
+            type: 'number',
+            description: `可选：布局图的 JPEG 质量 1-100（默认 ${DEFAULT_INLINE_QUALITY}）`,
+          },
+        },
+      },
+    },
     {
       name: 'get_ui_tree',
       description: '获取鸿蒙系统 UI 组件树。支持多种模式：summary(摘要)、compact(紧凑)、full(完整)、search(搜索)',
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           pid: {
             type: 'number',
             description: '可选：指定进程 ID，只获取该进程的 UI 树',
@@ -80,41 +506,180 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     },
     {
       name: 'list_abilities',
-      description: '列出鸿蒙系统所有应用（Ability）及其状态',
+      description: '列出鸿蒙系统所有应用（Ability）实例及其状态（包名、模块、状态、Mission ID、进程 ID、是否前台）',
       inputSchema: {
         type: 'object',
-        properties: {},
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '可选：只列出该应用的 Ability',
+          },
+          format: {
+            type: 'string',
+            enum: ['table', 'json'],
+            description: '可选：输出格式（默认 table）',
+          },
+        },
       },
     },
     {
       name: 'screenshot',
-      description: '获取鸿蒙设备截图',
+      description: '获取鸿蒙设备截图。inline 为 true 时直接返回图片内容（可缩小、裁剪以控制大小）',
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           outputPath: {
             type: 'string',
-            description: '本地保存路径（默认 /tmp/screenshot.jpeg）',
+            description: `本地保存路径（相对于工作区根目录 HDC_WORKSPACE，保存原始截图）。默认 ${DEFAULT_SCREENSHOT_PATH}；inline 为 true 时默认不保存`,
+          },
+          inline: {
+            type: 'boolean',
+            description: '可选：是否在结果中返回图片内容（默认 false）',
+          },
+          maxWidth: {
+            type: 'number',
+            description: `可选：返回图片的最大宽度，超出时等比缩小（默认 ${DEFAULT_INLINE_MAX_WIDTH}）`,
+          },
+          quality: {
+            type: 'number',
+            description: `可选：返回图片的 JPEG 质量 1-100（默认 ${DEFAULT_INLINE_QUALITY}）`,
+          },
+          crop: {
+            type: 'object',
+            description: '可选：裁剪区域（屏幕像素坐标），在缩小前应用',
+            properties: {
+              x: { type: 'number' },
+              y: { type: 'number' },
+              width: { type: 'number' },
+              height: { type: 'number' },
+            },
+            required: ['x', 'y', 'width', 'height'],
+          },
+        },
+      },
+    },
+    {
+      name: 'save_baseline',
+      description: '截图并保存为命名的基准图，供 compare_screenshot 做视觉回归对比',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          name: {
+            type: 'string',
+            description: '基准图名称（字母、数字、中文、_、-、.），保存在 HDC_BASELINE_DIR 目录下（默认为工作区下的 baselines 目录）',
+          },
+          overwrite: {
+            type: 'boolean',
+            description: '可选：是否覆盖已有的同名基准图（默认 true）',
+          },
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'compare_screenshot',
+      description: '截图并与基准图逐像素对比，返回不一致像素统计与差异图（红色为差异，蓝色为忽略区域）',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          name: {
+            type: 'string',
+            description: '基准图名称',
+          },
+          tolerance: {
+            type: 'number',
+            description: '可选：单个像素 R/G/B 通道允许的最大差值 0-255（默认 16）',
+          },
+          maxDiffPercent: {
+            type: 'number',
+            description: '可选：允许的不一致像素百分比（默认 0.1）',
+          },
+          ignoreRegions: {
+            type: 'array',
+            description: '可选：不参与对比的区域（屏幕像素坐标），如状态栏、时钟、动态内容',
+            items: {
+              type: 'object',
+              properties: {
+                x: { type: 'number' },
+                y: { type: 'number' },
+                width: { type: 'number' },
+                height: { type: 'number' },
+              },
+              required: ['x', 'y', 'width', 'height'],
+            },
+          },
+          maxWidth: {
+            type: 'number',
+            description: `可选：返回差异图的最大宽度（默认 ${DEFAULT_INLINE_MAX_WIDTH}）`,
+          },
+          quality: {
+            type: 'number',
+            description: `可选：返回差异图的 JPEG 质量 1-100（默认 ${DEFAULT_INLINE_QUALITY}）`,
+          },
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'annotated_screenshot',
+      description:
+        '截图并用编号框标注 UI 树中的节点，返回图片与编号说明（类型、名称、中心坐标）。之后可用 tap { mark: 编号 } 点击对应元素',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          pid: {
+            type: 'number',
+            description: '可选：进程 ID（默认为最上层窗口所属进程）',
+          },
+          interactiveOnly: {
+            type: 'boolean',
+            description: '可选：只标注可交互组件，如按钮、输入框、列表项（默认 false）',
+          },
+          text: {
+            type: 'string',
+            description: '可选：只标注名称包含该文字的节点',
+          },
+          maxMarks: {
+            type: 'number',
+            description: '可选：最多标注的元素数（默认 50，最多 200）',
+          },
+          maxWidth: {
+            type: 'number',
+            description: `可选：返回图片的最大宽度（默认 ${DEFAULT_INLINE_MAX_WIDTH}）`,
+          },
+          quality: {
+            type: 'number',
+            description: `可选：返回图片的 JPEG 质量 1-100（默认 ${DEFAULT_INLINE_QUALITY}）`,
           },
         },
       },
     },
     {
       name: 'tap',
-      description: '点击屏幕指定位置',
+      description: '点击屏幕指定位置，或 annotated_screenshot 返回的编号元素',
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           x: {
             type: 'number',
-            description: 'X 坐标',
+            description: 'X 坐标（指定 mark 时不需要）',
           },
           y: {
             type: 'number',
-            description: 'Y 坐标',
+            description: 'Y 坐标（指定 mark 时不需要）',
+          },
+          mark: {
+            type: 'number',
+            description: '可选：最近一次 annotated_screenshot 中的元素编号，点击该元素中心',
           },
+          ...ACTION_LOG_PROPERTIES,
         },
-        required: ['x', 'y'],
       },
     },
     {
@@ -123,6 +688,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           x1: {
             type: 'number',
             description: '起始 X 坐标',
@@ -143,6 +709,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: 'number',
             description: '滑动持续时间（毫秒），默认 300ms',
           },
+          ...ACTION_LOG_PROPERTIES,
         },
         required: ['x1', 'y1', 'x2', 'y2'],
       },
@@ -153,10 +720,12 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           code: {
             type: 'string',
             description: '按键名称（如: Back/Home/Power）',
           },
+          ...ACTION_LOG_PROPERTIES,
         },
         required: ['code'],
       },
@@ -167,6 +736,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           text: {
             type: 'string',
             description: '要输入的文字',
@@ -181,6 +751,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           text: {
             type: 'string',
             description: '目标文字',
@@ -189,34 +760,120 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: 'number',
             description: '可选：指定进程 ID，用于限定搜索范围',
           },
+          ...ACTION_LOG_PROPERTIES,
         },
         required: ['text'],
       },
     },
+    {
+      name: 'find_image',
+      description: '在当前截图中查找参考图（多尺度模板匹配），返回匹配度与区域。适用于没有文字的图标按钮',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          ...IMAGE_MATCH_PROPERTIES,
+          maxResults: {
+            type: 'number',
+            description: '可选：最多返回的匹配数（默认 5）',
+          },
+        },
+        required: ['templatePath'],
+      },
+    },
+    {
+      name: 'tap_image',
+      description: '点击屏幕上与参考图匹配度最高的区域中心',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          ...IMAGE_MATCH_PROPERTIES,
+          timeout: {
+            type: 'number',
+            description: '可选：等待参考图出现的超时时间（毫秒），默认只查找一次',
+          },
+          ...ACTION_LOG_PROPERTIES,
+        },
+        required: ['templatePath'],
+      },
+    },
     {
       name: 'start_app',
       description: '启动鸿蒙应用',
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           bundleName: {
             type: 'string',
             description: '应用包名（如：com.example.app）',
           },
           abilityName: {
             type: 'string',
-            description: '可选：Ability 名称（如：MainAbility），如果不指定则使用包名.MainAbility',
+            description: '可选：Ability 名称（如：EntryAbility），如果不指定则从应用包信息中解析桌面入口 Ability',
+          },
+          moduleName: {
+            type: 'string',
+            description: '可选：模块名称（如：entry）',
+          },
+          uri: {
+            type: 'string',
+            description: '可选：深度链接 URI（如：myapp://detail?id=1），对应 aa start -U',
+          },
+          action: {
+            type: 'string',
+            description: '可选：Want action（如：ohos.want.action.viewData）',
+          },
+          entities: {
+            type: 'array',
+            items: { type: 'string' },
+            description: '可选：Want entities（如：["entity.system.browsable"]）',
+          },
+          params: {
+            type: 'object',
+            additionalProperties: { type: ['string', 'integer', 'boolean', 'null'] },
+            description: '可选：Want 参数。字符串、整数、布尔值、null 分别对应 --ps、--pi、--pb、--psn',
           },
         },
         required: ['bundleName'],
       },
     },
+    {
+      name: 'open_uri',
+      description: '通过深度链接 URI 打开页面（隐式启动，由系统匹配处理该 URI 的 Ability）',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          uri: {
+            type: 'string',
+            description: 'URI（如：myapp://detail?id=1 或 https://example.com）',
+          },
+          bundleName: {
+            type: 'string',
+            description: '可选：限定处理 URI 的应用包名，指定后确认该应用进入前台',
+          },
+          action: {
+            type: 'string',
+            description: '可选：Want action（默认 ohos.want.action.viewData）',
+          },
+          entities: {
+            type: 'array',
+            items: { type: 'string' },
+            description: '可选：Want entities（如：["entity.system.browsable"]）',
+          },
+        },
+        required: ['uri'],
+      },
+    },
     {
       name: 'stop_app',
       description: '停止鸿蒙应用',
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           bundleName: {
             type: 'string',
             description: '应用包名（如：com.example.app）',
@@ -231,290 +888,1325 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           bundleName: {
             type: 'string',
             description: '应用包名（如：com.example.app）',
           },
           abilityName: {
             type: 'string',
-            description: '可选：Ability 名称（如：MainAbility），如果不指定则使用包名.MainAbility',
+            description: '可选：Ability 名称（如：EntryAbility），如果不指定则从应用包信息中解析桌面入口 Ability',
           },
         },
         required: ['bundleName'],
       },
     },
     {
-      name: 'get_app_status',
-      description: '获取鸿蒙应用状态信息',
+      name: 'clear_app_data',
+      description: '清理应用数据和/或缓存（bm clean），用于让测试从干净的应用状态开始',
       inputSchema: {
         type: 'object',
         properties: {
+          deviceId: DEVICE_ID_PROPERTY,
           bundleName: {
             type: 'string',
             description: '应用包名（如：com.example.app）',
           },
+          scope: {
+            type: 'string',
+            enum: ['data', 'cache', 'all'],
+            description: '可选：清理范围（默认 all）',
+          },
         },
         required: ['bundleName'],
       },
     },
-  ],
-}));
-
-// 注册工具调用处理
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case 'list_windows': {
-        const output = await hdc.listWindows();
-        const windows = WindowManagerParser.parse(output);
-
-        // 格式化输出
-        let result = `## 窗口列表 (${windows.length} 个)\n\n`;
-        result += '| 窗口名 | PID | WinId | 类型 | Z轴 | 位置 |\n';
-        result += '|--------|-----|-------|------|-----|------|\n';
-
-        for (const win of windows) {
-          result += `| ${win.name} | ${win.pid} | ${win.winId} | ${win.type} | ${win.zOrder} | [${win.rect.x}, ${win.rect.y}, ${win.rect.w}x${win.rect.h}] |\n`;
-        }
-
-        return {
-          content: [{ type: 'text', text: result }],
-        };
-      }
-
-      case 'get_ui_tree': {
-        let output = await hdc.getUiTree();
-        const format = (args?.format as string) || 'summary';
-        let pid = args?.pid as number | undefined;
-        const maxDepth = (args?.maxDepth as number) || 50;
-
-        // 如果没有指定 pid，自动获取最上层窗口的 pid
-        if (!pid) {
-          const windowOutput = await hdc.listWindows();
-          const windows = WindowManagerParser.parse(windowOutput);
-          const topWindow = windows.sort((a, b) => b.zOrder - a.zOrder)[0];
-          if (topWindow) {
-            pid = topWindow.pid;
-            console.error(`[自动检测] 使用最上层窗口: ${topWindow.name} (PID: ${topWindow.pid})`);
-          }
-        }
-
-        // 摘要模式（推荐，数据量小）
-        if (format === 'summary') {
-          const summary = RenderServiceParser.getSummary(output);
-          return {
-            content: [{ type: 'text', text: summary }],
-          };
-        }
-
-        // 紧凑模式（只包含关键信息）
-        if (format === 'compact') {
-          const json = RenderServiceParser.toCompactJSON(output, pid, maxDepth);
-          return {
+    {
+      name: 'get_process_stats',
+      description: '获取进程 CPU 占用与 PSS/RSS 内存；指定 samples 时按固定间隔采样并返回最小/最大/平均值',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '可选：应用包名（使用应用主进程）',
+          },
+          pid: {
+            type: 'number',
+            description: '可选：进程 ID。bundleName 与 pid 都未指定时使用最上层窗口所属进程',
+          },
+          samples: {
+            type: 'number',
+            description: '可选：采样次数（默认 1，即只获取当前值；最多 600）',
+          },
+          intervalMs: {
+            type: 'number',
+            description: '可选：采样间隔（毫秒，默认 1000，最小 200）',
+          },
+          format: {
+            type: 'string',
+            enum: ['text', 'json'],
+            description: '可选：输出格式（默认 text）',
+          },
+        },
+      },
+    },
+    {
+      name: 'measure_fps',
+      description: '测量图层的帧率与卡顿：读取 RenderService 帧记录，统计一段时间内或一次滑动期间的平均帧率、丢帧数与最长帧间隔',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          surface: {
+            type: 'string',
+            description: '可选：图层名称（如 list_windows 中的 rnsurface0），默认为最上层窗口',
+          },
+          durationMs: {
+            type: 'number',
+            description: '可选：测量时长（毫秒，默认 3000）；指定 swipe 时为滑动后继续测量的时长（默认 1000）',
+          },
+          swipe: {
+            type: 'object',
+            description: '可选：测量期间执行的滑动',
+            properties: {
+              x1: { type: 'number' },
+              y1: { type: 'number' },
+              x2: { type: 'number' },
+              y2: { type: 'number' },
+              duration: { type: 'number', description: '滑动持续时间（毫秒），默认 300ms' },
+            },
+            required: ['x1', 'y1', 'x2', 'y2'],
+          },
+          refreshRate: {
+            type: 'number',
+            description: '可选：屏幕刷新率（Hz），默认取 RenderService 输出中的值或 60',
+          },
+          format: {
+            type: 'string',
+            enum: ['text', 'json'],
+            description: '可选：输出格式（默认 text）',
+          },
+        },
+      },
+    },
+    {
+      name: 'measure_launch',
+      description: '测量应用冷启动/热启动耗时：重复停止（或切到后台）并启动应用，直到目标元素出现或应用窗口位于最上层，返回 p50/p90/p95',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '应用包名',
+          },
+          abilityName: {
+            type: 'string',
+            description: '可选：Ability 名称，默认为应用的桌面入口 Ability',
+          },
+          mode: {
+            type: 'string',
+            enum: ['cold', 'warm'],
+            description: '可选：cold 先强制停止应用，warm 先按 Home 键切到后台（默认 cold）',
+          },
+          targetText: {
+            type: 'string',
+            description: '可选：视为启动完成的元素文字，默认以应用窗口位于最上层为准',
+          },
+          iterations: {
+            type: 'number',
+            description: '可选：测量次数（默认 5，最多 50）',
+          },
+          timeout: {
+            type: 'number',
+            description: '可选：单次启动超时（毫秒，默认 15000）',
+          },
+          format: {
+            type: 'string',
+            enum: ['text', 'json'],
+            description: '可选：输出格式（默认 text）',
+          },
+        },
+        required: ['bundleName'],
+      },
+    },
+    {
+      name: 'get_crash_logs',
+      description: '获取应用的故障日志（JS 崩溃、Native 崩溃、应用无响应），解析原因、进程 ID 与调用栈摘要',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '应用包名',
+          },
+          since: {
+            type: 'string',
+            description: '可选：只返回不早于该时间的日志（设备本地时间，YYYY-MM-DD HH:mm:ss）',
+          },
+          types: {
+            type: 'array',
+            items: { type: 'string', enum: FAULT_LOG_TYPES },
+            description: '可选：故障类型（jscrash / cppcrash / appfreeze），默认全部',
+          },
+          limit: {
+            type: 'number',
+            description: '可选：最多返回条数（默认 10，最新的优先）',
+          },
+          full: {
+            type: 'boolean',
+            description: '可选：附带完整日志内容（默认 false）',
+          },
+          format: {
+            type: 'string',
+            enum: ['text', 'json'],
+            description: '可选：输出格式（默认 text）',
+          },
+        },
+        required: ['bundleName'],
+      },
+    },
+    {
+      name: 'list_permissions',
+      description: '列出应用申请的权限及授予状态',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '应用包名（如：com.example.app）',
+          },
+          format: {
+            type: 'string',
+            enum: ['table', 'json'],
+            description: '可选：输出格式（默认 table）',
+          },
+        },
+        required: ['bundleName'],
+      },
+    },
+    {
+      name: 'grant_permission',
+      description: '授予应用权限（atm perm -g）',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '应用包名（如：com.example.app）',
+          },
+          permission: {
+            type: 'string',
+            description: '权限名称（如：ohos.permission.CAMERA）',
+          },
+        },
+        required: ['bundleName', 'permission'],
+      },
+    },
+    {
+      name: 'revoke_permission',
+      description: '撤销应用权限（atm perm -c）',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '应用包名（如：com.example.app）',
+          },
+          permission: {
+            type: 'string',
+            description: '权限名称（如：ohos.permission.CAMERA）',
+          },
+        },
+        required: ['bundleName', 'permission'],
+      },
+    },
+    {
+      name: 'install_app',
+      description: '安装本地 .hap / .hsp 安装包到设备',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          packagePath: {
+            type: 'string',
+            description: '本地安装包路径（.hap 或 .hsp，相对于工作区根目录 HDC_WORKSPACE）',
+          },
+          replace: {
+            type: 'boolean',
+            description: '可选：覆盖安装已存在的应用（默认 false）',
+          },
+          downgrade: {
+            type: 'boolean',
+            description: '可选：允许安装低于当前版本号的安装包（默认 false）',
+          },
+        },
+        required: ['packagePath'],
+      },
+    },
+    {
+      name: 'uninstall_app',
+      description: '卸载鸿蒙应用',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '应用包名（如：com.example.app）',
+          },
+          keepData: {
+            type: 'boolean',
+            description: '可选：保留应用数据（默认 false）',
+          },
+        },
+        required: ['bundleName'],
+      },
+    },
+    {
+      name: 'list_bundles',
+      description: '列出已安装的应用包；指定 bundleName 时返回该应用的版本、安装时间、Ability 与权限',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '可选：应用包名，指定后返回该应用的详细信息',
+          },
+          filter: {
+            type: 'string',
+            description: '可选：按包名子串过滤应用列表',
+          },
+          format: {
+            type: 'string',
+            enum: ['text', 'json'],
+            description: '可选：输出格式（默认 text）',
+          },
+        },
+      },
+    },
+    {
+      name: 'get_app_status',
+      description: '获取鸿蒙应用状态信息',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '应用包名（如：com.example.app）',
+          },
+        },
+        required: ['bundleName'],
+      },
+    },
+    {
+      name: 'start_device_recording',
+      description: '开始录制设备命令及输出（含截图文件），录制目录可直接作为 HDC_TRANSPORT=replay 的回放数据',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          outputDir: {
+            type: 'string',
+            description: '可选：录制目录（相对于工作区根目录 HDC_WORKSPACE，默认在 recordings/ 下按时间生成）',
+          },
+        },
+      },
+    },
+    {
+      name: 'stop_device_recording',
+      description: '停止录制设备命令',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'start_log_capture',
+      description: '开始在后台采集 hilog 日志到内存环形缓冲区，可按应用、进程、领域、标签、级别过滤',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          bundleName: {
+            type: 'string',
+            description: '可选：只采集该应用进程的日志（应用重启后自动跟随新进程）',
+          },
+          pid: {
+            type: 'number',
+            description: '可选：只采集该进程的日志',
+          },
+          domain: {
+            type: 'string',
+            description: '可选：日志领域前缀（如 A00001）',
+          },
+          tag: {
+            type: 'string',
+            description: '可选：日志标签（精确匹配）',
+          },
+          level: {
+            type: 'string',
+            enum: ['D', 'I', 'W', 'E', 'F'],
+            description: '可选：最低日志级别（D/I/W/E/F）',
+          },
+          bufferSize: {
+            type: 'number',
+            description: '可选：缓冲区容量（条，默认 5000），满后丢弃最旧的日志',
+          },
+          includeHistory: {
+            type: 'boolean',
+            description: '可选：保留开始采集前设备缓冲区中的历史日志（默认 false）',
+          },
+        },
+      },
+    },
+    {
+      name: 'read_logs',
+      description: '读取已采集的日志，支持正则搜索；传入上次返回的 cursor 只读取新日志',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          pattern: {
+            type: 'string',
+            description: '可选：正则表达式（忽略大小写），匹配标签或日志内容',
+          },
+          cursor: {
+            type: 'number',
+            description: '可选：上次读取返回的 nextCursor，只返回之后采集的日志',
+          },
+          since: {
+            type: 'string',
+            description: '可选：设备时间（MM-DD HH:mm:ss[.SSS]），只返回不早于该时间的日志',
+          },
+          level: {
+            type: 'string',
+            enum: ['D', 'I', 'W', 'E', 'F'],
+            description: '可选：最低日志级别（D/I/W/E/F）',
+          },
+          tag: {
+            type: 'string',
+            description: '可选：日志标签（精确匹配）',
+          },
+          limit: {
+            type: 'number',
+            description: '可选：最多返回条数（默认 200，返回最新的部分）',
+          },
+          format: {
+            type: 'string',
+            enum: ['text', 'json'],
+            description: '可选：输出格式（默认 text）',
+          },
+        },
+      },
+    },
+    {
+      name: 'stop_log_capture',
+      description: '停止采集 hilog 日志（缓冲区中的日志仍可读取）',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+        },
+      },
+    },
+    {
+      name: 'push_file',
+      description: '推送工作区中的本地文件到设备，返回传输字节数与 SHA-256 校验结果',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          localPath: {
+            type: 'string',
+            description: '本地文件路径（相对于工作区根目录 HDC_WORKSPACE）',
+          },
+          remotePath: {
+            type: 'string',
+            description: '设备保存路径（需位于 HDC_REMOTE_ALLOW 允许的目录下，默认 /data/local/tmp）',
+          },
+        },
+        required: ['localPath', 'remotePath'],
+      },
+    },
+    {
+      name: 'pull_file',
+      description: '从设备拉取文件到工作区，返回传输字节数与 SHA-256 校验结果',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          deviceId: DEVICE_ID_PROPERTY,
+          remotePath: {
+            type: 'string',
+            description: '设备文件路径（需位于 HDC_REMOTE_ALLOW 允许的目录下，默认 /data/local/tmp）',
+          },
+          localPath: {
+            type: 'string',
+            description: '可选：本地保存路径（相对于工作区根目录，默认使用设备文件名）',
+          },
+        },
+        required: ['remotePath'],
+      },
+    },
+  ],
+}));
+
+/**
+ * 处理工具调用
+ */
+async function handleToolCall(request: CallToolRequest) {
+  const { name, arguments: args } = request.params;
+
+  try {
+    if (name === 'list_devices') {
+      const targets = await HDC.listTargets();
+
+      let result = `## 设备列表 (${targets.length} 台)\n\n`;
+      if (targets.length === 0) {
+        result += '未检测到已连接的设备\n';
+      } else {
+        result += '| 序列号 | 连接方式 | 状态 |\n';
+        result += '|--------|----------|------|\n';
+        for (const target of targets) {
+          result += `| ${target.serial} | ${target.connectType} | ${target.state} |\n`;
+        }
+      }
+
+      return {
+        content: [{ type: 'text', text: result }],
+      };
+    }
+
+    const { hdc, uiController } = await getDevice(args?.deviceId as string | undefined);
+
+    switch (name) {
+      case 'get_device_info': {
+        const info = await hdc.getDeviceInfo((args?.refresh as boolean) || false);
+
+        let result = `## 设备信息: ${info.serial}\n\n`;
+        result += `- 型号: ${info.model || '未知'}${info.marketName ? ` (${info.marketName})` : ''}\n`;
+        if (info.brand) result += `- 品牌: ${info.brand}\n`;
+        result += `- 系统版本: ${info.osVersion || '未知'}\n`;
+        if (info.softwareVersion) result += `- 软件版本: ${info.softwareVersion}\n`;
+        result += `- API 级别: ${info.apiLevel ?? '未知'}\n`;
+
+        if (info.screen) {
+          result += `- 分辨率: ${info.screen.width}x${info.screen.height}\n`;
+          if (info.screen.density !== undefined) result += `- 虚拟像素比: ${info.screen.density}\n`;
+          if (info.screen.dpi !== undefined) result += `- DPI: ${info.screen.dpi}\n`;
+          result += `- 旋转方向: ${info.screen.rotation * 90}°\n`;
+        }
+
+        if (info.displays.length > 0) {
+          result += `\n### 显示屏 (${info.displays.length} 个)\n\n`;
+          result += '| ID | 名称 | 分辨率 | 虚拟像素比 | 旋转 | 刷新率 |\n';
+          result += '|----|------|--------|------------|------|--------|\n';
+          for (const display of info.displays) {
+            result += `| ${display.id} | ${display.name || '-'} | ${display.width}x${display.height} | ${display.density ?? '-'} | ${display.rotation * 90}° | ${display.refreshRate ? `${display.refreshRate}Hz` : '-'} |\n`;
+          }
+        }
+
+        return {
+          content: [{ type: 'text', text: result }],
+        };
+      }
+
+      case 'list_windows': {
+        const output = await hdc.listWindows();
+        const windows = WindowManagerParser.parse(output);
+        const overlay = args?.overlay as string | undefined;
+
+        if (overlay && overlay !== 'screenshot' && overlay !== 'blank') {
+          return {
+            content: [{ type: 'text', text: `错误：无效的 overlay: ${overlay}（可选值: screenshot/blank）` }],
+            isError: true,
+          };
+        }
+
+        if (!overlay) {
+          // 格式化输出
+          let result = `## 窗口列表 (${windows.length} 个)\n\n`;
+          result += '| 窗口名 | PID | WinId | 类型 | Z轴 | 位置 |\n';
+          result += '|--------|-----|-------|------|-----|------|\n';
+
+          for (const win of windows) {
+            result += `| ${win.name} | ${win.pid} | ${win.winId} | ${win.type} | ${win.zOrder} | [${win.rect.x}, ${win.rect.y}, ${win.rect.w}x${win.rect.h}] |\n`;
+          }
+
+          return {
+            content: [{ type: 'text', text: result }],
+          };
+        }
+
+        let canvas: RawImage | null = null;
+        let note = '';
+        if (overlay === 'screenshot') {
+          try {
+            canvas = await hdc.captureScreenImage();
+          } catch (error) {
+            note = `截图失败，使用空白画布: ${formatError(error)}\n`;
+          }
+        }
+        if (!canvas) {
+          const size = WindowOverlay.getCanvasSize(windows);
+          if (!size) {
+            return {
+              content: [{ type: 'text', text: '错误：窗口列表为空，无法确定画布尺寸' }],
+              isError: true,
+            };
+          }
+          canvas = ImageProcessor.create(size.width, size.height, BLANK_CANVAS_COLOR);
+        }
+
+        const skipped = WindowOverlay.render(canvas, windows);
+        const image = ImageProcessor.resize(canvas, (args?.maxWidth as number) ?? DEFAULT_INLINE_MAX_WIDTH);
+        const data = ImageProcessor.encode(image, (args?.quality as number) ?? DEFAULT_INLINE_QUALITY);
+
+        let result = `## 窗口布局 (${windows.length} 个窗口)\n\n${note}`;
+        result += '| 编号 | 窗口名 | 类别 | PID | WinId | 类型 | 模式 | Z轴 | 位置 |\n';
+        result += '|------|--------|------|-----|-------|------|------|-----|------|\n';
+        windows.forEach((win, i) => {
+          result += `| ${i + 1} | ${win.name} | ${WindowManagerParser.getCategory(win)} | ${win.pid} | ${win.winId} | ${win.type} | ${win.mode} | ${win.zOrder} | [${win.rect.x}, ${win.rect.y}, ${win.rect.w}x${win.rect.h}] |\n`;
+        });
+        result += '\n边框颜色:\n';
+        for (const style of Object.values(WINDOW_CATEGORY_STYLES)) {
+          result += `- ${style.label}\n`;
+        }
+        if (skipped.length > 0) {
+          result += `\n未绘制（尺寸为 0 或超出画布）: ${skipped.join(', ')}\n`;
+        }
+
+        return {
+          content: [
+            { type: 'text', text: result },
+            { type: 'image', data: data.toString('base64'), mimeType: 'image/jpeg' },
+          ],
+        };
+      }
+
+      case 'get_ui_tree': {
+        let output = await hdc.getUiTree();
+        const format = (args?.format as string) || 'summary';
+        let pid = args?.pid as number | undefined;
+        const maxDepth = (args?.maxDepth as number) || 50;
+
+        // 如果没有指定 pid，自动获取最上层窗口的 pid
+        if (!pid) {
+          const topWindow = await hdc.getTopWindow();
+          if (topWindow) {
+            pid = topWindow.pid;
+            console.error(`[自动检测] 使用最上层窗口: ${topWindow.name} (PID: ${topWindow.pid})`);
+          }
+        }
+
+        // 摘要模式（推荐，数据量小）
+        if (format === 'summary') {
+          const summary = RenderServiceParser.getSummary(output);
+          return {
+            content: [{ type: 'text', text: summary }],
+          };
+        }
+
+        // 紧凑模式（只包含关键信息）
+        if (format === 'compact') {
+          const json = RenderServiceParser.toCompactJSON(output, pid, maxDepth);
+          return {
             content: [{ type: 'text', text: json }],
           };
         }
 
-        // 搜索模式
-        if (format === 'search') {
-          const frameNodeTag = args?.frameNodeTag as string | undefined;
-          const nodeName = args?.nodeName as string | undefined;
-          const nodeType = args?.nodeType as string | undefined;
-          const maxResults = (args?.maxResults as number) || 50;
-
-          if (!frameNodeTag && !nodeName && !nodeType) {
-            return {
-              content: [{ type: 'text', text: '搜索模式需要指定至少一个搜索参数：frameNodeTag、nodeName 或 nodeType' }],
-              isError: true,
-            };
-          }
+        // 搜索模式
+        if (format === 'search') {
+          const frameNodeTag = args?.frameNodeTag as string | undefined;
+          const nodeName = args?.nodeName as string | undefined;
+          const nodeType = args?.nodeType as string | undefined;
+          const maxResults = (args?.maxResults as number) || 50;
+
+          if (!frameNodeTag && !nodeName && !nodeType) {
+            return {
+              content: [{ type: 'text', text: '搜索模式需要指定至少一个搜索参数：frameNodeTag、nodeName 或 nodeType' }],
+              isError: true,
+            };
+          }
+
+          const results = RenderServiceParser.searchNodes(output, {
+            pid,
+            frameNodeTag,
+            nodeName,
+            nodeType,
+            maxResults,
+          });
+          return {
+            content: [{ type: 'text', text: results }],
+          };
+        }
+
+        // 原始文本模式
+        if (format === 'text') {
+          return {
+            content: [{ type: 'text', text: output }],
+          };
+        }
+
+        // 完整 JSON 模式（数据量大，默认使用摘要模式）
+        const trees = RenderServiceParser.toJSON(output);
+        const result = pid ? { [pid]: trees[pid as any] || {} } : trees;
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      case 'list_abilities': {
+        const bundleName = args?.bundleName as string | undefined;
+        let abilities = AbilityManagerParser.parse(await hdc.listAbilities());
+        if (bundleName) {
+          abilities = AbilityManagerParser.filterByBundle(abilities, bundleName);
+        }
+
+        if (args?.format === 'json') {
+          return {
+            content: [{ type: 'text', text: JSON.stringify(abilities, null, 2) }],
+          };
+        }
+
+        let result = `## 应用列表 (${abilities.length} 个 Ability)\n\n`;
+        result += formatAbilityTable(abilities);
+
+        return {
+          content: [{ type: 'text', text: result }],
+        };
+      }
+
+      case 'screenshot': {
+        if (!args?.inline) {
+          const outputPath = await workspace.resolveLocal((args?.outputPath as string) || DEFAULT_SCREENSHOT_PATH);
+          await mkdir(dirname(outputPath), { recursive: true });
+          const output = await hdc.captureScreenshot(outputPath);
+          return {
+            content: [{ type: 'text', text: `截图已保存到: ${outputPath}\n${output}` }],
+          };
+        }
+
+        // 未指定保存路径时写入独立的临时目录，编码后删除，避免并发请求互相覆盖
+        const tempDir = args?.outputPath ? undefined : await mkdtemp(join(tmpdir(), 'hdc-screenshot-'));
+        try {
+          const outputPath = tempDir ? join(tempDir, 'screenshot.jpeg') : await workspace.resolveLocal(args?.outputPath as string);
+          await mkdir(dirname(outputPath), { recursive: true });
+          const output = await hdc.captureScreenshot(outputPath);
+          const text = tempDir ? output : `截图已保存到: ${outputPath}\n${output}`;
+
+          let image = ImageProcessor.decode(await readFile(outputPath));
+          const size = `${image.width}x${image.height}`;
+          if (args?.crop) {
+            image = ImageProcessor.crop(image, args.crop as CropRect);
+          }
+          image = ImageProcessor.resize(image, (args?.maxWidth as number) ?? DEFAULT_INLINE_MAX_WIDTH);
+          const data = ImageProcessor.encode(image, (args?.quality as number) ?? DEFAULT_INLINE_QUALITY);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${text.trimEnd()}\n原始尺寸: ${size}，返回尺寸: ${image.width}x${image.height}，${data.length} 字节`.trim(),
+              },
+              { type: 'image', data: data.toString('base64'), mimeType: 'image/jpeg' },
+            ],
+          };
+        } finally {
+          if (tempDir) {
+            await rm(tempDir, { recursive: true, force: true });
+          }
+        }
+      }
+
+      case 'save_baseline': {
+        const baseline = await baselines.save(hdc, args?.name as string, (args?.overwrite as boolean) ?? true);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `基准图 "${baseline.name}" 已保存 (${baseline.width}x${baseline.height})\n路径: ${baseline.path}`,
+            },
+          ],
+        };
+      }
+
+      case 'compare_screenshot': {
+        const { comparison, diffImage } = await baselines.compare(hdc, args?.name as string, {
+          tolerance: args?.tolerance as number | undefined,
+          maxDiffPercent: args?.maxDiffPercent as number | undefined,
+          ignoreRegions: args?.ignoreRegions as CropRect[] | undefined,
+        });
+
+        const image = ImageProcessor.resize(diffImage, (args?.maxWidth as number) ?? DEFAULT_INLINE_MAX_WIDTH);
+        const data = ImageProcessor.encode(image, (args?.quality as number) ?? DEFAULT_INLINE_QUALITY);
+
+        return {
+          content: [
+            { type: 'text', text: formatVisualComparison(comparison) },
+            { type: 'image', data: data.toString('base64'), mimeType: 'image/jpeg' },
+          ],
+        };
+      }
+
+      case 'annotated_screenshot': {
+        const annotated = await uiController.annotateScreen({
+          pid: args?.pid as number | undefined,
+          interactiveOnly: args?.interactiveOnly as boolean | undefined,
+          text: args?.text as string | undefined,
+          maxMarks: args?.maxMarks as number | undefined,
+        });
+
+        const image = ImageProcessor.resize(annotated.image, (args?.maxWidth as number) ?? DEFAULT_INLINE_MAX_WIDTH);
+        const data = ImageProcessor.encode(image, (args?.quality as number) ?? DEFAULT_INLINE_QUALITY);
+
+        return {
+          content: [
+            { type: 'text', text: formatAnnotatedScreen(annotated) },
+            { type: 'image', data: data.toString('base64'), mimeType: 'image/jpeg' },
+          ],
+        };
+      }
+
+      case 'tap': {
+        const markIndex = args?.mark as number | undefined;
+        let x = args?.x as number;
+        let y = args?.y as number;
+        let target = '';
+
+        if (markIndex !== undefined) {
+          const mark = uiController.getMark(markIndex);
+          if (!mark) {
+            return {
+              content: [{ type: 'text', text: `错误：没有编号为 ${markIndex} 的元素，请先调用 annotated_screenshot` }],
+              isError: true,
+            };
+          }
+          ({ x, y } = mark.center);
+          target = ` [${mark.index}] ${mark.frameNodeTag || mark.type}${mark.name ? `(${mark.name})` : ''}`;
+        }
+
+        if (x === undefined || y === undefined) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 x 或 y（或 mark）' }],
+            isError: true,
+          };
+        }
+
+        const { result: output, logText } = await runAction(hdc, args, () => hdc.tap(x, y));
+
+        return {
+          content: [{ type: 'text', text: `成功点击坐标 (${x}, ${y})${target}\n${output}${logText}` }],
+        };
+      }
+
+      case 'swipe': {
+        const x1 = args?.x1 as number;
+        const y1 = args?.y1 as number;
+        const x2 = args?.x2 as number;
+        const y2 = args?.y2 as number;
+        const duration = (args?.duration as number) || 300;
+
+        if (x1 === undefined || y1 === undefined || x2 === undefined || y2 === undefined) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 x1, y1, x2 或 y2' }],
+            isError: true,
+          };
+        }
+
+        const { result: output, logText } = await runAction(hdc, args, () => hdc.swipe(x1, y1, x2, y2, duration));
+
+        return {
+          content: [{ type: 'text', text: `成功从 (${x1}, ${y1}) 滑动到 (${x2}, ${y2})，持续 ${duration}ms\n${output}${logText}` }],
+        };
+      }
+
+      case 'press_key': {
+        const code = args?.code as string;
+
+        if (code === undefined) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 code' }],
+            isError: true,
+          };
+        }
+
+        const { result: output, logText } = await runAction(hdc, args, () => hdc.pressKey(code));
+
+        return {
+          content: [{ type: 'text', text: `成功按键: ${code}\n${output}${logText}` }],
+        };
+      }
+
+      case 'text': {
+        const text = args?.text as string;
+
+        if (text === undefined) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 text' }],
+            isError: true,
+          };
+        }
+
+        const output = await hdc.inputText(text);
+
+        return {
+          content: [{ type: 'text', text: `成功输入文字: "${text}"\n${output}` }],
+        };
+      }
+
+      case 'smart_tap': {
+        const text = args?.text as string;
+        const pid = args?.pid as number | undefined;
+
+        if (text === undefined) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 text' }],
+            isError: true,
+          };
+        }
+
+        const { result, logText } = await runAction(hdc, args, () => uiController.smartTap(text, pid));
+
+        if (result.success) {
+          let responseText = result.message;
+          if (result.coordinates) {
+            responseText += `\n坐标: (${result.coordinates.x}, ${result.coordinates.y})`;
+          }
+          if (result.element) {
+            responseText += `\n元素类型: ${result.element.type}${result.element.name ? ` (${result.element.name})` : ''}`;
+          }
+          // 如果有候选列表，显示前几个相似结果
+          if (result.candidates && result.candidates.length > 1) {
+            responseText += `\n\n其他相似结果 (共 ${result.candidates.length - 1} 个):`;
+            for (let i = 1; i < Math.min(4, result.candidates.length); i++) {
+              const cand = result.candidates[i];
+              responseText += `\n  ${i}. ${cand.element.type}${cand.element.name ? `(${cand.element.name})` : ''} - 匹配度: ${cand.score}%`;
+            }
+          }
+          return {
+            content: [{ type: 'text', text: responseText + logText }],
+          };
+        } else {
+          let responseText = result.message;
+          // 显示候选列表帮助调试
+          if (result.candidates && result.candidates.length > 0) {
+            responseText += `\n\n找到的相似元素 (共 ${result.candidates.length} 个):`;
+            for (let i = 0; i < Math.min(5, result.candidates.length); i++) {
+              const cand = result.candidates[i];
+              responseText += `\n  ${i + 1}. ${cand.element.type}${cand.element.name ? `(${cand.element.name})` : ''} - 匹配度: ${cand.score}%`;
+            }
+          } else {
+            responseText += `\n提示: 请确认文字是否正确，或尝试使用更模糊的搜索词`;
+          }
+          return {
+            content: [{ type: 'text', text: responseText + logText }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'find_image': {
+        const templatePath = args?.templatePath as string;
+        if (!templatePath) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 templatePath' }],
+            isError: true,
+          };
+        }
+
+        const matches = await uiController.findImage(templatePath, {
+          ...imageMatchOptions(args),
+          maxResults: args?.maxResults as number | undefined,
+        });
+
+        return {
+          content: [{ type: 'text', text: formatImageMatches(templatePath, matches) }],
+        };
+      }
+
+      case 'tap_image': {
+        const templatePath = args?.templatePath as string;
+        if (!templatePath) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 templatePath' }],
+            isError: true,
+          };
+        }
+
+        const { result, logText } = await runAction(hdc, args, () =>
+          uiController.tapImage(templatePath, imageMatchOptions(args), args?.timeout as number | undefined)
+        );
+
+        let responseText = result.message;
+        if (result.match) {
+          const b = result.match.bounds;
+          responseText += `\n坐标: (${result.match.center.x}, ${result.match.center.y})`;
+          responseText += `\n匹配区域: [${b.x}, ${b.y}, ${b.width}x${b.height}]，缩放比例: ${result.match.scale}`;
+        }
+
+        return {
+          content: [{ type: 'text', text: responseText + logText }],
+          isError: !result.success,
+        };
+      }
+
+      case 'start_app': {
+        const bundleName = args?.bundleName as string;
+        const abilityName = args?.abilityName as string | undefined;
+
+        if (bundleName === undefined) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 bundleName' }],
+            isError: true,
+          };
+        }
+
+        const result = await hdc.startApp(bundleName, {
+          abilityName,
+          moduleName: args?.moduleName as string | undefined,
+          uri: args?.uri as string | undefined,
+          action: args?.action as string | undefined,
+          entities: args?.entities as string[] | undefined,
+          params: args?.params as Record<string, WantParamValue> | undefined,
+        });
+
+        if (result.success) {
+          return {
+            content: [{ type: 'text', text: result.message }],
+          };
+        } else {
+          return {
+            content: [{ type: 'text', text: formatFailure(result) }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'open_uri': {
+        const uri = args?.uri as string;
+
+        if (uri === undefined) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 uri' }],
+            isError: true,
+          };
+        }
+
+        const result = await hdc.openUri(uri, {
+          bundleName: args?.bundleName as string | undefined,
+          action: args?.action as string | undefined,
+          entities: args?.entities as string[] | undefined,
+        });
+
+        if (result.success) {
+          return {
+            content: [{ type: 'text', text: result.message }],
+          };
+        } else {
+          return {
+            content: [{ type: 'text', text: formatFailure(result) }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'stop_app': {
+        const bundleName = args?.bundleName as string;
+
+        if (bundleName === undefined) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 bundleName' }],
+            isError: true,
+          };
+        }
+
+        const result = await hdc.stopApp(bundleName);
+
+        if (result.success) {
+          return {
+            content: [{ type: 'text', text: result.message }],
+          };
+        } else {
+          return {
+            content: [{ type: 'text', text: formatFailure(result) }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'restart_app': {
+        const bundleName = args?.bundleName as string;
+        const abilityName = args?.abilityName as string | undefined;
+
+        if (bundleName === undefined) {
+          return {
+            content: [{ type: 'text', text: '错误：缺少必需参数 bundleName' }],
+            isError: true,
+          };
+        }
+
+        const result = await hdc.restartApp(bundleName, abilityName);
+
+        if (result.success) {
+          return {
+            content: [{ type: 'text', text: result.message }],
+          };
+        } else {
+          return {
+            content: [{ type: 'text', text: formatFailure(result) }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'clear_app_data': {
+        const bundleName = args?.bundleName as string;
 
-          const results = RenderServiceParser.searchNodes(output, {
-            pid,
-            frameNodeTag,
-            nodeName,
-            nodeType,
-            maxResults,
-          });
+        if (bundleName === undefined) {
           return {
-            content: [{ type: 'text', text: results }],
+            content: [{ type: 'text', text: '错误：缺少必需参数 bundleName' }],
+            isError: true,
           };
         }
 
-        // 原始文本模式
-        if (format === 'text') {
+        const result = await hdc.clearAppData(bundleName, (args?.scope as ClearScope) || 'all');
+
+        if (result.success) {
           return {
-            content: [{ type: 'text', text: output }],
+            content: [{ type: 'text', text: result.message }],
+          };
+        } else {
+          return {
+            content: [{ type: 'text', text: formatFailure(result) }],
+            isError: true,
           };
         }
-
-        // 完整 JSON 模式（数据量大，默认使用摘要模式）
-        const trees = RenderServiceParser.toJSON(output);
-        const result = pid ? { [pid]: trees[pid as any] || {} } : trees;
-        return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-        };
       }
 
-      case 'list_abilities': {
-        const output = await hdc.listAbilities();
+      case 'get_process_stats': {
+        const samples = (args?.samples as number) || 1;
+        const pid = await hdc.resolveProcessId(args?.bundleName as string | undefined, args?.pid as number | undefined);
 
-        // 解析并格式化输出
-        let result = `## 应用列表\n\n`;
-        result += '```\n' + output + '\n```\n';
+        if (samples > 1) {
+          const sampling = await hdc.sampleProcessStats(pid, {
+            samples,
+            intervalMs: args?.intervalMs as number | undefined,
+          });
+          return {
+            content: [
+              { type: 'text', text: args?.format === 'json' ? JSON.stringify(sampling, null, 2) : formatProcessSampling(sampling) },
+            ],
+          };
+        }
 
+        const stats = await hdc.getProcessStats(pid);
         return {
-          content: [{ type: 'text', text: result }],
+          content: [{ type: 'text', text: args?.format === 'json' ? JSON.stringify(stats, null, 2) : formatProcessStats(stats) }],
         };
       }
 
-      case 'screenshot': {
-        const outputPath = (args?.outputPath as string) || '/tmp/screenshot.jpeg';
-        const output = await hdc.screenshot('/data/local/tmp/screenshot.jpeg', outputPath);
+      case 'measure_fps': {
+        let surface = args?.surface as string | undefined;
+        const swipe = args?.swipe as { x1: number; y1: number; x2: number; y2: number; duration?: number } | undefined;
+
+        if (!surface) {
+          const topWindow = await hdc.getTopWindow();
+          if (!topWindow) {
+            return {
+              content: [{ type: 'text', text: '未找到窗口，请通过 surface 参数指定图层名称' }],
+              isError: true,
+            };
+          }
+          surface = topWindow.name;
+        }
+
+        const report = await hdc.measureFps(surface, {
+          durationMs: args?.durationMs as number | undefined,
+          refreshRate: args?.refreshRate as number | undefined,
+          action: swipe ? () => hdc.swipe(swipe.x1, swipe.y1, swipe.x2, swipe.y2, swipe.duration || 300) : undefined,
+        });
 
         return {
-          content: [{ type: 'text', text: `截图已保存到: ${outputPath}\n${output}` }],
+          content: [{ type: 'text', text: args?.format === 'json' ? JSON.stringify(report, null, 2) : formatFpsReport(report) }],
         };
       }
 
-      case 'tap': {
-        const x = args?.x as number;
-        const y = args?.y as number;
+      case 'measure_launch': {
+        const bundleName = args?.bundleName as string;
 
-        if (x === undefined || y === undefined) {
+        if (bundleName === undefined) {
           return {
-            content: [{ type: 'text', text: '错误：缺少必需参数 x 或 y' }],
+            content: [{ type: 'text', text: '错误：缺少必需参数 bundleName' }],
             isError: true,
           };
         }
 
-        const output = await hdc.tap(x, y);
+        const measurement = await new LaunchProfiler(hdc).measure(bundleName, {
+          abilityName: args?.abilityName as string | undefined,
+          mode: args?.mode as LaunchMode | undefined,
+          targetText: args?.targetText as string | undefined,
+          iterations: args?.iterations as number | undefined,
+          timeout: args?.timeout as number | undefined,
+        });
 
         return {
-          content: [{ type: 'text', text: `成功点击坐标 (${x}, ${y})\n${output}` }],
+          content: [
+            {
+              type: 'text',
+              text: args?.format === 'json' ? JSON.stringify(measurement, null, 2) : formatLaunchMeasurement(measurement),
+            },
+          ],
+          isError: measurement.summary === null,
         };
       }
 
-      case 'swipe': {
-        const x1 = args?.x1 as number;
-        const y1 = args?.y1 as number;
-        const x2 = args?.x2 as number;
-        const y2 = args?.y2 as number;
-        const duration = (args?.duration as number) || 300;
+      case 'get_crash_logs': {
+        const bundleName = args?.bundleName as string;
+        const full = (args?.full as boolean) || false;
 
-        if (x1 === undefined || y1 === undefined || x2 === undefined || y2 === undefined) {
+        if (bundleName === undefined) {
           return {
-            content: [{ type: 'text', text: '错误：缺少必需参数 x1, y1, x2 或 y2' }],
+            content: [{ type: 'text', text: '错误：缺少必需参数 bundleName' }],
             isError: true,
           };
         }
 
-        const output = await hdc.swipe(x1, y1, x2, y2, duration);
+        const logs = await hdc.getCrashLogs(bundleName, {
+          since: args?.since as string | undefined,
+          types: args?.types as FaultLogType[] | undefined,
+          limit: args?.limit as number | undefined,
+        });
+
+        if (args?.format === 'json') {
+          const items = full ? logs : logs.map(({ content, ...log }) => log);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(items, null, 2) }],
+          };
+        }
+
+        let result = `## 故障日志: ${bundleName} (${logs.length} 条)\n\n`;
+        if (logs.length === 0) {
+          result += '没有找到故障日志\n';
+        }
+        logs.forEach((log, index) => {
+          result += `### ${index + 1}. ${log.type} ${log.timestamp || log.time}\n\n`;
+          result += `- 文件: ${log.fileName}\n`;
+          result += `- PID: ${log.pid ?? '-'}\n`;
+          result += `- 原因: ${log.reason || '-'}\n`;
+          if (log.errorMessage) {
+            result += `- 错误信息: ${log.errorName ? `${log.errorName}: ` : ''}${log.errorMessage}\n`;
+          }
+          if (log.foreground !== undefined) {
+            result += `- 前台: ${log.foreground ? '是' : '否'}\n`;
+          }
+          if (log.stack.length > 0) {
+            result += '\n```\n' + log.stack.join('\n') + '\n```\n';
+          }
+          if (full) {
+            result += '\n完整日志:\n```\n' + log.content.trimEnd() + '\n```\n';
+          }
+          result += '\n';
+        });
 
         return {
-          content: [{ type: 'text', text: `成功从 (${x1}, ${y1}) 滑动到 (${x2}, ${y2})，持续 ${duration}ms\n${output}` }],
+          content: [{ type: 'text', text: result }],
         };
       }
 
-      case 'press_key': {
-        const code = args?.code as string;
+      case 'list_permissions': {
+        const bundleName = args?.bundleName as string;
 
-        if (code === undefined) {
+        if (bundleName === undefined) {
           return {
-            content: [{ type: 'text', text: '错误：缺少必需参数 code' }],
+            content: [{ type: 'text', text: '错误：缺少必需参数 bundleName' }],
             isError: true,
           };
         }
 
-        const output = await hdc.pressKey(code);
-
-        return {
-          content: [{ type: 'text', text: `成功按键: ${code}\n${output}` }],
-        };
-      }
-
-      case 'text': {
-        const text = args?.text as string;
+        const token = await hdc.getPermissions(bundleName);
 
-        if (text === undefined) {
+        if (!token) {
           return {
-            content: [{ type: 'text', text: '错误：缺少必需参数 text' }],
+            content: [{ type: 'text', text: `未找到应用 ${bundleName} 的访问令牌（可能未安装）` }],
             isError: true,
           };
         }
 
-        const output = await hdc.inputText(text);
+        if (args?.format === 'json') {
+          return {
+            content: [{ type: 'text', text: JSON.stringify(token, null, 2) }],
+          };
+        }
+
+        const grantedCount = token.permissions.filter(p => p.granted).length;
+        let result = `## 应用权限: ${bundleName}\n\n`;
+        result += `访问令牌: ${token.tokenId}，已授予 ${grantedCount}/${token.permissions.length}\n\n`;
+        result += '| 权限 | 状态 | 授权标记 |\n';
+        result += '|------|------|----------|\n';
+        for (const permission of token.permissions) {
+          result += `| ${permission.name} | ${permission.granted ? '已授予' : '未授予'} | ${permission.grantFlag ?? '-'} |\n`;
+        }
 
         return {
-          content: [{ type: 'text', text: `成功输入文字: "${text}"\n${output}` }],
+          content: [{ type: 'text', text: result }],
         };
       }
 
-      case 'smart_tap': {
-        const text = args?.text as string;
-        const pid = args?.pid as number | undefined;
+      case 'grant_permission':
+      case 'revoke_permission': {
+        const bundleName = args?.bundleName as string;
+        const permission = args?.permission as string;
 
-        if (text === undefined) {
+        if (bundleName === undefined || permission === undefined) {
           return {
-            content: [{ type: 'text', text: '错误：缺少必需参数 text' }],
+            content: [{ type: 'text', text: '错误：缺少必需参数 bundleName 或 permission' }],
             isError: true,
           };
         }
 
-        const result = await uiController.smartTap(text, pid);
+        const result =
+          name === 'grant_permission'
+            ? await hdc.grantPermission(bundleName, permission)
+            : await hdc.revokePermission(bundleName, permission);
 
         if (result.success) {
-          let responseText = result.message;
-          if (result.coordinates) {
-            responseText += `\n坐标: (${result.coordinates.x}, ${result.coordinates.y})`;
-          }
-          if (result.element) {
-            responseText += `\n元素类型: ${result.element.type}${result.element.name ? ` (${result.element.name})` : ''}`;
-          }
-          // 如果有候选列表，显示前几个相似结果
-          if (result.candidates && result.candidates.length > 1) {
-            responseText += `\n\n其他相似结果 (共 ${result.candidates.length - 1} 个):`;
-            for (let i = 1; i < Math.min(4, result.candidates.length); i++) {
-              const cand = result.candidates[i];
-              responseText += `\n  ${i}. ${cand.element.type}${cand.element.name ? `(${cand.element.name})` : ''} - 匹配度: ${cand.score}%`;
-            }
-          }
           return {
-            content: [{ type: 'text', text: responseText }],
+            content: [{ type: 'text', text: result.message }],
           };
         } else {
-          let responseText = result.message;
-          // 显示候选列表帮助调试
-          if (result.candidates && result.candidates.length > 0) {
-            responseText += `\n\n找到的相似元素 (共 ${result.candidates.length} 个):`;
-            for (let i = 0; i < Math.min(5, result.candidates.length); i++) {
-              const cand = result.candidates[i];
-              responseText += `\n  ${i + 1}. ${cand.element.type}${cand.element.name ? `(${cand.element.name})` : ''} - 匹配度: ${cand.score}%`;
-            }
-          } else {
-            responseText += `\n提示: 请确认文字是否正确，或尝试使用更模糊的搜索词`;
-          }
           return {
-            content: [{ type: 'text', text: responseText }],
+            content: [{ type: 'text', text: formatFailure(result) }],
             isError: true,
           };
         }
       }
 
-      case 'start_app': {
-        const bundleName = args?.bundleName as string;
-        const abilityName = args?.abilityName as string | undefined;
+      case 'install_app': {
+        const packagePath = args?.packagePath as string;
 
-        if (bundleName === undefined) {
+        if (packagePath === undefined) {
           return {
-            content: [{ type: 'text', text: '错误：缺少必需参数 bundleName' }],
+            content: [{ type: 'text', text: '错误：缺少必需参数 packagePath' }],
             isError: true,
           };
         }
 
-        const result = await hdc.startApp(bundleName, abilityName);
+        const result = await hdc.installApp(await workspace.resolveLocal(packagePath), {
+          replace: (args?.replace as boolean) || false,
+          downgrade: (args?.downgrade as boolean) || false,
+        });
 
         if (result.success) {
           return {
@@ -522,13 +2214,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         } else {
           return {
-            content: [{ type: 'text', text: result.message }],
+            content: [{ type: 'text', text: formatFailure(result) }],
             isError: true,
           };
         }
       }
 
-      case 'stop_app': {
+      case 'uninstall_app': {
         const bundleName = args?.bundleName as string;
 
         if (bundleName === undefined) {
@@ -538,7 +2230,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const result = await hdc.stopApp(bundleName);
+        const result = await hdc.uninstallApp(bundleName, (args?.keepData as boolean) || false);
 
         if (result.success) {
           return {
@@ -546,35 +2238,81 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         } else {
           return {
-            content: [{ type: 'text', text: result.message }],
+            content: [{ type: 'text', text: formatFailure(result) }],
             isError: true,
           };
         }
       }
 
-      case 'restart_app': {
-        const bundleName = args?.bundleName as string;
-        const abilityName = args?.abilityName as string | undefined;
+      case 'list_bundles': {
+        const bundleName = args?.bundleName as string | undefined;
+        const format = (args?.format as string) || 'text';
+
+        if (bundleName) {
+          const info = await hdc.getBundleInfo(bundleName);
+
+          if (!info) {
+            return {
+              content: [{ type: 'text', text: `未找到应用: ${bundleName}（可能未安装）` }],
+              isError: true,
+            };
+          }
+
+          if (format === 'json') {
+            return {
+              content: [{ type: 'text', text: JSON.stringify(info, null, 2) }],
+            };
+          }
+
+          let result = `## 应用包: ${info.bundleName}\n\n`;
+          result += `- 版本: ${info.versionName || '未知'}${info.versionCode !== undefined ? ` (${info.versionCode})` : ''}\n`;
+          if (info.vendor) result += `- 开发者: ${info.vendor}\n`;
+          if (info.installTime) result += `- 安装时间: ${info.installTime}\n`;
+          if (info.updateTime) result += `- 更新时间: ${info.updateTime}\n`;
+          if (info.isSystemApp !== undefined) result += `- 系统应用: ${info.isSystemApp ? '是' : '否'}\n`;
+
+          if (info.modules.length > 0) {
+            result += `\n### 模块 (${info.modules.length})\n\n`;
+            result += '| 模块 | 类型 | 入口 Ability |\n';
+            result += '|------|------|--------------|\n';
+            for (const module of info.modules) {
+              result += `| ${module.name} | ${module.type || '-'} | ${module.mainElement || '-'} |\n`;
+            }
+          }
+
+          if (info.abilities.length > 0) {
+            result += `\n### Abilities (${info.abilities.length})\n\n`;
+            result += '| Ability 名称 | 模块 | 类型 | 可导出 |\n';
+            result += '|-------------|------|------|--------|\n';
+            for (const ability of info.abilities) {
+              const exported = ability.exported === undefined ? '-' : ability.exported ? '是' : '否';
+              result += `| ${ability.name} | ${ability.moduleName || '-'} | ${ability.type || '-'} | ${exported} |\n`;
+            }
+          }
+
+          result += `\n### 权限 (${info.permissions.length})\n\n`;
+          result += info.permissions.length > 0 ? info.permissions.map(p => `- ${p}`).join('\n') + '\n' : '无\n';
 
-        if (bundleName === undefined) {
           return {
-            content: [{ type: 'text', text: '错误：缺少必需参数 bundleName' }],
-            isError: true,
+            content: [{ type: 'text', text: result }],
           };
         }
 
-        const result = await hdc.restartApp(bundleName, abilityName);
+        const filter = args?.filter as string | undefined;
+        const bundles = (await hdc.listBundles()).filter(b => !filter || b.includes(filter));
 
-        if (result.success) {
-          return {
-            content: [{ type: 'text', text: result.message }],
-          };
-        } else {
+        if (format === 'json') {
           return {
-            content: [{ type: 'text', text: result.message }],
-            isError: true,
+            content: [{ type: 'text', text: JSON.stringify(bundles, null, 2) }],
           };
         }
+
+        let result = `## 已安装应用 (${bundles.length} 个)\n\n`;
+        result += bundles.length > 0 ? bundles.map(b => `- ${b}`).join('\n') + '\n' : '未找到匹配的应用\n';
+
+        return {
+          content: [{ type: 'text', text: result }],
+        };
       }
 
       case 'get_app_status': {
@@ -595,11 +2333,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
           if (result.abilities.length > 0) {
             responseText += `### Abilities (${result.abilities.length})\n\n`;
-            responseText += '| Ability 名称 | 状态 |\n';
-            responseText += '|-------------|------|\n';
-            for (const ability of result.abilities) {
-              responseText += `| ${ability.name} | ${ability.state} |\n`;
-            }
+            responseText += formatAbilityTable(result.abilities);
           } else {
             responseText += `未找到该应用的 Ability 实例\n`;
           }
@@ -610,24 +2344,152 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             content: [{ type: 'text', text: responseText }],
           };
         } else {
+          return {
+            content: [{ type: 'text', text: formatFailure(result) }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'start_device_recording': {
+        const outputDir = await workspace.resolveLocal(
+          (args?.outputDir as string) || `recordings/${new Date().toISOString().replace(/[:.]/g, '-')}`
+        );
+
+        hdc.startRecording(outputDir);
+
+        return {
+          content: [{ type: 'text', text: `开始录制设备命令，录制目录: ${outputDir}` }],
+        };
+      }
+
+      case 'stop_device_recording': {
+        const result = await hdc.stopRecording();
+
+        if (!result) {
+          return {
+            content: [{ type: 'text', text: '当前没有进行中的录制' }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: `录制已停止，共 ${result.commandCount} 条命令\n录制目录: ${result.dir}\n回放: HDC_TRANSPORT=replay HDC_CASSETTE_DIR=${result.dir}`,
+          }],
+        };
+      }
+
+      case 'start_log_capture': {
+        const result = await hdc.startLogCapture({
+          bundleName: args?.bundleName as string | undefined,
+          pid: args?.pid as number | undefined,
+          domain: args?.domain as string | undefined,
+          tag: args?.tag as string | undefined,
+          level: parseLevel(args?.level),
+          bufferSize: args?.bufferSize as number | undefined,
+          includeHistory: (args?.includeHistory as boolean) || false,
+        });
+
+        if (result.success) {
           return {
             content: [{ type: 'text', text: result.message }],
+          };
+        } else {
+          return {
+            content: [{ type: 'text', text: formatFailure(result) }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'read_logs': {
+        const logs = hdc.readLogs({
+          pattern: args?.pattern as string | undefined,
+          cursor: args?.cursor as number | undefined,
+          since: args?.since as string | undefined,
+          level: parseLevel(args?.level),
+          tag: args?.tag as string | undefined,
+          limit: args?.limit as number | undefined,
+        });
+
+        if (!logs) {
+          return {
+            content: [{ type: 'text', text: '尚未开始采集日志，请先调用 start_log_capture' }],
             isError: true,
           };
         }
+
+        if (args?.format === 'json') {
+          return {
+            content: [{ type: 'text', text: JSON.stringify(logs, null, 2) }],
+          };
+        }
+
+        let result = `## 日志 (${logs.entries.length} 条${logs.truncated ? `，另有 ${logs.truncated} 条较早的匹配未返回` : ''})\n\n`;
+        result += `状态: ${logs.running ? '采集中' : '已停止'}${logs.error ? `（${logs.error}）` : ''}`;
+        result += `，nextCursor: ${logs.nextCursor}${logs.dropped ? `，缓冲区已丢弃 ${logs.dropped} 条` : ''}\n\n`;
+        if (logs.entries.length > 0) {
+          result += '```\n' + logs.entries.map(e => HilogParser.format(e)).join('\n') + '\n```\n';
+        } else {
+          result += '没有匹配的日志\n';
+        }
+
+        return {
+          content: [{ type: 'text', text: result }],
+        };
+      }
+
+      case 'stop_log_capture': {
+        const result = hdc.stopLogCapture();
+
+        return {
+          content: [{ type: 'text', text: result.message }],
+          isError: !result.success,
+        };
+      }
+
+      case 'push_file': {
+        const result = await new FileTransfer(hdc, workspace).push(
+          args?.localPath as string,
+          args?.remotePath as string
+        );
+
+        return {
+          content: [{ type: 'text', text: formatTransfer(result) }],
+          isError: result.verified === false,
+        };
+      }
+
+      case 'pull_file': {
+        const result = await new FileTransfer(hdc, workspace).pull(
+          args?.remotePath as string,
+          args?.localPath as string | undefined
+        );
+
+        return {
+          content: [{ type: 'text', text: formatTransfer(result) }],
+          isError: result.verified === false,
+        };
       }
 
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
     return {
-      content: [{ type: 'text', text: `错误: ${errorMessage}` }],
+      content: [{ type: 'text', text: formatError(error) }],
       isError: true,
     };
   }
-});
+}
+
+// 注册工具调用处理
+// 请求取消时，通过取消信号终止该请求排队中与执行中的设备命令
+server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+  HDC.withSignal(extra.signal, () => handleToolCall(request))
+);
 
 // 启动服务器
 async function main() {
@@ -639,7 +2501,10 @@ async function main() {
   const shutdown = async (signal: string) => {
     console.error(`\n收到 ${signal} 信号，正在关闭服务器...`);
     try {
-      // 这里可以添加清理逻辑，例如关闭连接等
+      // 取消排队中的命令，结束进行中的录制并关闭常驻 shell 会话
+      for (const { hdc } of devices.values()) {
+        await hdc.close();
+      }
       console.error('服务器已优雅关闭');
       process.exit(0);
     } catch (error) {
@@ -0,0 +1,154 @@
+/**
+ * Ability 实例信息接口
+ */
+export interface AbilityRecord {
+  bundleName: string;
+  abilityName: string;
+  moduleName?: string;
+  /** Ability 生命周期状态（FOREGROUND / BACKGROUND / INITIAL 等） */
+  state: string;
+  /** 应用进程状态 */
+  appState?: string;
+  missionId?: number;
+  recordId?: number;
+  /** 应用进程 ID */
+  pid?: number;
+  /** Ability 类型（PAGE / SERVICE 等） */
+  abilityType?: string;
+  /** 是否位于前台 */
+  isForeground: boolean;
+}
+
+// 视为运行中的 Ability 状态
+const RUNNING_STATES = ['ACTIVE', 'ACTIVATING', 'FOREGROUND', 'FOREGROUNDING', 'BACKGROUND', 'BACKGROUNDING', 'INACTIVE'];
+
+// 视为前台的 Ability 状态
+const FOREGROUND_STATES = ['ACTIVE', 'FOREGROUND'];
+
+// 没有界面的 Ability 类型（ACTIVE 仅表示已连接，不代表位于前台）
+const BACKGROUND_TYPES = ['SERVICE', 'DATA', 'EXTENSION'];
+
+/**
+ * 解析 AbilityManagerService 转储（hidumper -s AbilityManagerService -a -a）输出
+ */
+export class AbilityManagerParser {
+  /**
+   * 解析 Ability 实例列表
+   * 每个 `AbilityRecord ID` 开始一条记录，所属 Mission 取最近一行 `Mission ID`
+   * @param output AbilityManagerService 转储输出（hidumper 的标题行会被忽略）
+   * @returns Ability 实例数组
+   */
+  static parse(output: string): AbilityRecord[] {
+    const records: AbilityRecord[] = [];
+    let mission: { id: number; moduleName?: string } | undefined;
+    let fields: Record<string, string> | undefined;
+
+    const flush = () => {
+      const record = fields && this.toRecord(fields, mission);
+      if (record) records.push(record);
+      fields = undefined;
+    };
+
+    for (const rawLine of output.split('\n')) {
+      const line = rawLine.trim();
+
+      // 示例:
+      // Mission ID #139  mission name #[#com.example.app:entry:EntryAbility]  lockedState #0
+      const missionMatch = line.match(/^Mission ID #(\d+)(?:.*?mission name #\[#?([^\]]*)\])?/);
+      if (missionMatch) {
+        flush();
+        const nameParts = (missionMatch[2] || '').split(':');
+        mission = {
+          id: parseInt(missionMatch[1]),
+          moduleName: nameParts.length >= 3 ? nameParts[1] : undefined,
+        };
+        continue;
+      }
+
+      const recordMatch = line.match(/^AbilityRecord ID #(\d+)/);
+      if (recordMatch) {
+        flush();
+        fields = { recordId: recordMatch[1] };
+        continue;
+      }
+
+      // 离开 Mission 列表（例如进入下一个用户或其他小节）
+      if (/^(User ID|}|.*mission list)/i.test(line) && !line.startsWith('Mission ID')) {
+        flush();
+        mission = undefined;
+        continue;
+      }
+
+      if (!fields) continue;
+
+      // 示例:
+      // bundle name [com.example.app]
+      // state #FOREGROUND  start time [152523]
+      // app state #FOREGROUND
+      // pid #12345
+      for (const match of line.matchAll(/([a-z][a-z ]*?)\s*(?:\[([^\]]*)\]|#(\S+)|:\s*(\S+))/gi)) {
+        const key = match[1].trim().toLowerCase();
+        const value = match[2] ?? match[3] ?? match[4];
+        if (!(key in fields)) {
+          fields[key] = value;
+        }
+      }
+    }
+
+    flush();
+    return records;
+  }
+
+  /**
+   * 将键值对转换为 Ability 实例
+   */
+  private static toRecord(
+    fields: Record<string, string>,
+    mission?: { id: number; moduleName?: string }
+  ): AbilityRecord | null {
+    const bundleName = fields['bundle name'];
+    const abilityName = fields['main name'] || fields['ability name'];
+    if (!bundleName || !abilityName) {
+      return null;
+    }
+
+    const state = (fields.state || 'UNKNOWN').toUpperCase();
+    const abilityType = fields['ability type']?.toUpperCase();
+    const pid = parseInt(fields.pid || fields['app pid']);
+    const recordId = parseInt(fields.recordId);
+
+    return {
+      bundleName,
+      abilityName,
+      moduleName: fields['module name'] || mission?.moduleName,
+      state,
+      appState: fields['app state']?.toUpperCase(),
+      missionId: mission?.id,
+      recordId: isNaN(recordId) ? undefined : recordId,
+      pid: isNaN(pid) ? undefined : pid,
+      abilityType,
+      isForeground: FOREGROUND_STATES.includes(state) && !BACKGROUND_TYPES.includes(abilityType || ''),
+    };
+  }
+
+  /**
+   * 按包名过滤
+   */
+  static filterByBundle(records: AbilityRecord[], bundleName: string): AbilityRecord[] {
+    return records.filter(r => r.bundleName === bundleName);
+  }
+
+  /**
+   * 判断 Ability 是否处于运行状态
+   */
+  static isRunning(record: AbilityRecord): boolean {
+    return RUNNING_STATES.includes(record.state);
+  }
+
+  /**
+   * 获取前台 Ability
+   */
+  static getForeground(records: AbilityRecord[]): AbilityRecord[] {
+    return records.filter(r => r.isForeground);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * 权限授予状态接口
+ */
+export interface PermissionState {
+  name: string;
+  granted: boolean;
+  /** 授权标记（用户授予、系统预授权、策略固定等） */
+  grantFlag?: number;
+}
+
+/**
+ * 应用访问令牌信息接口
+ */
+export interface AccessTokenInfo {
+  tokenId: number;
+  bundleName?: string;
+  userId?: number;
+  permissions: PermissionState[];
+}
+
+// grantStatus 取值：0 为已授予，-1 为未授予
+const PERMISSION_GRANTED = 0;
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * 解析 AccessTokenManager（atm dump）输出
+ */
+export class AccessTokenParser {
+  /**
+   * 解析应用的访问令牌与权限状态
+   * 应用存在多个用户的令牌时输出多个 JSON 对象，只取第一个
+   * @param output `atm dump -t -b <bundle>` 输出（JSON）
+   * @returns 令牌信息，应用未安装或输出无法解析时返回 null
+   */
+  static parse(output: string): AccessTokenInfo | null {
+    const json = this.firstObject(output);
+    if (!json) {
+      return null;
+    }
+
+    let data: JsonObject;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      return null;
+    }
+
+    const tokenId = Number(data.tokenID ?? data.tokenId);
+    if (!tokenId) {
+      return null;
+    }
+
+    const permissions: PermissionState[] = [];
+    const stateList = Array.isArray(data.permStateList) ? (data.permStateList as JsonObject[]) : [];
+
+    for (const state of stateList) {
+      if (!state || typeof state.permissionName !== 'string') continue;
+
+      // 旧版本的授予状态位于 grantConfig 数组中
+      const config = Array.isArray(state.grantConfig) ? (state.grantConfig[0] as JsonObject | undefined) : undefined;
+      const grantStatus = Number(state.grantStatus ?? config?.grantStatus);
+      const grantFlag = Number(state.grantFlag ?? config?.grantFlags);
+
+      permissions.push({
+        name: state.permissionName,
+        granted: grantStatus === PERMISSION_GRANTED,
+        grantFlag: isNaN(grantFlag) ? undefined : grantFlag,
+      });
+    }
+
+    const userId = Number(data.userID ?? data.userId);
+
+    return {
+      tokenId,
+      bundleName: typeof data.bundleName === 'string' ? data.bundleName : undefined,
+      userId: isNaN(userId) ? undefined : userId,
+      permissions: permissions.sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+
+  /**
+   * 截取输出中的第一个完整 JSON 对象
+   */
+  private static firstObject(output: string): string | null {
+    const start = output.indexOf('{');
+    if (start === -1) return null;
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < output.length; i++) {
+      const ch = output[i];
+      if (inString) {
+        if (ch === '\\') i++;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === '{') {
+        depth++;
+      } else if (ch === '}' && --depth === 0) {
+        return output.slice(start, i + 1);
+      }
+    }
+    return null;
+  }
+}
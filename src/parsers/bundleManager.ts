@@ -0,0 +1,241 @@
+/**
+ * Ability 信息接口
+ */
+export interface BundleAbility {
+  name: string;
+  moduleName?: string;
+  /** Ability 类型（page / service 等） */
+  type?: string;
+  /** 是否允许其他应用启动 */
+  exported?: boolean;
+  label?: string;
+  /** 可响应的 Want（skills 中的 actions / entities） */
+  skills: Array<{ actions: string[]; entities: string[] }>;
+}
+
+/**
+ * 应用入口 Ability
+ */
+export interface MainAbility {
+  abilityName: string;
+  moduleName?: string;
+}
+
+// 桌面启动入口的 Want action（新旧两种写法）
+const HOME_ACTIONS = ['ohos.want.action.home', 'action.system.home'];
+
+/**
+ * 模块信息接口
+ */
+export interface BundleModule {
+  name: string;
+  /** 模块类型（entry / feature / shared） */
+  type?: string;
+  /** 模块入口 Ability */
+  mainElement?: string;
+}
+
+/**
+ * 应用包信息接口
+ */
+export interface BundleInfo {
+  bundleName: string;
+  versionName?: string;
+  versionCode?: number;
+  vendor?: string;
+  /** 安装时间（ISO 8601） */
+  installTime?: string;
+  /** 更新时间（ISO 8601） */
+  updateTime?: string;
+  /** 是否为系统应用 */
+  isSystemApp?: boolean;
+  modules: BundleModule[];
+  abilities: BundleAbility[];
+  /** 申请的权限 */
+  permissions: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * 解析 BundleManager（bm dump）输出
+ */
+export class BundleManagerParser {
+  /**
+   * 解析已安装应用列表
+   * @param output `bm dump -a` 输出
+   * @returns 包名数组（按字母排序、去重）
+   */
+  static parseList(output: string): string[] {
+    const bundles = new Set<string>();
+
+    for (const rawLine of output.split('\n')) {
+      // 示例:
+      // ID: 100:
+      // 	com.example.app
+      const line = rawLine.trim();
+      if (!line || /^ID:/i.test(line)) continue;
+
+      if (/^[a-zA-Z][\w]*(\.[\w]+)+$/.test(line)) {
+        bundles.add(line);
+      }
+    }
+
+    return [...bundles].sort();
+  }
+
+  /**
+   * 解析应用包详情
+   * `bm dump -n <bundle>` 首行为 `<bundle>:`，其后为 JSON
+   * @param output bm dump -n 输出
+   * @returns 应用包信息，应用未安装或输出无法解析时返回 null
+   */
+  static parseInfo(output: string): BundleInfo | null {
+    const start = output.indexOf('{');
+    const end = output.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      return null;
+    }
+
+    let data: JsonObject;
+    try {
+      data = JSON.parse(output.slice(start, end + 1));
+    } catch {
+      return null;
+    }
+
+    const app = this.object(data.applicationInfo);
+    const bundleName = this.string(data.name) || this.string(app.bundleName) || output.split('\n', 1)[0].replace(/:\s*$/, '').trim();
+    if (!bundleName) {
+      return null;
+    }
+
+    const hapModules = this.array(data.hapModuleInfos).map(m => this.object(m));
+
+    const modules: BundleModule[] = hapModules
+      .map(m => ({
+        name: this.string(m.moduleName) || this.string(m.name) || '',
+        type: this.moduleType(m.moduleType),
+        mainElement: this.string(m.mainElementName) || this.string(m.mainAbility),
+      }))
+      .filter(m => m.name);
+
+    // 新版本 abilityInfos 位于 hapModuleInfos 内，旧版本位于顶层
+    const abilityInfos = [
+      ...hapModules.flatMap(m => this.array(m.abilityInfos)),
+      ...this.array(data.abilityInfos),
+    ].map(a => this.object(a));
+
+    const abilities: BundleAbility[] = [];
+    for (const ability of abilityInfos) {
+      const name = this.string(ability.name);
+      if (!name || abilities.some(a => a.name === name && a.moduleName === this.string(ability.moduleName))) {
+        continue;
+      }
+      abilities.push({
+        name,
+        moduleName: this.string(ability.moduleName),
+        type: this.abilityType(ability.type),
+        exported: typeof ability.visible === 'boolean' ? ability.visible : undefined,
+        label: this.string(ability.label),
+        skills: this.array(ability.skills).map(skill => {
+          const item = this.object(skill);
+          return {
+            actions: this.array(item.actions).filter((a): a is string => typeof a === 'string'),
+            entities: this.array(item.entities).filter((e): e is string => typeof e === 'string'),
+          };
+        }),
+      });
+    }
+
+    const permissions = [
+      ...this.array(data.reqPermissions),
+      ...this.array(app.permissions),
+    ].filter((p): p is string => typeof p === 'string');
+
+    return {
+      bundleName,
+      versionName: this.string(data.versionName) || this.string(app.versionName),
+      versionCode: this.number(data.versionCode) ?? this.number(app.versionCode),
+      vendor: this.string(data.vendor) || this.string(app.vendor),
+      installTime: this.time(data.installTime),
+      updateTime: this.time(data.updateTime),
+      isSystemApp: typeof app.isSystemApp === 'boolean' ? app.isSystemApp : undefined,
+      modules,
+      abilities,
+      permissions: [...new Set(permissions)],
+    };
+  }
+
+  /**
+   * 查找应用的桌面启动入口 Ability
+   * 依次选择：entry 模块中声明 home action 的 Ability、任意模块中声明 home action 的 Ability、
+   * entry 模块的 mainElement、entry 模块中的第一个 page 类型 Ability
+   * @param info 应用包信息
+   * @returns 入口 Ability，无法确定时返回 null
+   */
+  static getMainAbility(info: BundleInfo): MainAbility | null {
+    const entryModule = info.modules.find(m => m.type === 'entry');
+    const isHome = (ability: BundleAbility) =>
+      ability.skills.some(skill => skill.actions.some(action => HOME_ACTIONS.includes(action)));
+
+    const launcher =
+      info.abilities.find(a => isHome(a) && (!entryModule || a.moduleName === entryModule.name)) ||
+      info.abilities.find(isHome);
+    if (launcher) {
+      return { abilityName: launcher.name, moduleName: launcher.moduleName };
+    }
+
+    if (entryModule?.mainElement) {
+      return { abilityName: entryModule.mainElement, moduleName: entryModule.name };
+    }
+
+    const page = info.abilities.find(
+      a => (!entryModule || a.moduleName === entryModule.name) && (!a.type || a.type === 'page')
+    );
+    return page ? { abilityName: page.name, moduleName: page.moduleName } : null;
+  }
+
+  /**
+   * 模块类型：新版本为字符串，旧版本为枚举值
+   */
+  private static moduleType(value: unknown): string | undefined {
+    const types = ['unknown', 'entry', 'feature', 'shared'];
+    if (typeof value === 'number') return types[value];
+    return this.string(value)?.toLowerCase();
+  }
+
+  /**
+   * Ability 类型：新版本为字符串，旧版本为枚举值
+   */
+  private static abilityType(value: unknown): string | undefined {
+    const types = ['unknown', 'page', 'service', 'data', 'form', 'extension'];
+    if (typeof value === 'number') return types[value];
+    return this.string(value)?.toLowerCase();
+  }
+
+  /**
+   * 毫秒时间戳转换为 ISO 时间
+   */
+  private static time(value: unknown): string | undefined {
+    const ms = this.number(value);
+    return ms ? new Date(ms).toISOString() : undefined;
+  }
+
+  private static object(value: unknown): JsonObject {
+    return value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonObject) : {};
+  }
+
+  private static array(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+  }
+
+  private static string(value: unknown): string | undefined {
+    return typeof value === 'string' && value ? value : undefined;
+  }
+
+  private static number(value: unknown): number | undefined {
+    const num = typeof value === 'string' ? Number(value) : value;
+    return typeof num === 'number' && !isNaN(num) ? num : undefined;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * 显示屏信息接口
+ */
+export interface DisplayInfo {
+  id: number;
+  name?: string;
+  width: number;
+  height: number;
+  /** 虚拟像素比（vp 到 px 的缩放系数） */
+  density?: number;
+  dpi?: number;
+  /** 旋转方向：0/1/2/3 分别对应 0°/90°/180°/270° */
+  rotation: number;
+  refreshRate?: number;
+}
+
+/**
+ * 设备信息接口
+ */
+export interface DeviceInfo {
+  serial: string;
+  model?: string;
+  brand?: string;
+  marketName?: string;
+  osVersion?: string;
+  softwareVersion?: string;
+  apiLevel?: number;
+  displays: DisplayInfo[];
+  /** 主显示屏分辨率（displays 中 id 最小者） */
+  screen?: DisplayInfo;
+}
+
+/**
+ * 设备参数键
+ */
+export const DEVICE_PARAM_KEYS = {
+  model: 'const.product.model',
+  brand: 'const.product.brand',
+  marketName: 'const.product.name',
+  osVersion: 'const.ohos.fullname',
+  softwareVersion: 'const.product.software.version',
+  apiLevel: 'const.ohos.apiversion',
+} as const;
+
+/**
+ * 解析 DisplayManagerService 与 param get 输出
+ */
+export class DisplayManagerParser {
+  /**
+   * 解析显示屏列表
+   * 兼容不同系统版本的 `hidumper -s DisplayManagerService -a -a` 输出，
+   * 按 `Key : Value` 形式逐行读取，遇到新的显示 ID 时开始新的显示屏
+   * @param output hidumper 输出
+   * @returns 显示屏信息数组（按 id 排序，去除无尺寸的条目）
+   */
+  static parse(output: string): DisplayInfo[] {
+    const blocks: Array<Record<string, string>> = [];
+    let current: Record<string, string> | null = null;
+
+    for (const rawLine of output.split('\n')) {
+      // 示例行:
+      // DisplayId              : 0
+      // Bounds<L,T,W,H>        : 0, 0, 1260, 2720
+      // 值为空的行（如 `Name : `）跳过
+      const match = rawLine.match(/^\s*([A-Za-z][\w<>,. ]*?)\s*[:=]\s*(\S.*?)\s*$/);
+      if (!match) continue;
+
+      const key = match[1].replace(/\s+/g, '').toLowerCase();
+      const value = match[2];
+
+      if (key === 'displayid' || key === 'id') {
+        // 同一个 ID 可能在多个小节中重复出现
+        const existing = blocks.find(b => b.id === value);
+        current = existing || { id: value };
+        if (!existing) blocks.push(current);
+        continue;
+      }
+
+      if (current && !(key in current)) {
+        current[key] = value;
+      }
+    }
+
+    const displays: DisplayInfo[] = [];
+    for (const block of blocks) {
+      const display = this.toDisplayInfo(block);
+      if (display) {
+        displays.push(display);
+      }
+    }
+
+    return displays.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * 将键值对转换为显示屏信息
+   */
+  private static toDisplayInfo(block: Record<string, string>): DisplayInfo | null {
+    const id = parseInt(block.id);
+    if (isNaN(id)) return null;
+
+    let width = parseInt(block.width);
+    let height = parseInt(block.height);
+
+    // 新版本只输出 Bounds<L,T,W,H>
+    const bounds = block['bounds<l,t,w,h>'] || block.bounds;
+    if ((!width || !height) && bounds) {
+      const numbers = bounds.match(/-?\d+(\.\d+)?/g) || [];
+      if (numbers.length >= 4) {
+        width = Math.round(parseFloat(numbers[2]));
+        height = Math.round(parseFloat(numbers[3]));
+      }
+    }
+
+    if (!width || !height) return null;
+
+    const density = parseFloat(block.virtualpixelratio || block.density);
+    const dpi = parseInt(block.dpi || block.densitydpi);
+    const refreshRate = parseInt(block.refreshrate);
+
+    return {
+      id,
+      name: block.name,
+      width,
+      height,
+      density: isNaN(density) ? undefined : density,
+      dpi: isNaN(dpi) ? undefined : dpi,
+      rotation: parseInt(block.rotation) || 0,
+      refreshRate: isNaN(refreshRate) ? undefined : refreshRate,
+    };
+  }
+
+  /**
+   * 解析多条 param get 的输出
+   * 每条 param get 输出一行，失败时输出 `Get parameter "xxx" fail!`
+   * @param output 按顺序执行 param get 的输出
+   * @param keys 参数键（与输出行一一对应）
+   * @returns 参数键值表（失败的参数不包含在内）
+   */
+  static parseParams(output: string, keys: string[]): Record<string, string> {
+    const lines = output.split('\n').map(l => l.trim());
+    const params: Record<string, string> = {};
+
+    keys.forEach((key, index) => {
+      const value = lines[index];
+      if (value && !/^Get parameter .* fail/i.test(value)) {
+        params[key] = value;
+      }
+    });
+
+    return params;
+  }
+
+  /**
+   * 组合设备信息
+   * @param serial 设备序列号
+   * @param params param get 解析结果
+   * @param displays 显示屏列表
+   */
+  static toDeviceInfo(serial: string, params: Record<string, string>, displays: DisplayInfo[]): DeviceInfo {
+    const apiLevel = parseInt(params[DEVICE_PARAM_KEYS.apiLevel]);
+
+    return {
+      serial,
+      model: params[DEVICE_PARAM_KEYS.model],
+      brand: params[DEVICE_PARAM_KEYS.brand],
+      marketName: params[DEVICE_PARAM_KEYS.marketName],
+      osVersion: params[DEVICE_PARAM_KEYS.osVersion],
+      softwareVersion: params[DEVICE_PARAM_KEYS.softwareVersion],
+      apiLevel: isNaN(apiLevel) ? undefined : apiLevel,
+      displays,
+      screen: displays[0],
+    };
+  }
+}
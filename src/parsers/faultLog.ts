@@ -0,0 +1,145 @@
+/**
+ * 故障日志类型
+ * jscrash: JS/ArkTS 异常，cppcrash: Native 崩溃，appfreeze: 应用无响应
+ */
+export type FaultLogType = 'jscrash' | 'cppcrash' | 'appfreeze';
+
+export const FAULT_LOG_TYPES: FaultLogType[] = ['jscrash', 'cppcrash', 'appfreeze'];
+
+/**
+ * 故障日志文件信息（由文件名解析）
+ */
+export interface FaultLogFile {
+  fileName: string;
+  type: FaultLogType;
+  bundleName: string;
+  uid?: number;
+  /** 发生时间（设备本地时间，YYYY-MM-DD HH:mm:ss） */
+  time: string;
+}
+
+/**
+ * 故障日志详情
+ */
+export interface FaultLog extends FaultLogFile {
+  pid?: number;
+  /** 故障原因（如 TypeError、Signal:SIGSEGV、THREAD_BLOCK_6S） */
+  reason?: string;
+  /** JS 异常的错误名称与信息 */
+  errorName?: string;
+  errorMessage?: string;
+  /** 崩溃时应用是否位于前台 */
+  foreground?: boolean;
+  /** 日志中的精确时间戳 */
+  timestamp?: string;
+  /** 调用栈摘要（前几帧） */
+  stack: string[];
+  /** 完整日志内容 */
+  content: string;
+}
+
+// 调用栈摘要保留的帧数
+const STACK_SUMMARY_FRAMES = 5;
+
+/**
+ * 解析 faultlogger 故障日志
+ */
+export class FaultLogParser {
+  /**
+   * 解析故障日志文件名
+   * @param fileName 文件名，如 `jscrash-com.example.app-20020022-20241019140325123.log`
+   * @returns 文件信息，不是应用故障日志时返回 null
+   */
+  static parseFileName(fileName: string): FaultLogFile | null {
+    const match = fileName
+      .trim()
+      .match(/^(jscrash|cppcrash|appfreeze)-([a-zA-Z0-9._]+?)-(\d+)-(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\d*\.log$/);
+    if (!match) {
+      return null;
+    }
+
+    const [, type, bundleName, uid, year, month, day, hour, minute, second] = match;
+    return {
+      fileName: fileName.trim(),
+      type: type as FaultLogType,
+      bundleName,
+      uid: parseInt(uid),
+      time: `${year}-${month}-${day} ${hour}:${minute}:${second}`,
+    };
+  }
+
+  /**
+   * 解析故障日志目录列表
+   * @param output `ls` 输出（每行一个文件名）
+   * @returns 故障日志文件数组（按时间从新到旧排序）
+   */
+  static parseList(output: string): FaultLogFile[] {
+    return output
+      .split('\n')
+      .map(line => this.parseFileName(line))
+      .filter((file): file is FaultLogFile => file !== null)
+      .sort((a, b) => b.time.localeCompare(a.time) || b.fileName.localeCompare(a.fileName));
+  }
+
+  /**
+   * 解析故障日志内容
+   * 头部为 `Key:Value` 格式的字段，其后为调用栈
+   * @param content 日志内容
+   * @param file 文件信息
+   * @returns 故障日志详情
+   */
+  static parse(content: string, file: FaultLogFile): FaultLog {
+    // 示例:
+    // Timestamp:2024-10-19 14:03:25.123
+    // Pid:12345
+    // Reason:TypeError
+    // Error message:Cannot read property 'x' of undefined
+    // Stacktrace:
+    //     at onClick (entry/src/main/ets/pages/Index.ets:20:7)
+    const fields: Record<string, string> = {};
+    const stack: string[] = [];
+
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.replace(/\r$/, '');
+      const trimmed = line.trim();
+
+      // JS 调用栈为 `at ...`，Native 调用栈为 `#00 pc ...`
+      if (/^(at\s|#\d+\s)/.test(trimmed)) {
+        if (stack.length < STACK_SUMMARY_FRAMES) stack.push(trimmed);
+        continue;
+      }
+
+      const field = line.match(/^([A-Za-z][A-Za-z ]*?)\s*:\s*(.*)$/);
+      if (field && stack.length === 0) {
+        const key = field[1].toLowerCase();
+        if (!(key in fields) && field[2]) {
+          fields[key] = field[2].trim();
+        }
+      }
+    }
+
+    const pid = parseInt(fields.pid);
+    const foreground = fields.foreground?.toLowerCase();
+
+    return {
+      ...file,
+      pid: isNaN(pid) ? undefined : pid,
+      reason: fields.reason,
+      errorName: fields['error name'],
+      errorMessage: fields['error message'],
+      foreground: foreground === 'yes' ? true : foreground === 'no' ? false : undefined,
+      timestamp: fields.timestamp,
+      stack,
+      content,
+    };
+  }
+
+  /**
+   * 生成单行摘要
+   */
+  static summarize(log: FaultLog): string {
+    const reason = [log.reason, log.errorMessage].filter(Boolean).join(': ') || 'unknown reason';
+    const frame = log.stack[0] ? ` @ ${log.stack[0]}` : '';
+    return `${log.type} ${log.time}${log.pid ? ` (pid ${log.pid})` : ''}: ${reason}${frame}`;
+  }
+}
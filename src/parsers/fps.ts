@@ -0,0 +1,133 @@
+import { summarize, SeriesSummary } from '../utils/statistics.js';
+
+/**
+ * RenderService 帧记录
+ */
+export interface FpsRecords {
+  /** 屏幕刷新率（输出中包含时） */
+  refreshRate?: number;
+  /** 帧呈现时间戳（纳秒，升序） */
+  timestamps: bigint[];
+}
+
+/**
+ * 帧率测量结果
+ */
+export interface FpsReport {
+  surface: string;
+  /** 测量期间渲染的帧数 */
+  frames: number;
+  /** 首帧到末帧的时间跨度（毫秒） */
+  durationMs: number;
+  /** 渲染期间的平均帧率 */
+  avgFps: number;
+  refreshRate: number;
+  /** 按刷新率计算的单帧预期耗时（毫秒） */
+  expectedFrameMs: number;
+  /** 按帧间隔推算的丢帧数 */
+  droppedFrames: number;
+  /** 帧间隔超过预期 1.5 倍的帧数 */
+  jankFrames: number;
+  /** 帧间隔统计（毫秒） */
+  frameTime: SeriesSummary | null;
+  /** 最长的帧间隔（毫秒，降序） */
+  worstFrames: number[];
+  /** 帧记录缓冲区已覆盖测量开始前的记录，可能遗漏了部分帧 */
+  truncated: boolean;
+}
+
+// 未能从输出中获取刷新率时使用的默认值
+const DEFAULT_REFRESH_RATE = 60;
+// 帧间隔超过预期的倍数视为卡顿
+const JANK_THRESHOLD = 1.5;
+// 返回的最长帧间隔个数
+const WORST_FRAME_COUNT = 5;
+
+/**
+ * 解析 RenderService fps 输出并计算帧率指标
+ */
+export class FpsParser {
+  /**
+   * 解析帧记录
+   * @param output `hidumper -s RenderService -a "fps <surface>"` 输出
+   * @returns 帧记录（时间戳已去重、升序排列）
+   */
+  static parse(output: string): FpsRecords {
+    // 示例:
+    // The fps of surface [Name:rnsurface0, Id:...] is:
+    // 60
+    // 1702012345678901234
+    // 1702012345695567890
+    let refreshRate: number | undefined;
+    const timestamps = new Set<bigint>();
+
+    for (const rawLine of output.split('\n')) {
+      const line = rawLine.trim();
+      if (!/^\d+$/.test(line)) continue;
+
+      if (line.length >= 10) {
+        const timestamp = BigInt(line);
+        if (timestamp > 0n) timestamps.add(timestamp);
+      } else if (refreshRate === undefined && timestamps.size === 0) {
+        const rate = parseInt(line);
+        if (rate > 0 && rate <= 240) refreshRate = rate;
+      }
+    }
+
+    return {
+      refreshRate,
+      timestamps: [...timestamps].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)),
+    };
+  }
+
+  /**
+   * 计算测量期间的帧率指标
+   * 只统计晚于 baseline 末帧的帧；baseline 末帧已不在 after 中说明缓冲区被覆盖
+   * @param surface 图层名称
+   * @param baseline 测量开始前的帧记录
+   * @param after 测量结束后的帧记录
+   * @param refreshRate 屏幕刷新率，默认取输出中的值或 60
+   * @returns 帧率指标
+   */
+  static analyze(surface: string, baseline: FpsRecords, after: FpsRecords, refreshRate?: number): FpsReport {
+    const last = baseline.timestamps[baseline.timestamps.length - 1];
+    const frames = last === undefined ? after.timestamps : after.timestamps.filter(t => t > last);
+    const truncated = last !== undefined && frames.length > 0 && !after.timestamps.some(t => t <= last);
+
+    const rate = refreshRate || after.refreshRate || baseline.refreshRate || DEFAULT_REFRESH_RATE;
+    const expectedFrameMs = 1000 / rate;
+
+    // 第一帧与测量前最后一帧的间隔包含了测量前的空闲时间，不计入
+    const intervals: number[] = [];
+    for (let i = 1; i < frames.length; i++) {
+      intervals.push(Number(frames[i] - frames[i - 1]) / 1e6);
+    }
+
+    const durationMs = frames.length > 1 ? Number(frames[frames.length - 1] - frames[0]) / 1e6 : 0;
+    const droppedFrames = intervals.reduce(
+      (total, interval) => total + Math.max(0, Math.round(interval / expectedFrameMs) - 1),
+      0
+    );
+
+    return {
+      surface,
+      frames: frames.length,
+      durationMs: this.round(durationMs),
+      avgFps: durationMs > 0 ? this.round((intervals.length * 1000) / durationMs) : 0,
+      refreshRate: rate,
+      expectedFrameMs: this.round(expectedFrameMs),
+      droppedFrames,
+      jankFrames: intervals.filter(interval => interval > expectedFrameMs * JANK_THRESHOLD).length,
+      frameTime: summarize(intervals.map(interval => this.round(interval))),
+      worstFrames: [...intervals]
+        .sort((a, b) => b - a)
+        .slice(0, WORST_FRAME_COUNT)
+        .map(interval => this.round(interval)),
+      truncated,
+    };
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * hilog 日志级别
+ * D: DEBUG, I: INFO, W: WARN, E: ERROR, F: FATAL
+ */
+export type HilogLevel = 'D' | 'I' | 'W' | 'E' | 'F';
+
+/**
+ * hilog 日志条目接口
+ */
+export interface HilogEntry {
+  /** 设备时间（MM-DD HH:mm:ss.SSS） */
+  time: string;
+  pid: number;
+  tid: number;
+  level: HilogLevel;
+  /** 日志领域（如 A00001、C01406） */
+  domain: string;
+  tag: string;
+  message: string;
+}
+
+const LEVEL_ORDER: Record<HilogLevel, number> = { D: 0, I: 1, W: 2, E: 3, F: 4 };
+
+// 日志级别全称
+const LEVEL_NAMES: Record<string, HilogLevel> = { DEBUG: 'D', INFO: 'I', WARN: 'W', ERROR: 'E', FATAL: 'F' };
+
+/**
+ * 解析 hilog 输出
+ */
+export class HilogParser {
+  /**
+   * 解析单行日志
+   * @param line hilog 输出行
+   * @returns 日志条目，非日志行（如缓冲区提示）返回 null
+   */
+  static parseLine(line: string): HilogEntry | null {
+    // 示例行:
+    // 10-19 14:03:25.123  1234  1240 I A00001/MyApp: onPageShow
+    const match = line.replace(/\r$/, '').match(
+      /^(\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{3})\s+(\d+)\s+(\d+)\s+([DIWEF])\s+([A-Za-z0-9]+)\/(.*?):\s?(.*)$/
+    );
+    if (!match) {
+      return null;
+    }
+
+    return {
+      time: match[1],
+      pid: parseInt(match[2]),
+      tid: parseInt(match[3]),
+      level: match[4] as HilogLevel,
+      domain: match[5],
+      tag: match[6].trim(),
+      message: match[7],
+    };
+  }
+
+  /**
+   * 解析多行日志
+   * @param output hilog 输出
+   * @returns 日志条目数组
+   */
+  static parse(output: string): HilogEntry[] {
+    const entries: HilogEntry[] = [];
+    for (const line of output.split('\n')) {
+      const entry = this.parseLine(line);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * 判断日志级别是否不低于指定级别
+   */
+  static isAtLeast(level: HilogLevel, minLevel: HilogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[minLevel];
+  }
+
+  /**
+   * 构造 hilog 设备端过滤参数
+   * hilog -L 接受逗号分隔的级别列表，最低级别转换为不低于它的所有级别
+   * @param filter 进程 ID、标签与最低级别
+   * @returns hilog 参数，例如 ['-P', '1234,5678', '-T', 'MyApp', '-L', 'W,E,F']
+   */
+  static filterArgs(filter: { pids?: number[]; tag?: string; level?: HilogLevel }): string[] {
+    if (filter.level !== undefined && !Object.hasOwn(LEVEL_ORDER, filter.level)) {
+      throw new Error(`无效的日志级别: ${filter.level}`);
+    }
+
+    const args: string[] = [];
+    if (filter.pids && filter.pids.length > 0) {
+      args.push('-P', filter.pids.join(','));
+    }
+    if (filter.tag) {
+      args.push('-T', filter.tag);
+    }
+    if (filter.level && filter.level !== 'D') {
+      const minLevel = filter.level;
+      args.push('-L', (Object.keys(LEVEL_ORDER) as HilogLevel[]).filter(l => this.isAtLeast(l, minLevel)).join(','));
+    }
+    return args;
+  }
+
+  /**
+   * 验证并规范化日志级别（接受 D/I/W/E/F 或 DEBUG/INFO/WARN/ERROR/FATAL，不区分大小写）
+   * @returns 规范化后的级别，无效时返回 null
+   */
+  static normalizeLevel(level: string): HilogLevel | null {
+    const value = level.trim().toUpperCase();
+    if (Object.hasOwn(LEVEL_ORDER, value)) {
+      return value as HilogLevel;
+    }
+    return Object.hasOwn(LEVEL_NAMES, value) ? LEVEL_NAMES[value] : null;
+  }
+
+  /**
+   * 格式化为 hilog 原始行格式
+   */
+  static format(entry: HilogEntry): string {
+    return `${entry.time} ${entry.pid} ${entry.tid} ${entry.level} ${entry.domain}/${entry.tag}: ${entry.message}`;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * 进程 CPU 占用接口
+ */
+export interface CpuUsage {
+  pid: number;
+  name?: string;
+  /** 进程 CPU 占用率（%） */
+  total: number;
+  /** 用户态占用率（%） */
+  user?: number;
+  /** 内核态占用率（%） */
+  kernel?: number;
+  /** 整机 CPU 占用率（%） */
+  systemTotal?: number;
+}
+
+/**
+ * 进程内存占用接口（单位 kB）
+ */
+export interface MemoryUsage {
+  pid: number;
+  pss: number;
+  rss?: number;
+  privateDirty?: number;
+  swapPss?: number;
+  heapSize?: number;
+  heapAlloc?: number;
+}
+
+/**
+ * 解析 hidumper --cpuusage / --mem 输出
+ */
+export class ProcessStatsParser {
+  /**
+   * 解析进程 CPU 占用
+   * @param output `hidumper --cpuusage <pid>` 输出
+   * @param pid 进程 ID
+   * @returns CPU 占用，输出中没有该进程时返回 null
+   */
+  static parseCpuUsage(output: string, pid: number): CpuUsage | null {
+    // 示例:
+    // Total: 25.30%; User Space: 15.20%; Kernel Space: 10.10%; iowait: 0.00%; irq: 0.00%; idle: 74.70%
+    // Details of Processes:
+    //     PID   Total Usage	   User Space    Kernel Space    Page Fault Minor    Page Fault Major    Name
+    //     12345   5.20%          3.10%          2.10%          10000               10                  com.example.app
+    const systemMatch = output.match(/^\s*Total:\s*([\d.]+)%/m);
+
+    for (const rawLine of output.split('\n')) {
+      const parts = rawLine.trim().split(/\s+/);
+      if (parts.length < 2 || parseInt(parts[0]) !== pid || !/^[\d.]+%$/.test(parts[1])) {
+        continue;
+      }
+
+      const percent = (value?: string) => (value && /^[\d.]+%$/.test(value) ? parseFloat(value) : undefined);
+      const name = parts.length > 4 && !/^[\d.]+%?$/.test(parts[parts.length - 1]) ? parts[parts.length - 1] : undefined;
+
+      return {
+        pid,
+        name,
+        total: parseFloat(parts[1]),
+        user: percent(parts[2]),
+        kernel: percent(parts[3]),
+        systemTotal: systemMatch ? parseFloat(systemMatch[1]) : undefined,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * 解析进程内存占用
+   * 表头为两行列名（如 `Pss` / `Total`），按列合并后与 `Total` 行的数值对应
+   * @param output `hidumper --mem <pid>` 输出
+   * @param pid 进程 ID
+   * @returns 内存占用，无法解析时返回 null
+   */
+  static parseMemory(output: string, pid: number): MemoryUsage | null {
+    // 示例:
+    //                  Pss      Shared    Shared   Private   Private      Swap   SwapPss      Heap      Heap      Heap
+    //                Total       Clean     Dirty     Clean     Dirty     Total     Total      Size     Alloc      Free
+    //               ( kB )      ( kB )    ( kB )    ( kB )    ( kB )    ( kB )    ( kB )    ( kB )    ( kB )    ( kB )
+    //                 ...
+    //             Total      123456       ...
+    const lines = output.split('\n');
+    const headerIndex = lines.findIndex(line => /^\s*Pss\s/.test(line));
+    if (headerIndex === -1 || headerIndex + 1 >= lines.length) {
+      return null;
+    }
+
+    const first = lines[headerIndex].trim().split(/\s+/);
+    const second = lines[headerIndex + 1].trim().split(/\s+/);
+    const columns = first.map((name, i) => `${name} ${second[i] || ''}`.trim().toLowerCase());
+
+    const totalLine = lines.slice(headerIndex + 2).find(line => /^\s*Total\s+\d/.test(line));
+    if (!totalLine) {
+      return null;
+    }
+
+    const values = totalLine.trim().split(/\s+/).slice(1).map(v => parseInt(v));
+    const column = (name: string) => {
+      const value = values[columns.indexOf(name)];
+      return value === undefined || isNaN(value) ? undefined : value;
+    };
+
+    const pss = column('pss total');
+    if (pss === undefined) {
+      return null;
+    }
+
+    return {
+      pid,
+      pss,
+      rss: column('rss total'),
+      privateDirty: column('private dirty'),
+      swapPss: column('swappss total'),
+      heapSize: column('heap size'),
+      heapAlloc: column('heap alloc'),
+    };
+  }
+
+  /**
+   * 解析 /proc/<pid>/status 中的 VmRSS（kB）
+   * @param output `cat /proc/<pid>/status` 输出
+   * @returns RSS，无法解析时返回 undefined
+   */
+  static parseRss(output: string): number | undefined {
+    const match = output.match(/^VmRSS:\s*(\d+)\s*kB/m);
+    return match ? parseInt(match[1]) : undefined;
+  }
+}
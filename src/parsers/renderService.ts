@@ -144,6 +144,20 @@ export class RenderServiceParser {
       node.properties.modifiers = modifiers;
     }
 
+    // 提取数值形式的 Bounds（如 Bounds[0.0, 120.0, 1316.0, 96.0]，依次为 x, y, width, height）
+    const boundsMatch = line.match(/Bounds\[\s*(-?[\d.]+)[,\s]+(-?[\d.]+)[,\s]+(-?[\d.]+)[,\s]+(-?[\d.]+)\s*\]/);
+    if (boundsMatch) {
+      node.properties.modifiers = {
+        ...node.properties.modifiers,
+        boundsData: {
+          x: Math.round(parseFloat(boundsMatch[1])),
+          y: Math.round(parseFloat(boundsMatch[2])),
+          width: Math.round(parseFloat(boundsMatch[3])),
+          height: Math.round(parseFloat(boundsMatch[4])),
+        },
+      };
+    }
+
     return node;
   }
 
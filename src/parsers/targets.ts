@@ -0,0 +1,49 @@
+/**
+ * 设备信息接口
+ */
+export interface DeviceTarget {
+  serial: string;
+  connectType: string;
+  state: string;
+}
+
+/**
+ * 解析 hdc list targets 输出
+ */
+export class TargetsParser {
+  /**
+   * 解析设备列表输出
+   * 兼容 `hdc list targets` 与 `hdc list targets -v` 两种格式
+   * @param output hdc list targets 输出
+   * @returns 设备信息数组
+   */
+  static parse(output: string): DeviceTarget[] {
+    const targets: DeviceTarget[] = [];
+
+    for (const rawLine of output.split('\n')) {
+      const line = rawLine.trim();
+      // 没有设备时 hdc 输出 [Empty]
+      if (!line || line.startsWith('[Empty]')) {
+        continue;
+      }
+
+      // 示例行（-v）:
+      // FMR0223C13000649    USB    Connected    localhost    hdc
+      const parts = line.split(/\s+/);
+      targets.push({
+        serial: parts[0],
+        connectType: parts[1] || 'unknown',
+        state: parts[2] || 'Connected',
+      });
+    }
+
+    return targets;
+  }
+
+  /**
+   * 获取在线设备
+   */
+  static getConnected(targets: DeviceTarget[]): DeviceTarget[] {
+    return targets.filter(t => t.state.toLowerCase() === 'connected');
+  }
+}
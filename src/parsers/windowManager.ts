@@ -19,6 +19,18 @@ export interface WindowInfo {
   };
 }
 
+/**
+ * 窗口类别
+ * rnsurface: RN 渲染窗口，floating: 悬浮/画中画窗口，system: 系统窗口，sub: 应用子窗口，app: 应用主窗口
+ */
+export type WindowCategory = 'rnsurface' | 'floating' | 'system' | 'sub' | 'app';
+
+// 窗口类型分段（WindowType）：1000 起为应用子窗口，2000 起为系统窗口
+const APP_SUB_WINDOW_BASE = 1000;
+const SYSTEM_WINDOW_BASE = 2000;
+// 窗口模式（WindowMode）：102 悬浮，103 画中画
+const FLOATING_WINDOW_MODES = [102, 103];
+
 /**
  * 解析 WindowManagerService 输出
  */
@@ -118,4 +130,22 @@ export class WindowManagerParser {
   static getVisibleWindows(windows: WindowInfo[]): WindowInfo[] {
     return windows.filter(w => w.mode === 1);
   }
+
+  /**
+   * 获取窗口类别
+   */
+  static getCategory(window: WindowInfo): WindowCategory {
+    if (window.name.startsWith('rnsurface')) return 'rnsurface';
+    if (FLOATING_WINDOW_MODES.includes(window.mode)) return 'floating';
+    if (window.type >= SYSTEM_WINDOW_BASE) return 'system';
+    if (window.type >= APP_SUB_WINDOW_BASE) return 'sub';
+    return 'app';
+  }
+
+  /**
+   * 获取最上层窗口（zOrder 最大）
+   */
+  static getTopWindow(windows: WindowInfo[]): WindowInfo | null {
+    return windows.reduce<WindowInfo | null>((top, w) => (!top || w.zOrder > top.zOrder ? w : top), null);
+  }
 }
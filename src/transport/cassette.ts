@@ -0,0 +1,115 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+
+/** 回放数据索引文件名 */
+export const CASSETTE_INDEX_FILE = 'commands.jsonl';
+
+/**
+ * 回放数据条目
+ * commands.jsonl 中每行一条
+ */
+export interface CassetteEntry {
+  /** hdc 参数（不含 -t） */
+  args: string[];
+  /** 目标设备序列号 */
+  target?: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  /** 命令耗时（毫秒） */
+  durationMs?: number;
+  /** 执行时间（ISO 字符串） */
+  timestamp?: string;
+  /** file recv 拉取的文件在回放目录中的相对路径 */
+  artifact?: string;
+  /** 命令无法执行（如超时）时的错误信息，回放时原样抛出 */
+  error?: string;
+  /** 错误名称（如 AbortError） */
+  errorName?: string;
+  /** 错误的 code 属性（如 ENOENT、ERR_CHILD_PROCESS_STDIO_MAXBUFFER） */
+  errorCode?: string | number;
+  /** 进程是否被终止（超时） */
+  killed?: boolean;
+  /** 终止进程的信号 */
+  signal?: string;
+}
+
+/**
+ * 提取错误中影响 HdcError 分类与重试判断的字段，用于写入回放数据
+ * @param error 传输层抛出的错误
+ */
+export function serializeError(error: unknown): Pick<CassetteEntry, 'error' | 'errorName' | 'errorCode' | 'killed' | 'signal'> {
+  if (!(error instanceof Error)) {
+    return { error: String(error) };
+  }
+  const err = error as Error & { code?: unknown; killed?: unknown; signal?: unknown };
+  return {
+    error: error.message,
+    errorName: error.name !== 'Error' ? error.name : undefined,
+    errorCode: typeof err.code === 'string' || typeof err.code === 'number' ? err.code : undefined,
+    killed: typeof err.killed === 'boolean' ? err.killed : undefined,
+    signal: typeof err.signal === 'string' ? err.signal : undefined,
+  };
+}
+
+/**
+ * 按回放数据重建与录制时结构相同的错误
+ * @param entry 带 error 的回放条目
+ */
+export function deserializeError(entry: CassetteEntry): Error {
+  const error = new Error(entry.error) as Error & { code?: string | number; killed?: boolean; signal?: string };
+  if (entry.errorName) error.name = entry.errorName;
+  if (entry.errorCode !== undefined) error.code = entry.errorCode;
+  if (entry.killed !== undefined) error.killed = entry.killed;
+  if (entry.signal !== undefined) error.signal = entry.signal;
+  return error;
+}
+
+/**
+ * 判断是否为 file recv 命令
+ */
+export function isFileRecv(args: string[]): boolean {
+  return args[0] === 'file' && args[1] === 'recv';
+}
+
+// 设备临时文件名中的随机后缀（如 screenshot-1a2b3c4d5e6f7a8b.jpeg）
+const UNIQUE_TEMP_SUFFIX = /(\/data\/local\/tmp\/[\w.]+?)-[0-9a-f]{16}(\.\w+)?(?![\w-])/g;
+
+/**
+ * 计算命令的回放键
+ * file send / file recv 的本地路径每次调用都可能不同，不参与匹配；
+ * 设备临时文件名中的随机后缀同样忽略
+ * @param args hdc 参数（不含 -t）
+ */
+export function cassetteKey(args: string[]): string {
+  const normalized = args.map(arg => arg.replace(UNIQUE_TEMP_SUFFIX, '$1-*$2'));
+  if (normalized[0] === 'file' && normalized[1] === 'recv') {
+    return JSON.stringify(normalized.slice(0, 3));
+  }
+  if (normalized[0] === 'file' && normalized[1] === 'send') {
+    return JSON.stringify([normalized[0], normalized[1], ...normalized.slice(3)]);
+  }
+  return JSON.stringify(normalized);
+}
+
+/**
+ * 读取回放目录中的全部条目
+ * @param dir 回放目录
+ */
+export async function readCassette(dir: string): Promise<CassetteEntry[]> {
+  const content = await readFile(join(dir, CASSETTE_INDEX_FILE), 'utf-8');
+  const entries: CassetteEntry[] = [];
+
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    try {
+      entries.push(JSON.parse(line) as CassetteEntry);
+    } catch {
+      throw new Error(`回放数据格式错误 (${CASSETTE_INDEX_FILE} 第 ${i + 1} 行)`);
+    }
+  }
+
+  return entries;
+}
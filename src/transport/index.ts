@@ -0,0 +1,45 @@
+/**
+ * 传输层导出
+ * 根据环境变量选择 hdc 传输实现
+ */
+
+import { HdcTransport } from './types.js';
+import { ProcessTransport, ProcessTransportOptions } from './processTransport.js';
+import { ReplayTransport } from './replayTransport.js';
+
+export { ProcessTransport } from './processTransport.js';
+export type { ProcessTransportOptions } from './processTransport.js';
+export { ReplayTransport } from './replayTransport.js';
+export { RecordingTransport } from './recordingTransport.js';
+export { CASSETTE_INDEX_FILE, cassetteKey, readCassette, serializeError, deserializeError } from './cassette.js';
+export type { CassetteEntry } from './cassette.js';
+export type { HdcTransport, ExecOptions, ExecResult, StreamOptions, StreamHandle } from './types.js';
+
+/**
+ * 根据环境变量创建传输层
+ * - HDC_TRANSPORT=hdc（默认）：调用真实 hdc，HDC_PERSISTENT_SHELL=true 时启用常驻 shell 会话
+ * - HDC_TRANSPORT=replay：从 HDC_CASSETTE_DIR 指定的目录回放录制数据
+ * @param hdcPath hdc 可执行文件路径
+ * @param options 真实 hdc 传输层选项（优先于环境变量）
+ */
+export function createTransport(hdcPath: string, options: ProcessTransportOptions = {}): HdcTransport {
+  const kind = (process.env.HDC_TRANSPORT || 'hdc').toLowerCase();
+
+  switch (kind) {
+    case 'hdc':
+      return new ProcessTransport(hdcPath, {
+        persistentShell: options.persistentShell ?? process.env.HDC_PERSISTENT_SHELL === 'true',
+      });
+
+    case 'replay': {
+      const dir = process.env.HDC_CASSETTE_DIR;
+      if (!dir) {
+        throw new Error('HDC_TRANSPORT=replay 时必须通过 HDC_CASSETTE_DIR 指定回放目录');
+      }
+      return new ReplayTransport(dir);
+    }
+
+    default:
+      throw new Error(`未知的 HDC_TRANSPORT: ${kind}（可选值: hdc, replay）`);
+  }
+}
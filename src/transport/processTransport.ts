@@ -0,0 +1,179 @@
+import { execFile, spawn } from 'child_process';
+import { Logger } from '../utils/logger.js';
+import { HdcTransport, ExecOptions, ExecResult, StreamOptions, StreamHandle } from './types.js';
+import { ShellSession, SessionError } from './shellSession.js';
+
+// 常量定义
+const DEFAULT_BUFFER_SIZE = 10 * 1024 * 1024; // 10MB buffer
+const DEFAULT_COMMAND_TIMEOUT = 30000; // 默认命令超时 30 秒
+const MAX_SESSION_FAILURES = 3; // 常驻会话连续失败次数上限，超过后回退到单次执行
+
+/**
+ * 真实 hdc 进程传输层选项
+ */
+export interface ProcessTransportOptions {
+  /** 是否为 shell 命令使用常驻 shell 会话 */
+  persistentShell?: boolean;
+}
+
+/**
+ * 真实 hdc 进程传输层
+ * 以参数数组启动 hdc，不经过本地 shell；
+ * 开启 persistentShell 后，shell 命令复用每台设备的常驻 shell 会话
+ */
+export class ProcessTransport implements HdcTransport {
+  readonly name: string;
+  private hdcPath: string;
+  private persistentShell: boolean;
+  private sessions = new Map<string, ShellSession>();
+  private sessionFailures = 0;
+  private latency = {
+    session: { count: 0, totalMs: 0 },
+    oneshot: { count: 0, totalMs: 0 },
+  };
+
+  constructor(hdcPath: string, options: ProcessTransportOptions = {}) {
+    this.hdcPath = hdcPath;
+    this.persistentShell = options.persistentShell ?? false;
+    this.name = this.persistentShell ? 'hdc-session' : 'hdc';
+  }
+
+  async exec(args: string[], options: ExecOptions = {}): Promise<ExecResult> {
+    const startedAt = Date.now();
+
+    if (this.persistentShell && options.target && args[0] === 'shell' && args.length === 2) {
+      try {
+        const result = await this.getSession(options.target).run(
+          args[1],
+          options.timeout ?? DEFAULT_COMMAND_TIMEOUT,
+          options.maxBuffer ?? DEFAULT_BUFFER_SIZE,
+          options.signal
+        );
+        this.sessionFailures = 0;
+        this.recordLatency('session', startedAt, args);
+        return result;
+      } catch (error) {
+        const err = error as SessionError & { killed?: boolean; code?: unknown };
+        // 超时、输出超限与取消属于命令本身的问题，直接交给调用方处理
+        if (err.killed || err.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER' || options.signal?.aborted) {
+          throw error;
+        }
+
+        this.sessionFailures++;
+        if (this.sessionFailures >= MAX_SESSION_FAILURES) {
+          Logger.warn(`常驻 shell 会话连续失败 ${this.sessionFailures} 次，回退到单次执行模式`);
+          this.persistentShell = false;
+          this.close();
+        } else {
+          Logger.warn(`常驻 shell 会话执行失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        // 命令已写入会话时设备端可能已经执行，重新执行会导致重复点击、重复启动等
+        if (err.commandSent) {
+          throw error;
+        }
+        Logger.debug('命令未写入会话，本次回退到单次执行');
+      }
+    }
+
+    const result = await this.execOnce(args, options);
+    this.recordLatency('oneshot', startedAt, args);
+    return result;
+  }
+
+  stream(args: string[], options: StreamOptions): StreamHandle {
+    const argv = options.target ? ['-t', options.target, ...args] : args;
+    Logger.debug(`启动流式命令: ${this.hdcPath} ${argv.join(' ')}`);
+
+    const child = spawn(this.hdcPath, argv, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stopped = false;
+    let exited = false;
+    const exit = (code: number | null, error?: Error) => {
+      if (exited) return;
+      exited = true;
+      options.onExit?.(stopped ? null : code, stopped ? undefined : error);
+    };
+
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => options.onData(chunk));
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (chunk: string) => Logger.debug(`流式命令 stderr: ${chunk.trim()}`));
+    child.once('error', (error) => exit(null, error));
+    child.once('close', (code) => exit(code));
+
+    return {
+      stop: () => {
+        if (stopped || exited) return;
+        stopped = true;
+        child.kill();
+      },
+    };
+  }
+
+  /**
+   * 关闭所有常驻 shell 会话
+   */
+  close(): void {
+    for (const session of this.sessions.values()) {
+      session.close();
+    }
+    this.sessions.clear();
+  }
+
+  /**
+   * 获取设备的常驻 shell 会话
+   */
+  private getSession(target: string): ShellSession {
+    let session = this.sessions.get(target);
+    if (!session) {
+      session = new ShellSession(this.hdcPath, target);
+      this.sessions.set(target, session);
+    }
+    return session;
+  }
+
+  /**
+   * 启动一次 hdc 进程执行命令
+   */
+  private execOnce(args: string[], options: ExecOptions): Promise<ExecResult> {
+    const argv = options.target ? ['-t', options.target, ...args] : args;
+
+    return new Promise((resolve, reject) => {
+      execFile(
+        this.hdcPath,
+        argv,
+        {
+          encoding: 'utf-8',
+          maxBuffer: options.maxBuffer ?? DEFAULT_BUFFER_SIZE,
+          timeout: options.timeout ?? DEFAULT_COMMAND_TIMEOUT,
+          signal: options.signal,
+        },
+        (error, stdout, stderr) => {
+          // 进程正常结束但退出码非零：交给调用方判断
+          if (error && typeof error.code === 'number' && !error.killed) {
+            resolve({ stdout, stderr, exitCode: error.code });
+            return;
+          }
+          if (error) {
+            reject(error);
+            return;
+          }
+          resolve({ stdout, stderr, exitCode: 0 });
+        }
+      );
+    });
+  }
+
+  /**
+   * 记录命令耗时，调试日志中输出本次耗时与该模式的平均耗时
+   */
+  private recordLatency(mode: 'session' | 'oneshot', startedAt: number, args: string[]): void {
+    const elapsed = Date.now() - startedAt;
+    const stats = this.latency[mode];
+    stats.count++;
+    stats.totalMs += elapsed;
+    Logger.debug(
+      `命令耗时 [${mode}] ${elapsed}ms（平均 ${Math.round(stats.totalMs / stats.count)}ms / ${stats.count} 次）: ${args[0]} ${args[1] || ''}`
+    );
+  }
+}
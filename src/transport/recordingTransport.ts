@@ -0,0 +1,174 @@
+import { appendFile, copyFile, mkdir } from 'fs/promises';
+import { basename, join } from 'path';
+import { Logger } from '../utils/logger.js';
+import { HdcTransport, ExecOptions, ExecResult, StreamOptions, StreamHandle } from './types.js';
+import { CASSETTE_INDEX_FILE, CassetteEntry, isFileRecv, serializeError } from './cassette.js';
+
+/** 拉取文件在录制目录中的子目录 */
+const ARTIFACT_DIR = 'files';
+/** 流式命令最多录制的输出长度（字符） */
+const MAX_STREAM_RECORD = 10 * 1024 * 1024;
+
+/**
+ * 录制传输层
+ *
+ * 包装另一个传输层，把每条命令的参数、耗时、退出码和输出追加到
+ * 录制目录的 commands.jsonl 中，file recv 拉取的文件复制到 files/ 子目录。
+ * 录制目录可直接作为 ReplayTransport 的回放目录使用。
+ */
+export class RecordingTransport implements HdcTransport {
+  readonly name: string;
+  private inner: HdcTransport;
+  private dir: string;
+  private ready?: Promise<void>;
+  private writeChain: Promise<void> = Promise.resolve();
+  private count = 0;
+
+  constructor(inner: HdcTransport, dir: string) {
+    this.inner = inner;
+    this.dir = dir;
+    this.name = `${inner.name}+record`;
+  }
+
+  /**
+   * 获取被包装的传输层
+   */
+  getInner(): HdcTransport {
+    return this.inner;
+  }
+
+  /**
+   * 获取录制目录
+   */
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * 已录制的命令数
+   */
+  getCount(): number {
+    return this.count;
+  }
+
+  async exec(args: string[], options: ExecOptions = {}): Promise<ExecResult> {
+    const startedAt = Date.now();
+    const entry: CassetteEntry = {
+      args,
+      target: options.target,
+      stdout: '',
+      stderr: '',
+      exitCode: 0,
+      timestamp: new Date(startedAt).toISOString(),
+    };
+
+    try {
+      const result = await this.inner.exec(args, options);
+      entry.stdout = result.stdout;
+      entry.stderr = result.stderr;
+      entry.exitCode = result.exitCode;
+      entry.durationMs = Date.now() - startedAt;
+
+      if (isFileRecv(args) && result.exitCode === 0 && args[3]) {
+        entry.artifact = await this.saveArtifact(args[3]);
+      }
+
+      await this.append(entry);
+      return result;
+    } catch (error) {
+      entry.exitCode = -1;
+      Object.assign(entry, serializeError(error));
+      entry.durationMs = Date.now() - startedAt;
+      await this.append(entry);
+      throw error;
+    }
+  }
+
+  /**
+   * 录制流式命令：结束时把累计的输出作为一条记录写入
+   */
+  stream(args: string[], options: StreamOptions): StreamHandle {
+    if (!this.inner.stream) {
+      throw new Error(`传输层 ${this.inner.name} 不支持流式命令`);
+    }
+
+    const startedAt = Date.now();
+    let stdout = '';
+
+    return this.inner.stream(args, {
+      target: options.target,
+      onData: (chunk) => {
+        if (stdout.length < MAX_STREAM_RECORD) {
+          stdout += chunk.slice(0, MAX_STREAM_RECORD - stdout.length);
+        }
+        options.onData(chunk);
+      },
+      onExit: (code, error) => {
+        this.append({
+          args,
+          target: options.target,
+          stdout,
+          stderr: '',
+          exitCode: code ?? 0,
+          durationMs: Date.now() - startedAt,
+          timestamp: new Date(startedAt).toISOString(),
+          ...(error ? serializeError(error) : {}),
+        });
+        options.onExit?.(code, error);
+      },
+    });
+  }
+
+  close(): void {
+    this.inner.close?.();
+  }
+
+  /**
+   * 等待所有录制数据写入完成
+   */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+
+  /**
+   * 确保录制目录存在
+   */
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = mkdir(join(this.dir, ARTIFACT_DIR), { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  /**
+   * 复制拉取到本地的文件到录制目录
+   * @returns 文件在录制目录中的相对路径
+   */
+  private async saveArtifact(localPath: string): Promise<string | undefined> {
+    await this.ensureDir();
+    const name = `${String(this.count + 1).padStart(4, '0')}-${basename(localPath)}`;
+    const relativePath = `${ARTIFACT_DIR}/${name}`;
+    try {
+      await copyFile(localPath, join(this.dir, relativePath));
+      return relativePath;
+    } catch (error) {
+      Logger.warn(`录制文件失败: ${localPath}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * 追加一条录制记录（串行写入，保证行不交错）
+   */
+  private append(entry: CassetteEntry): Promise<void> {
+    this.count++;
+    const line = JSON.stringify(entry) + '\n';
+    this.writeChain = this.writeChain
+      .then(() => this.ensureDir())
+      .then(() => appendFile(join(this.dir, CASSETTE_INDEX_FILE), line, 'utf-8'))
+      .catch(error => {
+        Logger.error(`写入录制数据失败: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    return this.writeChain;
+  }
+}
@@ -0,0 +1,118 @@
+import { copyFile } from 'fs/promises';
+import { join } from 'path';
+import { Logger } from '../utils/logger.js';
+import { HdcTransport, ExecOptions, ExecResult, StreamOptions, StreamHandle } from './types.js';
+import { CassetteEntry, cassetteKey, deserializeError, isFileRecv, readCassette } from './cassette.js';
+
+/**
+ * 回放传输层
+ *
+ * 从回放目录读取录制的命令输出，按命令参数匹配返回，不访问真实设备。
+ * 同一命令录制了多次时按录制顺序依次返回，用尽后重复返回最后一条，
+ * 以支持 waitForElement 等轮询场景。
+ * 录制的错误按原有的 name / code / killed / signal 重建，错误分类与重试行为与录制时一致。
+ */
+export class ReplayTransport implements HdcTransport {
+  readonly name = 'replay';
+  private dir: string;
+  private entries?: Promise<Map<string, CassetteEntry[]>>;
+  private cursors = new Map<string, number>();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async exec(args: string[], options: ExecOptions = {}): Promise<ExecResult> {
+    const entry = await this.next(args, options.target);
+
+    if (entry.error) {
+      throw deserializeError(entry);
+    }
+
+    if (isFileRecv(args) && entry.artifact && args[3]) {
+      await copyFile(join(this.dir, entry.artifact), args[3]);
+    }
+
+    return {
+      stdout: entry.stdout,
+      stderr: entry.stderr,
+      exitCode: entry.exitCode,
+    };
+  }
+
+  /**
+   * 回放流式命令：一次性输出录制的全部内容后结束
+   */
+  stream(args: string[], options: StreamOptions): StreamHandle {
+    let stopped = false;
+
+    this.next(args, options.target).then(
+      (entry) => {
+        if (stopped) return;
+        if (entry.stdout) options.onData(entry.stdout);
+        options.onExit?.(entry.exitCode, entry.error ? deserializeError(entry) : undefined);
+      },
+      (error) => {
+        if (!stopped) options.onExit?.(null, error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+
+    return {
+      stop: () => {
+        stopped = true;
+      },
+    };
+  }
+
+  /**
+   * 重置回放进度
+   */
+  rewind(): void {
+    this.cursors.clear();
+  }
+
+  /**
+   * 取出命令的下一条录制记录
+   */
+  private async next(args: string[], target?: string): Promise<CassetteEntry> {
+    const entries = await this.load();
+    const key = cassetteKey(args);
+    const candidates = entries.get(key);
+
+    if (!candidates || candidates.length === 0) {
+      throw new Error(`回放数据中没有该命令: hdc ${args.join(' ')}`);
+    }
+
+    // 优先使用同一设备录制的条目
+    const forTarget = candidates.filter(e => !e.target || !target || e.target === target);
+    const pool = forTarget.length > 0 ? forTarget : candidates;
+
+    const cursorKey = `${target || ''}|${key}`;
+    const cursor = this.cursors.get(cursorKey) || 0;
+    const entry = pool[Math.min(cursor, pool.length - 1)];
+    this.cursors.set(cursorKey, cursor + 1);
+
+    Logger.debug(`回放命令: hdc ${args.join(' ')} (第 ${cursor + 1} 次)`);
+    return entry;
+  }
+
+  /**
+   * 加载并索引回放数据
+   */
+  private load(): Promise<Map<string, CassetteEntry[]>> {
+    if (!this.entries) {
+      this.entries = readCassette(this.dir).then(list => {
+        const index = new Map<string, CassetteEntry[]>();
+        for (const entry of list) {
+          const key = cassetteKey(entry.args);
+          const bucket = index.get(key) || [];
+          bucket.push(entry);
+          index.set(key, bucket);
+        }
+        Logger.info(`已加载回放数据: ${this.dir} (${list.length} 条命令)`);
+        return index;
+      });
+    }
+    return this.entries;
+  }
+}
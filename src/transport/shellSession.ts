@@ -0,0 +1,253 @@
+import { spawn, ChildProcess } from 'child_process';
+import { Logger } from '../utils/logger.js';
+import { ExecResult } from './types.js';
+import { createAbortError } from '../utils/commandQueue.js';
+
+// 常量定义
+const SESSION_START_TIMEOUT = 5000; // 会话启动超时（毫秒）
+const MARKER_PREFIX = '__HDC_SESSION'; // 命令分隔标记前缀
+
+/**
+ * 会话命令错误
+ * commandSent 为 true 时命令已写入会话，设备端可能已经执行
+ */
+export type SessionError = Error & { commandSent?: boolean };
+
+/**
+ * 进行中的命令
+ */
+interface PendingCommand {
+  id: number;
+  maxBuffer: number;
+  timer: NodeJS.Timeout;
+  resolve: (result: ExecResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 常驻 hdc shell 会话
+ *
+ * 为一台设备保持一个交互式 `hdc -t <serial> shell` 进程，
+ * 每条命令前后输出分隔标记，从标记之间截取输出，
+ * 省去每条命令启动 hdc 进程和建立连接的开销。
+ *
+ * 结束标记带有命令的退出码（__HDC_SESSION_END_1:0），与单次执行一样通过 ExecResult.exitCode 返回；
+ * 结束标记前总是先输出一个换行，保证输出末尾没有换行时（如 `printf abc`）标记仍在单独一行，
+ * 截取输出时去掉这个额外的换行。
+ *
+ * 标记在输入中被拆成两段引号（"__HDC_SESSION""_END_1"），
+ * 这样终端回显的输入行不会被误认为命令输出中的标记。
+ * 交互式 shell 中 stderr 与 stdout 合并输出。
+ */
+export class ShellSession {
+  private hdcPath: string;
+  private target: string;
+  private child?: ChildProcess;
+  private starting?: Promise<void>;
+  private pending?: PendingCommand;
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextId = 1;
+  private output = '';
+
+  constructor(hdcPath: string, target: string) {
+    this.hdcPath = hdcPath;
+    this.target = target;
+  }
+
+  /**
+   * 是否已连接
+   */
+  isAlive(): boolean {
+    return !!this.child && this.child.exitCode === null && !this.child.killed;
+  }
+
+  /**
+   * 在会话中执行命令（同一会话中的命令串行执行）
+   * @param command 设备端命令
+   * @param timeout 超时时间（毫秒），超时后关闭会话
+   * @param maxBuffer 输出上限（字节）
+   * @param signal 取消信号，取消后关闭会话以终止设备端命令
+   */
+  run(command: string, timeout: number, maxBuffer: number, signal?: AbortSignal): Promise<ExecResult> {
+    const task = this.queue.then(() => this.runNow(command, timeout, maxBuffer, signal));
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * 关闭会话
+   */
+  close(): void {
+    if (this.child) {
+      Logger.debug(`关闭常驻 shell 会话: ${this.target}`);
+      this.child.stdin?.end();
+      this.child.kill();
+      this.child = undefined;
+    }
+    this.starting = undefined;
+  }
+
+  /**
+   * 立即执行命令
+   */
+  private async runNow(
+    command: string,
+    timeout: number,
+    maxBuffer: number,
+    signal?: AbortSignal
+  ): Promise<ExecResult> {
+    if (signal?.aborted) {
+      throw createAbortError(signal.reason);
+    }
+
+    // 会话断开时自动重连
+    if (!this.isAlive()) {
+      await this.start();
+    }
+
+    const id = this.nextId++;
+    const begin = `"${MARKER_PREFIX}""_BEGIN_${id}"`;
+    const end = `"${MARKER_PREFIX}""_END_${id}"`;
+
+    const result = new Promise<ExecResult>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending = undefined;
+        this.close();
+        const error = new Error(`Command timed out after ${timeout}ms: ${command}`) as Error & {
+          killed: boolean;
+          signal: string;
+        };
+        error.killed = true;
+        error.signal = 'SIGTERM';
+        reject(error);
+      }, timeout);
+
+      const pending: PendingCommand = { id, maxBuffer, timer, resolve, reject };
+      this.pending = pending;
+      this.output = '';
+
+      signal?.addEventListener(
+        'abort',
+        () => {
+          if (this.pending !== pending) return;
+          this.finish(pending, () => reject(createAbortError(signal.reason)));
+          this.close();
+        },
+        { once: true }
+      );
+
+      // printf 的参数在执行前展开，$? 仍是命令的退出码
+      this.child!.stdin!.write(`echo ${begin}; ${command}; printf '\\n%s:%s\\n' ${end} $?\n`);
+    });
+
+    return result.catch((error: SessionError) => {
+      error.commandSent = true;
+      throw error;
+    });
+  }
+
+  /**
+   * 启动会话进程
+   */
+  private start(): Promise<void> {
+    if (this.starting) {
+      return this.starting;
+    }
+
+    this.starting = new Promise<void>((resolve, reject) => {
+      Logger.debug(`启动常驻 shell 会话: ${this.target}`);
+      const child = spawn(this.hdcPath, ['-t', this.target, 'shell'], { stdio: ['pipe', 'pipe', 'pipe'] });
+      this.child = child;
+      this.output = '';
+
+      // 空闲会话不阻止进程退出；执行中的命令由超时定时器保持事件循环
+      child.unref();
+      for (const stream of [child.stdin, child.stdout, child.stderr]) {
+        (stream as unknown as { unref?: () => void } | null)?.unref?.();
+      }
+
+      child.stdout!.setEncoding('utf-8');
+      child.stdout!.on('data', (chunk: string) => this.child === child && this.onData(chunk));
+      child.stderr!.setEncoding('utf-8');
+      child.stderr!.on('data', (chunk: string) => this.child === child && this.onData(chunk));
+
+      const startTimer = setTimeout(() => {
+        reject(new Error(`常驻 shell 会话启动超时: ${this.target}`));
+        this.close();
+      }, SESSION_START_TIMEOUT);
+
+      child.once('spawn', () => {
+        clearTimeout(startTimer);
+        resolve();
+      });
+      child.once('error', (error) => {
+        clearTimeout(startTimer);
+        reject(error);
+        if (this.child === child) this.onExit(error);
+      });
+      child.once('exit', (code) => {
+        // 已被替换的旧会话退出时不影响当前会话
+        if (this.child === child) this.onExit(new Error(`常驻 shell 会话已退出 (code ${code})`));
+      });
+    }).finally(() => {
+      this.starting = undefined;
+    });
+
+    return this.starting;
+  }
+
+  /**
+   * 处理会话输出，截取分隔标记之间的内容
+   */
+  private onData(chunk: string): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    this.output += chunk.replace(/\r/g, '');
+
+    if (this.output.length > pending.maxBuffer) {
+      this.finish(pending, () => {
+        const error = new Error('stdout maxBuffer length exceeded') as Error & { code: string };
+        error.code = 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER';
+        pending.reject(error);
+      });
+      this.close();
+      return;
+    }
+
+    const endMatch = this.output.match(new RegExp(`\\n${MARKER_PREFIX}_END_${pending.id}:(\\d+)\\n`));
+    if (!endMatch || endMatch.index === undefined) return;
+
+    const beginMarker = `${MARKER_PREFIX}_BEGIN_${pending.id}\n`;
+    const beginIndex = this.output.indexOf(beginMarker);
+    const start = beginIndex === -1 ? 0 : beginIndex + beginMarker.length;
+    // 结束标记前的换行是额外输出的，不属于命令输出
+    const stdout = this.output.slice(start, endMatch.index);
+    const exitCode = parseInt(endMatch[1], 10);
+
+    this.output = '';
+    this.finish(pending, () => pending.resolve({ stdout, stderr: '', exitCode }));
+  }
+
+  /**
+   * 会话进程退出
+   */
+  private onExit(error: Error): void {
+    this.child = undefined;
+    const pending = this.pending;
+    if (pending) {
+      this.finish(pending, () => pending.reject(error));
+    }
+  }
+
+  /**
+   * 结束进行中的命令
+   */
+  private finish(pending: PendingCommand, settle: () => void): void {
+    clearTimeout(pending.timer);
+    if (this.pending === pending) {
+      this.pending = undefined;
+    }
+    settle();
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * 传输层执行选项
+ */
+export interface ExecOptions {
+  /** 目标设备序列号，不指定时不附加 -t 参数（如 list targets） */
+  target?: string;
+  /** 超时时间（毫秒） */
+  timeout?: number;
+  /** 输出缓冲区上限（字节） */
+  maxBuffer?: number;
+  /** 取消信号，触发后终止 hdc 子进程 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 传输层执行结果
+ */
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * 流式执行选项
+ */
+export interface StreamOptions {
+  /** 目标设备序列号 */
+  target?: string;
+  /** 收到标准输出时回调 */
+  onData: (chunk: string) => void;
+  /** 进程结束时回调；主动停止时 code 为 null 且无 error */
+  onExit?: (code: number | null, error?: Error) => void;
+}
+
+/**
+ * 流式命令句柄
+ */
+export interface StreamHandle {
+  /** 停止命令并结束子进程 */
+  stop(): void;
+}
+
+/**
+ * hdc 传输层接口
+ *
+ * HDC 的所有设备交互都经过此接口，便于替换为真实 hdc 进程、
+ * 录制数据回放等不同实现。
+ * 进程正常结束（包括非零退出码）时返回 ExecResult，
+ * 无法启动或超时时抛出错误。
+ */
+export interface HdcTransport {
+  /** 传输层名称，用于日志 */
+  readonly name: string;
+
+  /**
+   * 执行一条 hdc 命令
+   * @param args hdc 参数（不含 -t），例如 ['shell', 'aa dump -a']
+   * @param options 执行选项
+   */
+  exec(args: string[], options?: ExecOptions): Promise<ExecResult>;
+
+  /**
+   * 以流的方式执行长时间运行的命令（如 hilog），不受超时与输出上限限制
+   * 未实现时表示该传输层不支持流式命令
+   * @param args hdc 参数（不含 -t）
+   * @param options 目标设备与回调
+   */
+  stream?(args: string[], options: StreamOptions): StreamHandle;
+
+  /**
+   * 释放传输层持有的资源（如常驻 shell 会话）
+   */
+  close?(): void;
+}
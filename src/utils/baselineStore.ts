@@ -0,0 +1,170 @@
+import { access, mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { HDC } from './hdc.js';
+import { ImageProcessor, RawImage } from './image.js';
+import { ImageDiff, DiffOptions, DiffResult } from './imageDiff.js';
+import { Logger } from './logger.js';
+import { Workspace } from './workspace.js';
+
+// 常量定义
+const DEFAULT_MAX_DIFF_PERCENT = 0.1; // 默认允许的不一致像素百分比
+const DEFAULT_BASELINE_DIR = 'baselines'; // 工作区下的默认基准图目录
+const DIFF_IMAGE_QUALITY = 90; // 差异图保存质量
+const BASELINE_NAME_PATTERN = /^[\w\u4e00-\u9fa5][\w\u4e00-\u9fa5.-]*$/; // 基准图名称（用作文件名）
+
+/**
+ * 基准图存储配置
+ */
+export interface BaselineStoreOptions {
+  /** 基准图目录，默认读取 HDC_BASELINE_DIR 环境变量，都未设置时为工作区下的 baselines 目录 */
+  dir?: string;
+  /** 本地文件工作区，默认基准图目录位于其根目录下 */
+  workspace?: Workspace;
+}
+
+/**
+ * 已保存的基准图
+ */
+export interface BaselineInfo {
+  name: string;
+  path: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * 截图对比选项
+ */
+export interface VisualCompareOptions extends DiffOptions {
+  /** 允许的不一致像素百分比（0-100），默认 0.1 */
+  maxDiffPercent?: number;
+}
+
+/**
+ * 截图对比结果
+ */
+export interface VisualComparison extends Omit<DiffResult, 'diffImage'> {
+  name: string;
+  passed: boolean;
+  maxDiffPercent: number;
+  baselinePath: string;
+  /** 本次截图的保存路径 */
+  actualPath: string;
+  /** 差异图的保存路径 */
+  diffPath: string;
+}
+
+/**
+ * 截图基准图存储
+ *
+ * 基准图以 `<name>.jpeg` 保存设备截图原文件（不重新编码）；
+ * 对比时将本次截图与差异图保存为 `<name>.actual.jpeg` / `<name>.diff.jpeg`。
+ */
+export class BaselineStore {
+  readonly dir: string;
+
+  constructor(options: BaselineStoreOptions = {}) {
+    this.dir = resolve(
+      options.dir || process.env.HDC_BASELINE_DIR || join((options.workspace || new Workspace()).root, DEFAULT_BASELINE_DIR)
+    );
+  }
+
+  /**
+   * 获取基准图路径
+   * @param name 基准图名称（字母、数字、中文、`_`、`-`、`.`）
+   * @throws 名称无效时抛出错误
+   */
+  pathFor(name: string): string {
+    if (typeof name !== 'string' || !BASELINE_NAME_PATTERN.test(name) || name.includes('..')) {
+      throw new Error(`无效的基准图名称: ${name}`);
+    }
+    return join(this.dir, `${name}.jpeg`);
+  }
+
+  /**
+   * 截图并保存为基准图
+   * @param hdc HDC 实例
+   * @param name 基准图名称
+   * @param overwrite 是否覆盖已有的同名基准图，默认 true
+   * @returns 基准图信息
+   */
+  async save(hdc: HDC, name: string, overwrite: boolean = true): Promise<BaselineInfo> {
+    const path = this.pathFor(name);
+    if (!overwrite && (await this.exists(name))) {
+      throw new Error(`基准图已存在: ${name}`);
+    }
+
+    await mkdir(this.dir, { recursive: true });
+    const tempPath = `${path}.tmp`;
+    try {
+      await hdc.captureScreenshot(tempPath);
+      const image = ImageProcessor.decode(await readFile(tempPath));
+      await rename(tempPath, path);
+
+      Logger.info(`已保存基准图 ${name} (${image.width}x${image.height})`);
+      return { name, path, width: image.width, height: image.height };
+    } finally {
+      await unlink(tempPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * 检查基准图是否存在
+   * @param name 基准图名称
+   */
+  async exists(name: string): Promise<boolean> {
+    return access(this.pathFor(name)).then(
+      () => true,
+      () => false
+    );
+  }
+
+  /**
+   * 读取基准图
+   * @param name 基准图名称
+   * @throws 基准图不存在时抛出错误
+   */
+  async load(name: string): Promise<RawImage> {
+    const content = await readFile(this.pathFor(name)).catch(() => {
+      throw new Error(`基准图不存在: ${name}（请先调用 save_baseline）`);
+    });
+    return ImageProcessor.decode(content);
+  }
+
+  /**
+   * 截图并与基准图逐像素对比
+   * @param hdc HDC 实例
+   * @param name 基准图名称
+   * @param options 容差、忽略区域与允许的差异比例
+   * @returns 对比结果与差异图
+   */
+  async compare(
+    hdc: HDC,
+    name: string,
+    options: VisualCompareOptions = {}
+  ): Promise<{ comparison: VisualComparison; diffImage: RawImage }> {
+    const maxDiffPercent = options.maxDiffPercent ?? DEFAULT_MAX_DIFF_PERCENT;
+    if (typeof maxDiffPercent !== 'number' || maxDiffPercent < 0 || maxDiffPercent > 100) {
+      throw new Error('maxDiffPercent 必须是 0-100 之间的数字');
+    }
+
+    const baselinePath = this.pathFor(name);
+    const expected = await this.load(name);
+
+    const actualPath = join(this.dir, `${name}.actual.jpeg`);
+    const diffPath = join(this.dir, `${name}.diff.jpeg`);
+    await hdc.captureScreenshot(actualPath);
+    const actual = ImageProcessor.decode(await readFile(actualPath));
+
+    const { diffImage, ...diff } = ImageDiff.compare(expected, actual, options);
+    await writeFile(diffPath, ImageProcessor.encode(diffImage, DIFF_IMAGE_QUALITY));
+
+    const passed = diff.mismatchPercent <= maxDiffPercent;
+    Logger.info(`基准图 ${name} 对比${passed ? '通过' : '失败'}: 不一致像素 ${diff.mismatchPercent}%`);
+
+    return {
+      comparison: { name, passed, maxDiffPercent, baselinePath, actualPath, diffPath, ...diff },
+      diffImage,
+    };
+  }
+}
@@ -0,0 +1,243 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * 命令类型
+ * - input: 会改变设备状态的操作（点击、滑动、启动应用等），严格按顺序执行
+ * - read: 只读查询（hidumper 等），相同命令在排队或执行中时合并为一次
+ */
+export type CommandKind = 'input' | 'read';
+
+/**
+ * 命令优先级
+ */
+export type CommandPriority = 'high' | 'normal' | 'low';
+
+/**
+ * 入队选项
+ */
+export interface EnqueueOptions {
+  kind: CommandKind;
+  /** 合并键，只对 read 命令生效 */
+  key?: string;
+  priority?: CommandPriority;
+  /** 调用方的取消信号，默认使用当前请求上下文中的信号 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 请求上下文
+ * MCP 请求处理期间通过 AsyncLocalStorage 传递取消信号，
+ * 无需在每个 HDC 方法上增加 signal 参数
+ */
+export interface CommandContext {
+  signal?: AbortSignal;
+}
+
+const PRIORITY_ORDER: Record<CommandPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * 队列中的任务
+ */
+interface QueueTask {
+  seq: number;
+  kind: CommandKind;
+  key?: string;
+  priority: CommandPriority;
+  controller: AbortController;
+  /** 等待该任务结果的调用方数量（合并的 read 命令共享一个任务） */
+  subscribers: number;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * 创建取消错误
+ */
+export function createAbortError(reason?: unknown): Error {
+  const error = new Error(reason instanceof Error ? reason.message : String(reason || 'The operation was aborted'));
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * 单设备命令队列
+ *
+ * 同一时刻只向设备发送一条命令，避免输入操作与 UI 树查询交错导致快照不一致。
+ * 按优先级出队（同优先级先进先出）；相同的只读查询合并为一次执行；
+ * 调用方取消时，排队中的任务直接移除，执行中的任务通过 AbortSignal 终止子进程。
+ */
+export class CommandQueue {
+  private static context = new AsyncLocalStorage<CommandContext>();
+
+  private pending: QueueTask[] = [];
+  private running?: QueueTask;
+  private seq = 0;
+
+  /**
+   * 在请求上下文中执行函数，期间入队的命令都绑定该取消信号
+   * @param signal 取消信号
+   * @param fn 要执行的函数
+   */
+  static runWithSignal<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+    return this.context.run({ signal }, fn);
+  }
+
+  /**
+   * 获取当前请求上下文中的取消信号
+   */
+  static currentSignal(): AbortSignal | undefined {
+    return this.context.getStore()?.signal;
+  }
+
+  /**
+   * 排队中与执行中的任务数
+   */
+  get size(): number {
+    return this.pending.length + (this.running ? 1 : 0);
+  }
+
+  /**
+   * 将命令加入队列
+   * @param run 执行函数，需在收到取消信号时终止
+   * @param options 入队选项
+   * @returns 命令结果
+   */
+  enqueue<T>(run: (signal: AbortSignal) => Promise<T>, options: EnqueueOptions): Promise<T> {
+    const signal = options.signal ?? CommandQueue.currentSignal();
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError(signal.reason));
+    }
+
+    const task = this.findMergeable(options) || this.createTask(run, options);
+    task.subscribers++;
+
+    if (!signal) {
+      return task.promise as Promise<T>;
+    }
+
+    // 每个调用方独立监听取消，所有调用方都取消后才真正取消任务
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        reject(createAbortError(signal.reason));
+        this.unsubscribe(task, signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      task.promise.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          if (!settled) {
+            settled = true;
+            resolve(value as T);
+          }
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          if (!settled) {
+            settled = true;
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * 取消全部排队中与执行中的命令
+   * @param reason 取消原因
+   */
+  cancelAll(reason: string = 'Command queue closed'): void {
+    const tasks = [...this.pending];
+    this.pending = [];
+    for (const task of tasks) {
+      task.reject(createAbortError(reason));
+    }
+    this.running?.controller.abort(createAbortError(reason));
+  }
+
+  /**
+   * 查找可以合并的只读任务
+   */
+  private findMergeable(options: EnqueueOptions): QueueTask | undefined {
+    if (options.kind !== 'read' || !options.key) {
+      return undefined;
+    }
+    const candidates = this.running ? [this.running, ...this.pending] : this.pending;
+    return candidates.find(t => t.kind === 'read' && t.key === options.key && !t.controller.signal.aborted);
+  }
+
+  /**
+   * 创建任务并加入队列
+   */
+  private createTask(run: (signal: AbortSignal) => Promise<unknown>, options: EnqueueOptions): QueueTask {
+    let resolve!: (value: unknown) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<unknown>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // 所有调用方都取消时没有人等待结果，避免未处理的拒绝
+    promise.catch(() => undefined);
+
+    const task: QueueTask = {
+      seq: this.seq++,
+      kind: options.kind,
+      key: options.key,
+      priority: options.priority || 'normal',
+      controller: new AbortController(),
+      subscribers: 0,
+      run,
+      promise,
+      resolve,
+      reject,
+    };
+
+    this.pending.push(task);
+    this.pending.sort(
+      (a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.seq - b.seq
+    );
+    queueMicrotask(() => this.drain());
+    return task;
+  }
+
+  /**
+   * 调用方取消等待
+   */
+  private unsubscribe(task: QueueTask, reason: unknown): void {
+    task.subscribers--;
+    if (task.subscribers > 0) return;
+
+    const index = this.pending.indexOf(task);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+      task.reject(createAbortError(reason));
+    } else if (this.running === task) {
+      task.controller.abort(createAbortError(reason));
+    }
+  }
+
+  /**
+   * 依次执行队列中的任务
+   */
+  private async drain(): Promise<void> {
+    if (this.running) return;
+
+    const task = this.pending.shift();
+    if (!task) return;
+
+    this.running = task;
+    try {
+      task.resolve(await task.run(task.controller.signal));
+    } catch (error) {
+      task.reject(error);
+    } finally {
+      this.running = undefined;
+      this.drain();
+    }
+  }
+}
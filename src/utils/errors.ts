@@ -0,0 +1,162 @@
+/**
+ * hdc 错误码
+ */
+export type HdcErrorCode =
+  | 'HDC_NOT_FOUND'
+  | 'NO_DEVICE'
+  | 'MULTIPLE_DEVICES'
+  | 'DEVICE_OFFLINE'
+  | 'DEVICE_UNAUTHORIZED'
+  | 'TIMEOUT'
+  | 'COMMAND_NOT_FOUND'
+  | 'OUTPUT_TRUNCATED'
+  | 'CANCELLED'
+  | 'COMMAND_FAILED';
+
+/**
+ * 各错误码的处理建议
+ */
+const ERROR_HINTS: Record<HdcErrorCode, string> = {
+  HDC_NOT_FOUND: '未找到 hdc 可执行文件，请安装 DevEco Studio 命令行工具，或通过 HDC_PATH 环境变量指定 hdc 路径',
+  NO_DEVICE: '请通过 USB 连接设备并开启开发者模式与 USB 调试，然后使用 list_devices 确认设备在线',
+  MULTIPLE_DEVICES: '连接了多台设备，请使用 list_devices 查看序列号，并通过 deviceId 参数指定目标设备',
+  DEVICE_OFFLINE: '设备离线或连接中断，请重新插拔 USB 或执行 hdc kill -r 重启 hdc 服务后重试',
+  DEVICE_UNAUTHORIZED: '设备未授权，请在设备上确认“允许 USB 调试”弹窗后重试',
+  TIMEOUT: '命令执行超时，设备可能繁忙或卡顿，请稍后重试或增大超时时间',
+  COMMAND_NOT_FOUND: '设备上不存在该命令，请确认系统版本是否支持（如 uitest、snapshot_display）',
+  OUTPUT_TRUNCATED: '命令输出超过缓冲区上限被截断，请缩小查询范围（如指定 pid）后重试',
+  CANCELLED: '请求已取消或服务器正在关闭，命令未执行完成',
+  COMMAND_FAILED: '命令执行失败，请检查参数或开启 DEBUG=true 查看详细日志',
+};
+
+/**
+ * 可自动重试的错误码（瞬时故障），TIMEOUT 只对只读查询重试，见 HDC.execWithRetry()
+ */
+const RETRYABLE_CODES: ReadonlySet<HdcErrorCode> = new Set<HdcErrorCode>(['DEVICE_OFFLINE', 'TIMEOUT']);
+
+/**
+ * hdc 命令错误
+ * 携带错误码与处理建议，供 MCP 工具结果展示
+ */
+export class HdcError extends Error {
+  readonly code: HdcErrorCode;
+  readonly hint: string;
+  readonly retryable: boolean;
+
+  constructor(code: HdcErrorCode, message: string) {
+    super(message);
+    this.name = 'HdcError';
+    this.code = code;
+    this.hint = ERROR_HINTS[code];
+    this.retryable = RETRYABLE_CODES.has(code);
+  }
+
+  /**
+   * 将任意错误转换为 HdcError
+   * @param error 原始错误（exec 错误或已分类的 HdcError）
+   * @param output 命令输出（用于识别 hdc 打印在 stdout/stderr 中的错误）
+   */
+  static from(error: unknown, output: string = ''): HdcError {
+    if (error instanceof HdcError) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const err = error as { code?: unknown; killed?: boolean; signal?: string | null };
+
+    if ((error instanceof Error && error.name === 'AbortError') || (err && err.code === 'ABORT_ERR')) {
+      return new HdcError('CANCELLED', message);
+    }
+    if (err && err.code === 'ENOENT') {
+      return new HdcError('HDC_NOT_FOUND', message);
+    }
+    if (err && err.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+      return new HdcError('OUTPUT_TRUNCATED', message);
+    }
+    if (err && err.killed && err.signal) {
+      return new HdcError('TIMEOUT', message);
+    }
+
+    return new HdcError(this.classifyOutput(`${message}\n${output}`) || 'COMMAND_FAILED', message);
+  }
+
+  /**
+   * 提取错误码与处理建议，用于填充操作结果
+   * @param error 任意错误
+   * @returns 非 HdcError 时返回空对象
+   */
+  static details(error: unknown): { errorCode?: HdcErrorCode; hint?: string } {
+    if (error instanceof HdcError) {
+      return { errorCode: error.code, hint: error.hint };
+    }
+    return {};
+  }
+
+  /**
+   * 根据命令输出识别错误码
+   * @param output 命令输出
+   * @param exitCode 退出码
+   * @returns 识别出的错误码，无法识别时返回 null
+   */
+  static classifyOutput(output: string, exitCode?: number): HdcErrorCode | null {
+    const text = output.toLowerCase();
+
+    if (text.includes('unauthorized') || text.includes('not been authorized')) {
+      return 'DEVICE_UNAUTHORIZED';
+    }
+    if (
+      text.includes('device not found') ||
+      text.includes('not founded or connected') ||
+      text.includes('not match target') ||
+      text.includes('device offline') ||
+      text.includes('connect server failed')
+    ) {
+      return 'DEVICE_OFFLINE';
+    }
+    if (exitCode === 127 || /: (command )?not found|inaccessible or not found/.test(text)) {
+      return 'COMMAND_NOT_FOUND';
+    }
+
+    return null;
+  }
+}
+
+/**
+ * 重试策略
+ */
+export interface RetryPolicy {
+  /** 最大尝试次数（含首次） */
+  maxAttempts: number;
+  /** 首次重试前的等待时间（毫秒） */
+  initialDelayMs: number;
+  /** 单次等待时间上限（毫秒） */
+  maxDelayMs: number;
+  /** 等待时间增长倍数 */
+  backoffFactor: number;
+}
+
+/**
+ * 默认重试策略
+ * 可通过 HDC_RETRY_ATTEMPTS / HDC_RETRY_DELAY 环境变量调整
+ */
+export function defaultRetryPolicy(): RetryPolicy {
+  const attempts = parseInt(process.env.HDC_RETRY_ATTEMPTS || '', 10);
+  const delay = parseInt(process.env.HDC_RETRY_DELAY || '', 10);
+
+  return {
+    maxAttempts: attempts >= 1 ? attempts : 3,
+    initialDelayMs: delay >= 0 ? delay : 300,
+    maxDelayMs: 5000,
+    backoffFactor: 2,
+  };
+}
+
+/**
+ * 计算第 n 次重试前的等待时间
+ * @param policy 重试策略
+ * @param retry 重试序号（从 1 开始）
+ */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffFactor, retry - 1);
+  return Math.min(policy.maxDelayMs, Math.round(delay));
+}
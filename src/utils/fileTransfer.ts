@@ -0,0 +1,96 @@
+import { mkdir, stat } from 'fs/promises';
+import { dirname, posix } from 'path';
+import { HDC } from './hdc.js';
+import { Workspace } from './workspace.js';
+import { Logger } from './logger.js';
+
+/**
+ * 文件传输结果
+ */
+export interface TransferResult {
+  direction: 'push' | 'pull';
+  /** 本地绝对路径（位于工作区内） */
+  localPath: string;
+  remotePath: string;
+  bytes: number;
+  /** 本地文件 SHA-256 */
+  sha256: string;
+  /** 设备文件 SHA-256，设备不支持 sha256sum 时为空 */
+  remoteSha256?: string;
+  /** 两端摘要是否一致，无法校验时为空 */
+  verified?: boolean;
+  durationMs: number;
+}
+
+/**
+ * 设备文件传输
+ * 在 HDC 的 file send/recv 之上套用工作区的路径与大小限制，并校验两端摘要
+ */
+export class FileTransfer {
+  private hdc: HDC;
+  private workspace: Workspace;
+
+  constructor(hdc: HDC, workspace: Workspace = new Workspace()) {
+    this.hdc = hdc;
+    this.workspace = workspace;
+  }
+
+  /**
+   * 推送工作区文件到设备
+   * @param localPath 相对于工作区的本地路径
+   * @param remotePath 设备保存路径（需在允许列表中）
+   */
+  async push(localPath: string, remotePath: string): Promise<TransferResult> {
+    const local = await this.workspace.resolveLocal(localPath);
+    const remote = this.workspace.checkRemote(remotePath);
+
+    const info = await stat(local).catch(() => null);
+    if (!info || !info.isFile()) {
+      throw new Error(`本地文件不存在: ${localPath}`);
+    }
+    this.workspace.checkSize(info.size);
+
+    const startedAt = Date.now();
+    await this.hdc.pushFile(local, remote);
+    return this.verify('push', local, remote, startedAt);
+  }
+
+  /**
+   * 从设备拉取文件到工作区
+   * @param remotePath 设备文件路径（需在允许列表中）
+   * @param localPath 相对于工作区的本地路径，默认使用设备文件名
+   */
+  async pull(remotePath: string, localPath?: string): Promise<TransferResult> {
+    const remote = this.workspace.checkRemote(remotePath);
+    const local = await this.workspace.resolveLocal(localPath || posix.basename(remote));
+
+    this.workspace.checkSize(await this.hdc.getRemoteFileSize(remote));
+
+    await mkdir(dirname(local), { recursive: true });
+    const startedAt = Date.now();
+    await this.hdc.pullFile(remote, local);
+    return this.verify('pull', local, remote, startedAt);
+  }
+
+  /**
+   * 计算两端摘要并生成传输结果
+   */
+  private async verify(
+    direction: TransferResult['direction'],
+    localPath: string,
+    remotePath: string,
+    startedAt: number
+  ): Promise<TransferResult> {
+    const durationMs = Date.now() - startedAt;
+    const { size } = await stat(localPath);
+    const sha256 = await Workspace.sha256(localPath);
+    const remoteSha256 = await this.hdc.getRemoteChecksum(remotePath);
+    const verified = remoteSha256 ? remoteSha256 === sha256 : undefined;
+
+    if (verified === false) {
+      Logger.warn(`文件摘要不一致: ${localPath} (${sha256}) / ${remotePath} (${remoteSha256})`);
+    }
+
+    return { direction, localPath, remotePath, bytes: size, sha256, remoteSha256, verified, durationMs };
+  }
+}
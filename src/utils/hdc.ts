@@ -1,15 +1,50 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { randomBytes } from 'crypto';
+import { readFile, unlink } from 'fs/promises';
+import { setTimeout as sleep } from 'timers/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TargetsParser, DeviceTarget } from '../parsers/targets.js';
+import { DisplayManagerParser, DeviceInfo, DEVICE_PARAM_KEYS } from '../parsers/displayManager.js';
+import { BundleManagerParser, BundleInfo, MainAbility } from '../parsers/bundleManager.js';
+import { AbilityManagerParser, AbilityRecord } from '../parsers/abilityManager.js';
+import { AccessTokenParser, AccessTokenInfo } from '../parsers/accessToken.js';
+import { HilogParser, HilogEntry, HilogLevel } from '../parsers/hilog.js';
+import { WindowManagerParser, WindowInfo } from '../parsers/windowManager.js';
+import { ProcessStatsParser, CpuUsage, MemoryUsage } from '../parsers/processStats.js';
+import { FpsParser, FpsRecords, FpsReport } from '../parsers/fps.js';
+import { summarize, SeriesSummary } from './statistics.js';
+import { ImageProcessor, RawImage } from './image.js';
+import { FaultLogParser, FaultLog, FaultLogFile, FaultLogType, FAULT_LOG_TYPES } from '../parsers/faultLog.js';
+import { LogCapture, LogCaptureOptions, LogQuery, LogReadResult } from './logCapture.js';
+import { createTransport, HdcTransport, RecordingTransport } from '../transport/index.js';
+import { ShellCommand } from './shellCommand.js';
+import { Logger } from './logger.js';
+import { HdcError, HdcErrorCode, RetryPolicy, defaultRetryPolicy, retryDelay } from './errors.js';
+import { CommandQueue, CommandKind, CommandPriority } from './commandQueue.js';
 
 // 常量定义
-const DEFAULT_BUFFER_SIZE = 10 * 1024 * 1024; // 10MB buffer
 const DEFAULT_COMMAND_TIMEOUT = 30000; // 默认命令超时 30 秒
 const MAX_COORDINATE_VALUE = 100000; // 坐标最大值（用于验证）
-const DEFAULT_SCREEN_WIDTH = 905; // 默认显示宽度
-const DEFAULT_SCREEN_HEIGHT = 2000; // 默认显示高度
 const DEFAULT_RESTART_DELAY = 500; // 重启应用延迟（毫秒）
+const START_VERIFY_TIMEOUT = 5000; // 启动应用后等待进入前台的超时（毫秒）
+const START_VERIFY_INTERVAL = 300; // 检查应用是否进入前台的间隔（毫秒）
+const MAX_URI_LENGTH = 4096; // URI 最大长度
+const DEFAULT_URI_ACTION = 'ohos.want.action.viewData'; // 打开 URI 时默认使用的 Want action
+const TARGET_CACHE_TTL = 10000; // 自动选择设备的缓存时间（毫秒）
+const FILE_TRANSFER_TIMEOUT = 120000; // 文件传输超时 2 分钟
+const INSTALL_TIMEOUT = 180000; // 应用安装超时 3 分钟
+const DEFAULT_ACTION_LOG_SETTLE = 1000; // 操作完成后继续等待日志的时间（毫秒）
+const DEFAULT_ACTION_LOG_LEVEL: HilogLevel = 'I'; // 操作日志默认最低级别
+const DEFAULT_ACTION_LOG_LIMIT = 100; // 操作日志默认最多返回条数
+const FAULT_LOG_DIR = '/data/log/faultlog/faultlogger'; // faultlogger 故障日志目录
+const DEFAULT_CRASH_LOG_LIMIT = 10; // 故障日志默认最多返回条数
+const DEFAULT_SAMPLE_INTERVAL = 1000; // 进程资源默认采样间隔（毫秒）
+const MIN_SAMPLE_INTERVAL = 200; // 进程资源最小采样间隔（毫秒）
+const MAX_SAMPLES = 600; // 进程资源最大采样次数
+const DEFAULT_FPS_DURATION = 3000; // 帧率默认测量时长（毫秒）
+const DEFAULT_FPS_SETTLE = 1000; // 执行操作后继续测量帧率的时长（毫秒）
+const MAX_FPS_DURATION = 60000; // 帧率最大测量时长（毫秒）
+const SCREENSHOT_REMOTE_DIR = '/data/local/tmp'; // 设备端截图临时目录
 
 /**
  * 验证器类
@@ -41,6 +76,89 @@ class Validator {
     }
   }
 
+  /**
+   * 验证模块名称
+   */
+  static validateModuleName(moduleName: string): void {
+    if (!moduleName || typeof moduleName !== 'string') {
+      throw new Error('moduleName 必须是非空字符串');
+    }
+    if (!/^[a-zA-Z][a-zA-Z0-9_]*$/.test(moduleName)) {
+      throw new Error(`moduleName 格式无效: ${moduleName}`);
+    }
+  }
+
+  /**
+   * 验证权限名称
+   * 只允许字母、数字、点、下划线（如 ohos.permission.CAMERA）
+   */
+  static validatePermissionName(permission: string): void {
+    if (!permission || typeof permission !== 'string') {
+      throw new Error('权限名称必须是非空字符串');
+    }
+    if (!/^[a-zA-Z][a-zA-Z0-9._]*$/.test(permission)) {
+      throw new Error(`权限名称格式无效: ${permission}`);
+    }
+  }
+
+  /**
+   * 验证 URI
+   * 必须带 scheme，不允许空白与控制字符
+   */
+  static validateUri(uri: string): void {
+    if (!uri || typeof uri !== 'string') {
+      throw new Error('uri 必须是非空字符串');
+    }
+    if (uri.length > MAX_URI_LENGTH) {
+      throw new Error(`uri 长度超过 ${MAX_URI_LENGTH} 个字符`);
+    }
+    if (!/^[a-zA-Z][a-zA-Z0-9+.\-]*:\S+$/.test(uri) || /[\x00-\x1f\x7f]/.test(uri)) {
+      throw new Error(`uri 格式无效: ${uri}`);
+    }
+  }
+
+  /**
+   * 验证 Want action / entity
+   * 只允许字母、数字、点、下划线（如 ohos.want.action.viewData、entity.system.browsable）
+   */
+  static validateWantName(value: string, name: string): void {
+    if (!value || typeof value !== 'string') {
+      throw new Error(`${name} 必须是非空字符串`);
+    }
+    if (!/^[a-zA-Z][a-zA-Z0-9._]*$/.test(value)) {
+      throw new Error(`${name} 格式无效: ${value}`);
+    }
+  }
+
+  /**
+   * 验证 Want 参数
+   * 键只允许字母、数字、点、下划线；字符串值不能以 "-" 开头（避免被 aa 当作选项）且不能包含换行；
+   * 数字值必须是整数（aa 只支持 --pi 整数参数）
+   */
+  static validateWantParams(params: Record<string, unknown>): void {
+    if (!params || typeof params !== 'object' || Array.isArray(params)) {
+      throw new Error('params 必须是键值对象');
+    }
+
+    for (const [key, value] of Object.entries(params)) {
+      if (!/^[a-zA-Z_][a-zA-Z0-9._]*$/.test(key)) {
+        throw new Error(`参数名格式无效: ${key}`);
+      }
+
+      if (typeof value === 'string') {
+        if (value.startsWith('-') || /[\x00\r\n]/.test(value)) {
+          throw new Error(`参数 ${key} 的值无效: ${value}`);
+        }
+      } else if (typeof value === 'number') {
+        if (!Number.isSafeInteger(value)) {
+          throw new Error(`参数 ${key} 必须是整数: ${value}`);
+        }
+      } else if (typeof value !== 'boolean' && value !== null) {
+        throw new Error(`参数 ${key} 的类型不支持（仅支持字符串、整数、布尔值与 null）`);
+      }
+    }
+  }
+
   /**
    * 验证坐标值
    */
@@ -62,6 +180,60 @@ class Validator {
     }
   }
 
+  /**
+   * 验证设备序列号
+   * 允许 USB 序列号以及 ip:port 形式的网络设备
+   */
+  static validateDeviceId(deviceId: string): void {
+    if (!deviceId || typeof deviceId !== 'string') {
+      throw new Error('deviceId 必须是非空字符串');
+    }
+    if (!/^[a-zA-Z0-9._:\-]+$/.test(deviceId)) {
+      throw new Error(`deviceId 格式无效: ${deviceId}`);
+    }
+  }
+
+  /**
+   * 验证应用安装包路径
+   * 只允许 .hap / .hsp 文件
+   */
+  static validatePackagePath(path: string): void {
+    this.validateFilePath(path);
+    if (!/\.(hap|hsp)$/i.test(path)) {
+      throw new Error(`安装包必须是 .hap 或 .hsp 文件: ${path}`);
+    }
+  }
+
+  /**
+   * 验证进程 ID
+   */
+  static validatePid(pid: number): void {
+    if (!Number.isInteger(pid) || pid <= 0) {
+      throw new Error(`pid 必须是正整数: ${pid}`);
+    }
+  }
+
+  /**
+   * 验证图层名称（如 rnsurface0）
+   */
+  static validateSurfaceName(surface: string): void {
+    if (!surface || typeof surface !== 'string') {
+      throw new Error('surface 必须是非空字符串');
+    }
+    if (!/^[a-zA-Z0-9_.\-]+$/.test(surface)) {
+      throw new Error(`surface 格式无效: ${surface}`);
+    }
+  }
+
+  /**
+   * 验证设备本地时间（YYYY-MM-DD HH:mm[:ss]）
+   */
+  static validateDateTime(value: string, name: string): void {
+    if (!value || typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}( \d{2}:\d{2}(:\d{2})?)?$/.test(value)) {
+      throw new Error(`${name} 格式无效（应为 YYYY-MM-DD HH:mm:ss）: ${value}`);
+    }
+  }
+
   /**
    * 验证文件路径
    */
@@ -73,28 +245,220 @@ class Validator {
 }
 
 /**
- * 日志记录器
+ * HDC 构造选项
  */
-class Logger {
-  private static isDebugMode = process.env.DEBUG === 'true';
+export interface HDCOptions {
+  /** hdc 可执行文件路径，默认读取 HDC_PATH 环境变量 */
+  hdcPath?: string;
+  /** 绑定的设备序列号，未指定时自动选择唯一在线设备 */
+  deviceId?: string;
+  /** 传输层实现，默认根据 HDC_TRANSPORT 环境变量创建 */
+  transport?: HdcTransport;
+  /** 是否使用常驻 shell 会话，默认读取 HDC_PERSISTENT_SHELL 环境变量 */
+  persistentShell?: boolean;
+  /** 瞬时错误（设备离线、超时）的重试策略 */
+  retryPolicy?: Partial<RetryPolicy>;
+}
 
-  static debug(message: string, ...args: unknown[]): void {
-    if (this.isDebugMode) {
-      console.error(`[DEBUG] ${message}`, ...args);
-    }
-  }
+/**
+ * 命令执行选项
+ */
+export interface CommandOptions {
+  /** 命令类型，默认 input（严格串行、不合并） */
+  kind?: CommandKind;
+  /** 排队优先级，默认 normal */
+  priority?: CommandPriority;
+}
 
-  static info(message: string, ...args: unknown[]): void {
-    console.error(`[INFO] ${message}`, ...args);
-  }
+/**
+ * 应用操作结果
+ */
+export interface OperationResult {
+  success: boolean;
+  message: string;
+  /** 失败时的错误码 */
+  errorCode?: HdcErrorCode;
+  /** 失败时的处理建议 */
+  hint?: string;
+}
 
-  static warn(message: string, ...args: unknown[]): void {
-    console.error(`[WARN] ${message}`, ...args);
-  }
+/**
+ * 应用安装选项
+ */
+export interface InstallOptions {
+  /** 覆盖安装已存在的应用 */
+  replace?: boolean;
+  /** 允许安装低于当前版本号的安装包 */
+  downgrade?: boolean;
+}
 
-  static error(message: string, ...args: unknown[]): void {
-    console.error(`[ERROR] ${message}`, ...args);
-  }
+/**
+ * Want 参数值
+ * 字符串对应 --ps，整数对应 --pi，布尔值对应 --pb，null 对应 --psn
+ */
+export type WantParamValue = string | number | boolean | null;
+
+/**
+ * 应用启动选项
+ */
+export interface StartAppOptions {
+  /** Ability 名称，未指定时从应用包信息中解析入口 Ability */
+  abilityName?: string;
+  /** 模块名称 */
+  moduleName?: string;
+  /** 深度链接 URI（-U） */
+  uri?: string;
+  /** Want action（-A） */
+  action?: string;
+  /** Want entities（-e） */
+  entities?: string[];
+  /** Want 参数 */
+  params?: Record<string, WantParamValue>;
+  /** 是否等待应用进入前台后再返回，默认 true */
+  verify?: boolean;
+}
+
+/**
+ * 打开 URI 选项
+ */
+export interface OpenUriOptions {
+  /** 限定处理 URI 的应用包名 */
+  bundleName?: string;
+  /** Want action，默认 ohos.want.action.viewData */
+  action?: string;
+  /** Want entities（-e） */
+  entities?: string[];
+}
+
+/**
+ * 应用数据清理范围
+ * - data: 应用数据（bm clean -d）
+ * - cache: 应用缓存（bm clean -c）
+ * - all: 数据与缓存
+ */
+export type ClearScope = 'data' | 'cache' | 'all';
+
+/**
+ * 应用重置选项
+ */
+export interface ResetAppOptions {
+  /** 清理范围，默认 all */
+  scope?: ClearScope;
+  /** 清理后授予的权限 */
+  grantPermissions?: string[];
+}
+
+/**
+ * 操作日志采集选项
+ */
+export interface ActionLogOptions {
+  /** 目标应用包名，默认为操作开始时的前台应用 */
+  bundleName?: string;
+  /** 操作完成后继续等待日志的时间（毫秒），默认 1000ms */
+  settleMs?: number;
+  /** 最低日志级别，默认 I */
+  level?: HilogLevel;
+  /** 最多返回条数（保留最新的部分），默认 100 */
+  limit?: number;
+}
+
+/**
+ * 操作开始时记录的日志起点，由 beginActionLogs() 返回
+ */
+export interface ActionLogMark {
+  options: ActionLogOptions;
+  bundleName?: string;
+  /** 操作开始时目标应用的进程 ID */
+  pids: number[];
+  /** 设备时间（MM-DD HH:mm:ss） */
+  since?: string;
+  error?: string;
+}
+
+/**
+ * 操作期间目标应用输出的日志
+ */
+export interface ActionLogs {
+  bundleName?: string;
+  since?: string;
+  entries: HilogEntry[];
+  /** 匹配条件但因 limit 未返回的条数 */
+  truncated: number;
+  /** 无法获取日志的原因 */
+  error?: string;
+}
+
+/**
+ * 故障日志查询选项
+ */
+export interface CrashLogOptions {
+  /** 只返回不早于该时间的日志（设备本地时间，YYYY-MM-DD HH:mm:ss） */
+  since?: string;
+  /** 故障类型，默认全部 */
+  types?: FaultLogType[];
+  /** 最多返回条数（最新的部分），默认 10 */
+  limit?: number;
+}
+
+/**
+ * 进程资源占用
+ */
+export interface ProcessStats {
+  pid: number;
+  name?: string;
+  cpu: CpuUsage | null;
+  memory: MemoryUsage | null;
+}
+
+/**
+ * 进程资源采样选项
+ */
+export interface SamplingOptions {
+  /** 采样次数，默认 10 */
+  samples?: number;
+  /** 采样间隔（毫秒），默认 1000ms */
+  intervalMs?: number;
+}
+
+/**
+ * 单次采样结果
+ */
+export interface ProcessSample {
+  /** 距开始采样的时间（毫秒） */
+  offsetMs: number;
+  /** CPU 占用率（%） */
+  cpu?: number;
+  /** PSS（kB） */
+  pss?: number;
+  /** RSS（kB） */
+  rss?: number;
+}
+
+/**
+ * 进程资源采样结果
+ */
+export interface ProcessSampling {
+  pid: number;
+  name?: string;
+  intervalMs: number;
+  samples: ProcessSample[];
+  summary: {
+    cpu: SeriesSummary | null;
+    pss: SeriesSummary | null;
+    rss: SeriesSummary | null;
+  };
+}
+
+/**
+ * 帧率测量选项
+ */
+export interface FpsMeasureOptions {
+  /** 测量时长（毫秒）；指定 action 时为操作完成后继续测量的时长，默认 3000ms / 1000ms */
+  durationMs?: number;
+  /** 测量期间执行的操作（如滑动） */
+  action?: () => Promise<unknown>;
+  /** 屏幕刷新率，默认取 RenderService 输出中的值或 60 */
+  refreshRate?: number;
 }
 
 /**
@@ -102,41 +466,311 @@ class Logger {
  */
 export class HDC {
   private hdcPath: string;
-
-  constructor(hdcPath?: string) {
+  private transportInstance?: HdcTransport;
+  private persistentShell?: boolean;
+  private retryPolicy: RetryPolicy;
+  private deviceId?: string;
+  private resolvedTarget?: { serial: string; expiresAt: number };
+  private deviceInfoCache = new Map<string, DeviceInfo>();
+  private mainAbilityCache = new Map<string, MainAbility>();
+  private logCapture?: LogCapture;
+  private queue = new CommandQueue();
+
+  constructor(options: HDCOptions | string = {}) {
+    const opts: HDCOptions = typeof options === 'string' ? { hdcPath: options } : options;
     // 从环境变量获取 hdc 路径，或使用默认的 'hdc'
-    this.hdcPath = hdcPath || process.env.HDC_PATH || 'hdc';
-    Logger.debug(`HDC 初始化完成，路径: ${this.hdcPath}`);
+    this.hdcPath = opts.hdcPath || process.env.HDC_PATH || 'hdc';
+    this.transportInstance = opts.transport;
+    this.persistentShell = opts.persistentShell;
+    this.retryPolicy = { ...defaultRetryPolicy(), ...opts.retryPolicy };
+    if (opts.deviceId) {
+      Validator.validateDeviceId(opts.deviceId);
+      this.deviceId = opts.deviceId;
+    }
+    Logger.debug(`HDC 初始化完成，路径: ${this.hdcPath}${this.deviceId ? `，设备: ${this.deviceId}` : ''}`);
+  }
+
+  /**
+   * 传输层，首次使用时根据环境变量创建
+   * 环境变量配置错误（如 HDC_TRANSPORT=replay 但未指定 HDC_CASSETTE_DIR）时，
+   * 只在执行命令时报错，不影响导入本模块
+   */
+  private get transport(): HdcTransport {
+    if (!this.transportInstance) {
+      try {
+        this.transportInstance = createTransport(this.hdcPath, { persistentShell: this.persistentShell });
+      } catch (error) {
+        throw new HdcError('COMMAND_FAILED', `传输层配置错误: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      Logger.debug(`创建传输层: ${this.transportInstance.name}`);
+    }
+    return this.transportInstance;
+  }
+
+  private set transport(transport: HdcTransport) {
+    this.transportInstance = transport;
+  }
+
+  /**
+   * 列出已连接的设备
+   * @param transport 传输层实现，默认根据环境变量创建
+   * @returns 设备信息数组
+   */
+  static async listTargets(transport?: HdcTransport): Promise<DeviceTarget[]> {
+    try {
+      const runner = transport || createTransport(process.env.HDC_PATH || 'hdc');
+      const { stdout, stderr, exitCode } = await runner.exec(['list', 'targets', '-v'], {
+        timeout: DEFAULT_COMMAND_TIMEOUT,
+      });
+      if (exitCode !== 0) {
+        throw new HdcError('COMMAND_FAILED', stderr || stdout || `exit code ${exitCode}`);
+      }
+      return TargetsParser.parse(stdout);
+    } catch (error) {
+      const hdcError = HdcError.from(error);
+      Logger.error(`获取设备列表失败 [${hdcError.code}]: ${hdcError.message}`);
+      throw new HdcError(hdcError.code, `Failed to list targets: ${hdcError.message}`);
+    }
+  }
+
+  /**
+   * 开始录制设备命令
+   * 每条命令及其输出写入录制目录，可直接作为回放数据使用
+   * @param dir 录制目录
+   * @throws 已在录制时抛出错误
+   */
+  startRecording(dir: string): void {
+    Validator.validateFilePath(dir);
+    if (this.transport instanceof RecordingTransport) {
+      throw new Error(`已在录制中: ${this.transport.getDir()}`);
+    }
+    this.transport = new RecordingTransport(this.transport, dir);
+    Logger.info(`开始录制设备命令: ${dir}`);
+  }
+
+  /**
+   * 停止录制设备命令
+   * @returns 录制目录与命令数；未在录制时返回 null
+   */
+  async stopRecording(): Promise<{ dir: string; commandCount: number } | null> {
+    if (!(this.transportInstance instanceof RecordingTransport)) {
+      return null;
+    }
+    const recorder = this.transportInstance;
+    this.transport = recorder.getInner();
+    await recorder.flush();
+    Logger.info(`停止录制设备命令: ${recorder.getDir()} (${recorder.getCount()} 条)`);
+    return { dir: recorder.getDir(), commandCount: recorder.getCount() };
+  }
+
+  /**
+   * 是否正在录制
+   */
+  isRecording(): boolean {
+    return this.transportInstance instanceof RecordingTransport;
+  }
+
+  /**
+   * 释放资源：停止日志采集、取消排队中的命令、停止录制并关闭常驻 shell 会话
+   */
+  async close(): Promise<void> {
+    this.logCapture?.stop();
+    this.queue.cancelAll('HDC closed');
+    await this.stopRecording();
+    this.transportInstance?.close?.();
+  }
+
+  /**
+   * 获取绑定的设备序列号（未绑定时返回 undefined）
+   */
+  getDeviceId(): string | undefined {
+    return this.deviceId;
+  }
+
+  /**
+   * 解析本次命令的目标设备
+   * 已绑定设备时直接使用；否则要求当前只连接了一台设备
+   * @returns 设备序列号
+   * @throws 没有设备或连接了多台设备时抛出错误
+   */
+  async resolveTarget(): Promise<string> {
+    if (this.deviceId) {
+      return this.deviceId;
+    }
+
+    if (this.resolvedTarget && this.resolvedTarget.expiresAt > Date.now()) {
+      return this.resolvedTarget.serial;
+    }
+
+    const targets = TargetsParser.getConnected(await HDC.listTargets(this.transport));
+    if (targets.length === 0) {
+      throw new HdcError('NO_DEVICE', '未检测到已连接的设备，请确认设备已通过 hdc 连接');
+    }
+    if (targets.length > 1) {
+      const serials = targets.map(t => t.serial).join(', ');
+      throw new HdcError('MULTIPLE_DEVICES', `检测到 ${targets.length} 台设备 (${serials})，请通过 deviceId 参数指定目标设备`);
+    }
+
+    this.resolvedTarget = { serial: targets[0].serial, expiresAt: Date.now() + TARGET_CACHE_TTL };
+    Logger.debug(`自动选择设备: ${targets[0].serial}`);
+    return targets[0].serial;
+  }
+
+  /**
+   * 在请求上下文中执行函数，期间发出的命令在信号取消时一并取消
+   * @param signal 取消信号（如 MCP 请求的 signal）
+   * @param fn 要执行的函数
+   */
+  static withSignal<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+    return CommandQueue.runWithSignal(signal, fn);
+  }
+
+  /**
+   * 取消本设备所有排队中与执行中的命令
+   * @param reason 取消原因
+   */
+  cancelAll(reason?: string): void {
+    this.queue.cancelAll(reason);
+  }
+
+  /**
+   * 对目标设备执行 hdc 命令
+   * 通过传输层执行，真实 hdc 以参数数组启动，不经过本地 shell。
+   * 命令经过本设备的命令队列串行发送，瞬时错误按重试策略自动退避重试：
+   * 只读查询在设备离线、超时时重试；其余命令只在确定未送达设备（设备离线）时重试
+   * @param args hdc 参数（不含 -t），例如 ['file', 'recv', remote, local]
+   * @param timeout 超时时间（毫秒）
+   * @param options 命令类型与优先级
+   * @returns 命令标准输出与标准错误
+   * @throws HdcError 命令失败时抛出带错误码的错误
+   */
+  private exec(
+    args: string[],
+    timeout: number = DEFAULT_COMMAND_TIMEOUT,
+    options: CommandOptions = {}
+  ): Promise<{ stdout: string; stderr: string }> {
+    const kind = options.kind || 'input';
+    return this.queue.enqueue((signal) => this.execWithRetry(args, timeout, kind, signal), {
+      kind,
+      key: kind === 'read' ? args.join('\0') : undefined,
+      priority: options.priority,
+    });
+  }
+
+  /**
+   * 执行命令，瞬时错误按重试策略退避重试
+   */
+  private async execWithRetry(
+    args: string[],
+    timeout: number,
+    kind: CommandKind,
+    signal: AbortSignal
+  ): Promise<{ stdout: string; stderr: string }> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const target = await this.resolveTarget();
+        return await this.execOnce(args, target, timeout, signal);
+      } catch (error) {
+        const hdcError = HdcError.from(error);
+        if (!this.canRetry(hdcError, kind) || attempt >= this.retryPolicy.maxAttempts || signal.aborted) {
+          throw hdcError;
+        }
+
+        // 设备可能已重新连接，重新选择设备
+        this.resolvedTarget = undefined;
+        const delay = retryDelay(this.retryPolicy, attempt);
+        Logger.warn(`命令失败 [${hdcError.code}]，${delay}ms 后进行第 ${attempt} 次重试: ${hdcError.message}`);
+        try {
+          await sleep(delay, undefined, { signal });
+        } catch (abortError) {
+          throw HdcError.from(abortError);
+        }
+      }
+    }
+  }
+
+  /**
+   * 判断失败的命令能否重试
+   * 只读查询可以安全地重复执行；其余命令超时时可能已在设备上执行，重试会导致重复点击、重复启动，
+   * 只在设备离线（hdc 连接设备阶段报告的错误，命令尚未送达）时重试
+   */
+  private canRetry(error: HdcError, kind: CommandKind): boolean {
+    if (!error.retryable) {
+      return false;
+    }
+    return kind === 'read' || error.code === 'DEVICE_OFFLINE';
+  }
+
+  /**
+   * 执行一次 hdc 命令并识别失败原因
+   */
+  private async execOnce(
+    args: string[],
+    target: string,
+    timeout: number,
+    signal: AbortSignal
+  ): Promise<{ stdout: string; stderr: string }> {
+    Logger.debug(`执行命令 [${this.transport.name}]: ${this.hdcPath} -t ${target} ${args.join(' ')}`);
+
+    let result;
+    try {
+      result = await this.transport.exec(args, { target, timeout, signal });
+    } catch (error) {
+      throw HdcError.from(error);
+    }
+
+    const { stdout, stderr, exitCode } = result;
+
+    // hdc 自身的错误（设备未连接、未授权等）以 [Fail] 开头打印在 stdout 中，且退出码为 0
+    if (stdout.trimStart().startsWith('[Fail]')) {
+      throw new HdcError(HdcError.classifyOutput(stdout) || 'COMMAND_FAILED', stdout.trim());
+    }
+    if (exitCode !== 0) {
+      const output = stderr || stdout;
+      throw new HdcError(
+        HdcError.classifyOutput(output, exitCode) || 'COMMAND_FAILED',
+        `Command failed with exit code ${exitCode}: ${output.trim()}`
+      );
+    }
+    return { stdout, stderr };
   }
 
   /**
    * 执行 hdc shell 命令
-   * @param command 要执行的命令
+   * 推荐传入参数数组，由 ShellCommand 统一转义后交给设备端 shell；
+   * 传入字符串时按原样作为设备端命令执行，调用方需自行保证其安全
+   * @param command 要执行的命令（参数数组或完整命令字符串）
    * @param timeout 超时时间（毫秒）
+   * @param options 命令类型与优先级，只读查询应指定 kind: 'read' 以便合并
    * @returns 命令输出
    */
-  async shell(command: string, timeout: number = DEFAULT_COMMAND_TIMEOUT): Promise<string> {
-    const fullCommand = `${this.hdcPath} shell "${command}"`;
-    Logger.debug(`执行命令: ${fullCommand}`);
+  async shell(
+    command: string | Array<string | number>,
+    timeout: number = DEFAULT_COMMAND_TIMEOUT,
+    options: CommandOptions = {}
+  ): Promise<string> {
+    const remoteCommand = Array.isArray(command) ? ShellCommand.build(command) : command;
 
     try {
-      const { stdout, stderr } = await execAsync(fullCommand, {
-        encoding: 'utf-8',
-        maxBuffer: DEFAULT_BUFFER_SIZE,
-        timeout,
-      });
+      const { stdout, stderr } = await this.exec(['shell', remoteCommand], timeout, options);
 
       if (stderr && !stdout) {
         Logger.error(`命令执行失败: ${stderr}`);
-        throw new Error(`HDC command failed: ${stderr}`);
+        throw new HdcError(HdcError.classifyOutput(stderr) || 'COMMAND_FAILED', `HDC command failed: ${stderr}`);
+      }
+
+      // hdc shell 不传递设备端退出码，命令不存在时只会输出 sh 的提示
+      const firstLine = stdout.split('\n', 1)[0];
+      if (/^(\/bin\/)?sh: .*not found/.test(firstLine)) {
+        throw new HdcError('COMMAND_NOT_FOUND', firstLine.trim());
       }
 
       Logger.debug(`命令执行成功`);
       return stdout;
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      Logger.error(`命令执行异常: ${errorMsg}`);
-      throw new Error(`HDC shell command failed: ${errorMsg}`);
+      const hdcError = HdcError.from(error);
+      Logger.error(`命令执行异常 [${hdcError.code}]: ${hdcError.message}`);
+      throw new HdcError(hdcError.code, `HDC shell command failed: ${hdcError.message}`);
     }
   }
 
@@ -147,23 +781,74 @@ export class HDC {
    * @returns 命令输出
    */
   async hidumper(service: string, args: string): Promise<string> {
-    return this.shell(`hidumper -s ${service} -a '${args}'`);
+    return this.shell(['hidumper', '-s', service, '-a', args], DEFAULT_COMMAND_TIMEOUT, { kind: 'read' });
   }
 
   /**
    * 获取窗口列表
    */
   async listWindows(): Promise<string> {
-    return this.shell(`hidumper -s WindowManagerService -a -a`);
+    return this.shell(['hidumper', '-s', 'WindowManagerService', '-a', '-a'], DEFAULT_COMMAND_TIMEOUT, { kind: 'read' });
+  }
+
+  /**
+   * 获取最上层窗口（zOrder 最大）
+   * @returns 窗口信息，没有窗口时返回 null
+   */
+  async getTopWindow(): Promise<WindowInfo | null> {
+    return WindowManagerParser.getTopWindow(WindowManagerParser.parse(await this.listWindows()));
+  }
+
+  /**
+   * 获取设备信息（型号、系统版本、API 级别、显示屏参数）
+   * 结果按设备序列号缓存
+   * @param refresh 是否忽略缓存重新读取
+   * @returns 设备信息
+   */
+  async getDeviceInfo(refresh: boolean = false): Promise<DeviceInfo> {
+    const serial = await this.resolveTarget();
+    const cached = this.deviceInfoCache.get(serial);
+    if (cached && !refresh) {
+      return cached;
+    }
+
+    const keys: string[] = Object.values(DEVICE_PARAM_KEYS);
+    // 每条 param get 输出一行，合并为一次 shell 调用
+    const paramsOutput = await this.shell(
+      keys.map(key => ShellCommand.build(['param', 'get', key])).join('; '),
+      DEFAULT_COMMAND_TIMEOUT,
+      { kind: 'read' }
+    );
+    const params = DisplayManagerParser.parseParams(paramsOutput, keys);
+
+    const displayOutput = await this.shell(
+      ['hidumper', '-s', 'DisplayManagerService', '-a', '-a'],
+      DEFAULT_COMMAND_TIMEOUT,
+      { kind: 'read' }
+    );
+    const displays = DisplayManagerParser.parse(displayOutput);
+
+    const info = DisplayManagerParser.toDeviceInfo(serial, params, displays);
+    this.deviceInfoCache.set(serial, info);
+    Logger.debug(`获取设备信息: ${info.model || 'unknown'} (API ${info.apiLevel ?? '?'}), 显示屏 ${displays.length} 个`);
+    return info;
   }
 
   /**
    * 获取屏幕分辨率
+   * 优先使用 DisplayManagerService 中的主显示屏尺寸，
+   * 无法解析时退回到窗口列表中最大的窗口尺寸
    * @returns 屏幕分辨率 {width, height}
    * @throws 如果无法获取分辨率则抛出错误
    */
   async getScreenResolution(): Promise<{ width: number; height: number }> {
     try {
+      const info = await this.getDeviceInfo();
+      if (info.screen) {
+        return { width: info.screen.width, height: info.screen.height };
+      }
+
+      Logger.warn('DisplayManagerService 中没有显示屏信息，使用窗口列表估算屏幕分辨率');
       const output = await this.listWindows();
       const lines = output.split('\n');
 
@@ -191,28 +876,30 @@ export class HDC {
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       Logger.error(`获取屏幕分辨率失败: ${errorMsg}`);
-      throw new Error(`Failed to get screen resolution: ${errorMsg}`);
+      throw new HdcError(HdcError.from(error).code, `Failed to get screen resolution: ${errorMsg}`);
     }
   }
 
   /**
    * 将显示坐标转换为屏幕坐标
+   * 未指定显示尺寸时，按设备虚拟像素比把 vp 坐标转换为 px
    * @param displayX 显示尺寸中的 X 坐标
    * @param displayY 显示尺寸中的 Y 坐标
-   * @param displayWidth 显示宽度（默认 905）
-   * @param displayHeight 显示高度（默认 2000）
+   * @param displayWidth 显示宽度（默认为屏幕宽度 / 虚拟像素比）
+   * @param displayHeight 显示高度（默认为屏幕高度 / 虚拟像素比）
    * @returns 实际屏幕坐标
    */
   async convertToScreenCoordinates(
     displayX: number,
     displayY: number,
-    displayWidth: number = DEFAULT_SCREEN_WIDTH,
-    displayHeight: number = DEFAULT_SCREEN_HEIGHT
+    displayWidth?: number,
+    displayHeight?: number
   ): Promise<{ x: number; y: number }> {
     try {
       const resolution = await this.getScreenResolution();
-      const scaleX = resolution.width / displayWidth;
-      const scaleY = resolution.height / displayHeight;
+      const density = (await this.getDeviceInfo()).screen?.density || 1;
+      const scaleX = resolution.width / (displayWidth || resolution.width / density);
+      const scaleY = resolution.height / (displayHeight || resolution.height / density);
 
       return {
         x: Math.round(displayX * scaleX),
@@ -235,10 +922,11 @@ export class HDC {
   }
 
   /**
-   * 获取应用列表
+   * 获取 Ability 实例列表（hidumper -s AbilityManagerService -a -a）
+   * 输出由 AbilityManagerParser 解析
    */
   async listAbilities(): Promise<string> {
-    return this.shell(`hidumper -s AbilityManagerService`);
+    return this.hidumper('AbilityManagerService', '-a');
   }
 
   /**
@@ -251,33 +939,138 @@ export class HDC {
     Validator.validateFilePath(localPath);
 
     Logger.debug(`截图到 ${remotePath}`);
-    await this.shell(`snapshot_display -f ${remotePath}`);
+    await this.shell(['snapshot_display', '-f', remotePath]);
 
     Logger.debug(`从设备拉取截图到 ${localPath}`);
-    const { stdout } = await execAsync(
-      `${this.hdcPath} file recv ${remotePath} ${localPath}`,
-      {
-        encoding: 'utf-8',
-        timeout: DEFAULT_COMMAND_TIMEOUT,
-      }
-    );
+    const { stdout } = await this.exec(['file', 'recv', remotePath, localPath]);
 
     Logger.info('截图完成');
     return stdout;
   }
 
   /**
-   * 点击屏幕指定位置
-   * @param x X坐标
-   * @param y Y坐标
+   * 截图到本地文件
+   * 每次调用使用唯一的设备临时文件，拉取后删除，避免并发截图互相覆盖
+   * @param localPath 本地保存路径
+   * @returns hdc 传输输出
    */
-  async tap(x: number, y: number): Promise<string> {
-    Validator.validateCoordinate(x, 'x');
-    Validator.validateCoordinate(y, 'y');
-
-    Logger.debug(`点击坐标 (${x}, ${y})`);
-    return await this.shell(`uitest uiInput click ${Math.round(x)} ${Math.round(y)}`);
-  }
+  async captureScreenshot(localPath: string): Promise<string> {
+    const remotePath = `${SCREENSHOT_REMOTE_DIR}/screenshot-${randomBytes(8).toString('hex')}.jpeg`;
+
+    try {
+      return await this.screenshot(remotePath, localPath);
+    } finally {
+      await this.shell(['rm', '-f', remotePath]).catch(error => {
+        Logger.warn(`删除设备临时截图失败: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+
+  /**
+   * 截图并解码为像素数据（本地临时文件在解码后删除）
+   * @returns RGBA 像素数据
+   */
+  async captureScreenImage(): Promise<RawImage> {
+    const localPath = join(tmpdir(), `harmonyos-ui-screen-${randomBytes(8).toString('hex')}.jpeg`);
+    try {
+      await this.captureScreenshot(localPath);
+      return ImageProcessor.decode(await readFile(localPath));
+    } finally {
+      await unlink(localPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * 推送本地文件到设备
+   * @param localPath 本地文件路径
+   * @param remotePath 设备保存路径
+   * @returns hdc 传输输出
+   */
+  async pushFile(localPath: string, remotePath: string): Promise<string> {
+    Validator.validateFilePath(localPath);
+    Validator.validateFilePath(remotePath);
+
+    Logger.debug(`推送文件 ${localPath} -> ${remotePath}`);
+    const { stdout } = await this.exec(['file', 'send', localPath, remotePath], FILE_TRANSFER_TIMEOUT);
+    this.checkTransferOutput(stdout);
+    return stdout;
+  }
+
+  /**
+   * 从设备拉取文件
+   * @param remotePath 设备文件路径
+   * @param localPath 本地保存路径
+   * @returns hdc 传输输出
+   */
+  async pullFile(remotePath: string, localPath: string): Promise<string> {
+    Validator.validateFilePath(remotePath);
+    Validator.validateFilePath(localPath);
+
+    Logger.debug(`拉取文件 ${remotePath} -> ${localPath}`);
+    const { stdout } = await this.exec(['file', 'recv', remotePath, localPath], FILE_TRANSFER_TIMEOUT);
+    this.checkTransferOutput(stdout);
+    return stdout;
+  }
+
+  /**
+   * 获取设备文件大小
+   * @param remotePath 设备文件路径
+   * @returns 文件字节数
+   */
+  async getRemoteFileSize(remotePath: string): Promise<number> {
+    Validator.validateFilePath(remotePath);
+
+    const output = (await this.shell(['stat', '-c', '%s', remotePath], DEFAULT_COMMAND_TIMEOUT, { kind: 'read' })).trim();
+    const size = parseInt(output);
+    if (!/^\d+$/.test(output) || isNaN(size)) {
+      throw new HdcError('COMMAND_FAILED', `无法获取设备文件大小: ${output || remotePath}`);
+    }
+    return size;
+  }
+
+  /**
+   * 计算设备文件的 SHA-256
+   * @param remotePath 设备文件路径
+   * @returns 十六进制摘要，设备不支持 sha256sum 时返回 undefined
+   */
+  async getRemoteChecksum(remotePath: string): Promise<string | undefined> {
+    Validator.validateFilePath(remotePath);
+
+    try {
+      const output = await this.shell(['sha256sum', remotePath], DEFAULT_COMMAND_TIMEOUT, { kind: 'read' });
+      return output.match(/^([0-9a-f]{64})\b/im)?.[1]?.toLowerCase();
+    } catch (error) {
+      if (HdcError.from(error).code === 'COMMAND_NOT_FOUND') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 检查 hdc file send/recv 的输出
+   * 传输失败时 hdc 可能不以 [Fail] 开头，而是输出错误描述
+   */
+  private checkTransferOutput(output: string): void {
+    if (!/FileTransfer finish/i.test(output) && /\b(fail|error)/i.test(output)) {
+      throw new HdcError(HdcError.classifyOutput(output) || 'COMMAND_FAILED', `File transfer failed: ${output.trim()}`);
+    }
+  }
+
+  /**
+   * 点击屏幕指定位置
+   * @param x X坐标
+   * @param y Y坐标
+   */
+  async tap(x: number, y: number): Promise<string> {
+    Validator.validateCoordinate(x, 'x');
+    Validator.validateCoordinate(y, 'y');
+
+    Logger.debug(`点击坐标 (${x}, ${y})`);
+    return await this.shell(['uitest', 'uiInput', 'click', Math.round(x), Math.round(y)], DEFAULT_COMMAND_TIMEOUT, {
+      priority: 'high',
+    });
+  }
 
   /**
    * 滑动操作
@@ -301,7 +1094,9 @@ export class HDC {
     // velocity: 200-40000, default 600. 映射 duration(ms) 到 velocity
     const velocity = Math.max(200, Math.min(40000, Math.round(duration * 100)));
     return await this.shell(
-      `uitest uiInput swipe ${Math.round(x1)} ${Math.round(y1)} ${Math.round(x2)} ${Math.round(y2)} ${velocity}`
+      ['uitest', 'uiInput', 'swipe', Math.round(x1), Math.round(y1), Math.round(x2), Math.round(y2), velocity],
+      DEFAULT_COMMAND_TIMEOUT,
+      { priority: 'high' }
     );
   }
 
@@ -312,7 +1107,7 @@ export class HDC {
   async pressKey(key: string): Promise<string> {
     Validator.validateKeyName(key);
     Logger.debug(`按键: ${key}`);
-    return await this.shell(`uitest uiInput keyEvent ${key}`);
+    return await this.shell(['uitest', 'uiInput', 'keyEvent', key], DEFAULT_COMMAND_TIMEOUT, { priority: 'high' });
   }
 
   /**
@@ -326,47 +1121,88 @@ export class HDC {
       throw new Error('text 必须是非空字符串');
     }
     Logger.debug(`输入文字: ${text}`);
-    const result = await this.shell(`uitest uiInput text ${text}`);
+    const result = await this.shell(['uitest', 'uiInput', 'text', text], DEFAULT_COMMAND_TIMEOUT, { priority: 'high' });
     Logger.warn('⚠️ text 输入功能在当前设备上不可用，命令执行但没有实际效果');
     return result;
   }
 
+  /**
+   * 解析应用的桌面启动入口 Ability
+   * 从 `bm dump -n` 中查找声明 home action 的 Ability，按设备与包名缓存
+   * @param bundleName 应用包名
+   * @param refresh 是否忽略缓存重新查询
+   * @returns 入口 Ability 与所属模块
+   * @throws HdcError 应用未安装或无法确定入口 Ability 时抛出
+   */
+  async resolveMainAbility(bundleName: string, refresh: boolean = false): Promise<MainAbility> {
+    Validator.validateBundleName(bundleName);
+
+    const key = `${await this.resolveTarget()}/${bundleName}`;
+    const cached = this.mainAbilityCache.get(key);
+    if (cached && !refresh) {
+      return cached;
+    }
+
+    const info = await this.getBundleInfo(bundleName);
+    if (!info) {
+      throw new HdcError('COMMAND_FAILED', `App ${bundleName} is not installed`);
+    }
+
+    const mainAbility = BundleManagerParser.getMainAbility(info);
+    if (!mainAbility) {
+      throw new HdcError('COMMAND_FAILED', `Cannot determine the main ability of ${bundleName}, please specify abilityName`);
+    }
+
+    Logger.debug(`${bundleName} 入口 Ability: ${mainAbility.moduleName ? `${mainAbility.moduleName}/` : ''}${mainAbility.abilityName}`);
+    this.mainAbilityCache.set(key, mainAbility);
+    return mainAbility;
+  }
+
   /**
    * 启动应用
+   * 未指定 abilityName 时从 bm dump 中解析入口 Ability；
+   * 启动后轮询 Ability 转储，确认应用进入前台才返回成功
    * @param bundleName 应用包名
-   * @param abilityName Ability名称（可选）
+   * @param options Ability 名称，或包含模块、URI、action、entities、Want 参数的启动选项
    * @returns 启动结果
    */
-  async startApp(bundleName: string, abilityName?: string): Promise<{ success: boolean; message: string }> {
+  async startApp(bundleName: string, options: string | StartAppOptions = {}): Promise<OperationResult> {
+    const opts: StartAppOptions = typeof options === 'string' ? { abilityName: options } : options;
+    const { abilityName } = opts;
+
     try {
       Validator.validateBundleName(bundleName);
       if (abilityName) {
         Validator.validateAbilityName(abilityName);
       }
+      if (opts.moduleName) {
+        Validator.validateModuleName(opts.moduleName);
+      }
 
-      let command: string;
-      if (abilityName) {
-        command = `aa start -a ${abilityName} -b ${bundleName}`;
-      } else {
-        // 如果没有指定 ability，使用包名作为默认的 ability
-        command = `aa start -a ${bundleName}.MainAbility -b ${bundleName}`;
+      const target: MainAbility = abilityName
+        ? { abilityName, moduleName: opts.moduleName }
+        : await this.resolveMainAbility(bundleName);
+      const label = `${bundleName} (${target.abilityName})`;
+
+      const command = ['aa', 'start', '-a', target.abilityName, '-b', bundleName];
+      if (opts.moduleName || target.moduleName) {
+        command.push('-m', opts.moduleName || target.moduleName!);
       }
+      command.push(...this.buildWantArgs(opts));
 
-      Logger.info(`启动应用: ${bundleName}${abilityName ? ` (${abilityName})` : ''}`);
-      const stdout = await this.shell(command);
+      Logger.info(`启动应用: ${label}${opts.uri ? ` ${opts.uri}` : ''}`);
+      await this.execStart(command);
 
-      // 检查是否包含成功标记
-      if (stdout.includes('start ability successfully') || stdout.includes('successfully')) {
+      if (opts.verify !== false && !(await this.waitForForeground(bundleName, target.abilityName))) {
         return {
-          success: true,
-          message: `App ${bundleName}${abilityName ? ` (${abilityName})` : ''} started successfully`,
+          success: false,
+          message: `App ${label} start command executed, but the app did not reach the foreground within ${START_VERIFY_TIMEOUT}ms`,
         };
       }
 
-      // 即使没有明确的成功标记，如果没有错误，也认为成功
       return {
         success: true,
-        message: `App ${bundleName}${abilityName ? ` (${abilityName})` : ''} start command executed`,
+        message: `App ${label} started successfully`,
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -374,20 +1210,132 @@ export class HDC {
       return {
         success: false,
         message: `Failed to start app ${bundleName}${abilityName ? ` (${abilityName})` : ''}: ${errorMsg}`,
+        ...HdcError.details(error),
       };
     }
   }
 
+  /**
+   * 通过 URI 打开页面（隐式启动）
+   * 由系统根据 URI 与 action 匹配处理的 Ability；指定 bundleName 时确认该应用进入前台
+   * @param uri 深度链接 URI
+   * @param options 限定应用、action 与 entities
+   * @returns 启动结果
+   */
+  async openUri(uri: string, options: OpenUriOptions = {}): Promise<OperationResult> {
+    try {
+      if (options.bundleName) {
+        Validator.validateBundleName(options.bundleName);
+      }
+
+      const command = ['aa', 'start'];
+      if (options.bundleName) {
+        command.push('-b', options.bundleName);
+      }
+      command.push(...this.buildWantArgs({ uri, action: options.action || DEFAULT_URI_ACTION, entities: options.entities }));
+
+      Logger.info(`打开 URI: ${uri}`);
+      await this.execStart(command);
+
+      if (options.bundleName && !(await this.waitForForeground(options.bundleName))) {
+        return {
+          success: false,
+          message: `URI ${uri} opened, but ${options.bundleName} did not reach the foreground within ${START_VERIFY_TIMEOUT}ms`,
+        };
+      }
+
+      return {
+        success: true,
+        message: `URI ${uri} opened successfully`,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      Logger.error(`打开 URI 失败: ${errorMsg}`);
+      return {
+        success: false,
+        message: `Failed to open URI ${uri}: ${errorMsg}`,
+        ...HdcError.details(error),
+      };
+    }
+  }
+
+  /**
+   * 校验并构造 aa start 的 Want 参数
+   */
+  private buildWantArgs(options: Pick<StartAppOptions, 'uri' | 'action' | 'entities' | 'params'>): string[] {
+    const args: string[] = [];
+
+    if (options.uri !== undefined) {
+      Validator.validateUri(options.uri);
+      args.push('-U', options.uri);
+    }
+    if (options.action !== undefined) {
+      Validator.validateWantName(options.action, 'action');
+      args.push('-A', options.action);
+    }
+    for (const entity of options.entities || []) {
+      Validator.validateWantName(entity, 'entity');
+      args.push('-e', entity);
+    }
+
+    if (options.params) {
+      Validator.validateWantParams(options.params);
+      for (const [key, value] of Object.entries(options.params)) {
+        if (value === null) {
+          args.push('--psn', key);
+        } else if (typeof value === 'boolean') {
+          args.push('--pb', key, String(value));
+        } else if (typeof value === 'number') {
+          args.push('--pi', key, String(value));
+        } else {
+          args.push('--ps', key, value);
+        }
+      }
+    }
+
+    return args;
+  }
+
+  /**
+   * 执行 aa start 并检查输出
+   * aa start 失败时同样以 0 退出，只输出错误描述
+   */
+  private async execStart(command: string[]): Promise<void> {
+    const stdout = await this.shell(command);
+    if (!/successfully/i.test(stdout) && /error|fail/i.test(stdout)) {
+      throw new HdcError('COMMAND_FAILED', stdout.trim());
+    }
+  }
+
+  /**
+   * 等待应用（或其指定 Ability）进入前台
+   * @returns 超时前进入前台返回 true
+   */
+  private async waitForForeground(bundleName: string, abilityName?: string): Promise<boolean> {
+    const deadline = Date.now() + START_VERIFY_TIMEOUT;
+
+    while (true) {
+      const records = AbilityManagerParser.filterByBundle(AbilityManagerParser.parse(await this.listAbilities()), bundleName);
+      if (records.some(r => r.isForeground && (!abilityName || r.abilityName === abilityName))) {
+        return true;
+      }
+      if (Date.now() + START_VERIFY_INTERVAL > deadline) {
+        return false;
+      }
+      await new Promise((resolve) => setTimeout(resolve, START_VERIFY_INTERVAL));
+    }
+  }
+
   /**
    * 停止应用
    * @param bundleName 应用包名
    * @returns 停止结果
    */
-  async stopApp(bundleName: string): Promise<{ success: boolean; message: string }> {
+  async stopApp(bundleName: string): Promise<OperationResult> {
     try {
       Validator.validateBundleName(bundleName);
 
-      const command = `aa force-stop ${bundleName}`;
+      const command = ['aa', 'force-stop', bundleName];
       Logger.info(`停止应用: ${bundleName}`);
       const stdout = await this.shell(command);
 
@@ -401,6 +1349,7 @@ export class HDC {
       return {
         success: false,
         message: `Failed to stop app ${bundleName}: ${errorMsg}`,
+        ...HdcError.details(error),
       };
     }
   }
@@ -410,74 +1359,16 @@ export class HDC {
    * @param bundleName 应用包名
    * @returns 应用状态信息
    */
-  async getAppStatus(bundleName: string): Promise<{
-    success: boolean;
+  async getAppStatus(bundleName: string): Promise<OperationResult & {
     isRunning: boolean;
-    abilities: Array<{ name: string; state: string }>;
-    message: string;
+    abilities: AbilityRecord[];
   }> {
     try {
       Validator.validateBundleName(bundleName);
 
-      const command = 'aa dump -a';
-      const stdout = await this.shell(command);
-
-      // 解析 ability list 输出
-      const lines = stdout.split('\n');
-      const abilities: Array<{ name: string; state: string }> = [];
-      let isRunning = false;
-
-      // 查找目标应用的 abilities
-      let currentBundle = '';
-      let currentAbility = '';
-      let currentState = '';
-
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-
-        // 解析 bundle name
-        const bundleMatch = trimmedLine.match(/bundle name \[([^\]]+)\]/);
-        if (bundleMatch) {
-          currentBundle = bundleMatch[1];
-          continue;
-        }
-
-        // 解析 main name (ability name)
-        const mainMatch = trimmedLine.match(/main name \[([^\]]+)\]/);
-        if (mainMatch) {
-          currentAbility = mainMatch[1];
-          continue;
-        }
-
-        // 解析 state
-        const stateMatch = trimmedLine.match(/state #(\w+)/);
-        if (stateMatch) {
-          currentState = stateMatch[1];
-
-          // 如果当前 bundle 匹配目标应用
-          if (currentBundle === bundleName && currentAbility && currentState) {
-            abilities.push({
-              name: currentAbility,
-              state: currentState,
-            });
-
-            // 判断是否在运行
-            if (
-              currentState === 'ACTIVE' ||
-              currentState === 'ACTIVATING' ||
-              currentState === 'BACKGROUND' ||
-              currentState === 'FOREGROUND'
-            ) {
-              isRunning = true;
-            }
-
-            // 重置
-            currentAbility = '';
-            currentState = '';
-          }
-          continue;
-        }
-      }
+      const records = AbilityManagerParser.parse(await this.listAbilities());
+      const abilities = AbilityManagerParser.filterByBundle(records, bundleName);
+      const isRunning = abilities.some(a => AbilityManagerParser.isRunning(a));
 
       if (abilities.length === 0) {
         return {
@@ -502,6 +1393,7 @@ export class HDC {
         isRunning: false,
         abilities: [],
         message: `Failed to get app status for ${bundleName}: ${errorMsg}`,
+        ...HdcError.details(error),
       };
     }
   }
@@ -512,7 +1404,7 @@ export class HDC {
    * @param abilityName Ability名称（可选）
    * @returns 重启结果
    */
-  async restartApp(bundleName: string, abilityName?: string): Promise<{ success: boolean; message: string }> {
+  async restartApp(bundleName: string, abilityName?: string): Promise<OperationResult> {
     try {
       Validator.validateBundleName(bundleName);
       if (abilityName) {
@@ -526,6 +1418,8 @@ export class HDC {
         return {
           success: false,
           message: `Failed to restart app ${bundleName}: Could not stop the app. ${stopResult.message}`,
+          errorCode: stopResult.errorCode,
+          hint: stopResult.hint,
         };
       }
 
@@ -539,6 +1433,8 @@ export class HDC {
         return {
           success: false,
           message: `Failed to restart app ${bundleName}: App stopped but could not start. ${startResult.message}`,
+          errorCode: startResult.errorCode,
+          hint: startResult.hint,
         };
       }
 
@@ -552,9 +1448,707 @@ export class HDC {
       return {
         success: false,
         message: `Failed to restart app ${bundleName}: ${errorMsg}`,
+        ...HdcError.details(error),
+      };
+    }
+  }
+
+  /**
+   * 安装应用
+   * @param packagePath 本地 .hap / .hsp 安装包路径
+   * @param options 覆盖安装与降级选项
+   * @returns 安装结果
+   */
+  async installApp(packagePath: string, options: InstallOptions = {}): Promise<OperationResult> {
+    try {
+      Validator.validatePackagePath(packagePath);
+
+      const args = ['install'];
+      if (options.replace) args.push('-r');
+      if (options.downgrade) args.push('-d');
+      // 应用间共享包（.hsp）需要以共享包方式安装
+      if (/\.hsp$/i.test(packagePath)) args.push('-s');
+      args.push(packagePath);
+
+      Logger.info(`安装应用: ${packagePath}`);
+      const { stdout } = await this.exec(args, INSTALL_TIMEOUT);
+
+      // 安装失败时 hdc 仍以 0 退出，错误信息位于 msg 字段中
+      // 示例: [Info]App install path:/x/entry.hap msg:error: install version downgrade. code:9568271
+      if (!/install bundle successfully/i.test(stdout)) {
+        const message = this.parseAppModMessage(stdout);
+        throw new HdcError('COMMAND_FAILED', message);
+      }
+
+      // 新版本的入口 Ability 可能变化
+      this.mainAbilityCache.clear();
+
+      return {
+        success: true,
+        message: `Package ${packagePath} installed successfully`,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      Logger.error(`安装应用失败: ${errorMsg}`);
+      return {
+        success: false,
+        message: `Failed to install ${packagePath}: ${errorMsg}`,
+        ...HdcError.details(error),
       };
     }
   }
+
+  /**
+   * 卸载应用
+   * @param bundleName 应用包名
+   * @param keepData 是否保留应用数据
+   * @returns 卸载结果
+   */
+  async uninstallApp(bundleName: string, keepData: boolean = false): Promise<OperationResult> {
+    try {
+      Validator.validateBundleName(bundleName);
+
+      const args = keepData ? ['uninstall', '-k', bundleName] : ['uninstall', bundleName];
+
+      Logger.info(`卸载应用: ${bundleName}`);
+      const { stdout } = await this.exec(args, INSTALL_TIMEOUT);
+
+      if (!/uninstall bundle successfully/i.test(stdout)) {
+        const message = this.parseAppModMessage(stdout);
+        throw new HdcError('COMMAND_FAILED', message);
+      }
+
+      this.mainAbilityCache.delete(`${await this.resolveTarget()}/${bundleName}`);
+
+      return {
+        success: true,
+        message: `App ${bundleName} uninstalled successfully${keepData ? ' (data kept)' : ''}`,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      Logger.error(`卸载应用失败: ${errorMsg}`);
+      return {
+        success: false,
+        message: `Failed to uninstall ${bundleName}: ${errorMsg}`,
+        ...HdcError.details(error),
+      };
+    }
+  }
+
+  /**
+   * 获取已安装应用的包名列表
+   * @returns 包名数组
+   */
+  async listBundles(): Promise<string[]> {
+    const stdout = await this.shell(['bm', 'dump', '-a'], DEFAULT_COMMAND_TIMEOUT, { kind: 'read' });
+    return BundleManagerParser.parseList(stdout);
+  }
+
+  /**
+   * 获取应用包详情
+   * @param bundleName 应用包名
+   * @returns 应用包信息，应用未安装时返回 null
+   */
+  async getBundleInfo(bundleName: string): Promise<BundleInfo | null> {
+    Validator.validateBundleName(bundleName);
+
+    // 应用未安装时 bm dump 以非零退出码退出，由解析结果判断
+    const command = `${ShellCommand.build(['bm', 'dump', '-n', bundleName])} || true`;
+    const stdout = await this.shell(command, DEFAULT_COMMAND_TIMEOUT, { kind: 'read' });
+    return BundleManagerParser.parseInfo(stdout);
+  }
+
+  /**
+   * 清理应用数据或缓存
+   * @param bundleName 应用包名
+   * @param scope 清理范围，默认 all
+   * @returns 清理结果
+   */
+  async clearAppData(bundleName: string, scope: ClearScope = 'all'): Promise<OperationResult> {
+    try {
+      Validator.validateBundleName(bundleName);
+
+      const flags = scope === 'all' ? ['-d', '-c'] : scope === 'cache' ? ['-c'] : ['-d'];
+      for (const flag of flags) {
+        Logger.info(`清理应用${flag === '-d' ? '数据' : '缓存'}: ${bundleName}`);
+        const stdout = await this.shell(['bm', 'clean', '-n', bundleName, flag]);
+
+        // 示例: clean bundle data files successfully.
+        if (!/successfully/i.test(stdout)) {
+          throw new HdcError('COMMAND_FAILED', stdout.trim() || 'bm clean returned no output');
+        }
+      }
+
+      return {
+        success: true,
+        message: `App ${bundleName} ${scope === 'all' ? 'data and cache' : scope} cleared successfully`,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      Logger.error(`清理应用数据失败: ${errorMsg}`);
+      return {
+        success: false,
+        message: `Failed to clear ${scope} of ${bundleName}: ${errorMsg}`,
+        ...HdcError.details(error),
+      };
+    }
+  }
+
+  /**
+   * 获取应用的权限授予状态
+   * @param bundleName 应用包名
+   * @returns 令牌与权限信息，应用未安装时返回 null
+   */
+  async getPermissions(bundleName: string): Promise<AccessTokenInfo | null> {
+    Validator.validateBundleName(bundleName);
+
+    // 应用未安装时 atm dump 以非零退出码退出，由解析结果判断
+    const command = `${ShellCommand.build(['atm', 'dump', '-t', '-b', bundleName])} || true`;
+    const stdout = await this.shell(command, DEFAULT_COMMAND_TIMEOUT, { kind: 'read' });
+    return AccessTokenParser.parse(stdout);
+  }
+
+  /**
+   * 授予应用权限
+   * @param bundleName 应用包名
+   * @param permission 权限名称（如 ohos.permission.CAMERA）
+   * @returns 授权结果
+   */
+  async grantPermission(bundleName: string, permission: string): Promise<OperationResult> {
+    return this.updatePermission(bundleName, permission, true);
+  }
+
+  /**
+   * 撤销应用权限
+   * @param bundleName 应用包名
+   * @param permission 权限名称（如 ohos.permission.CAMERA）
+   * @returns 撤销结果
+   */
+  async revokePermission(bundleName: string, permission: string): Promise<OperationResult> {
+    return this.updatePermission(bundleName, permission, false);
+  }
+
+  /**
+   * 重置应用到干净状态
+   * 依次停止应用、清理数据与缓存，并按需授予权限，供测试用例的初始化步骤调用
+   * @param bundleName 应用包名
+   * @param options 清理范围与需要授予的权限
+   * @returns 重置结果
+   */
+  async resetApp(bundleName: string, options: ResetAppOptions = {}): Promise<OperationResult> {
+    const stopResult = await this.stopApp(bundleName);
+    if (!stopResult.success) {
+      return stopResult;
+    }
+
+    const clearResult = await this.clearAppData(bundleName, options.scope);
+    if (!clearResult.success) {
+      return clearResult;
+    }
+
+    for (const permission of options.grantPermissions || []) {
+      const grantResult = await this.grantPermission(bundleName, permission);
+      if (!grantResult.success) {
+        return grantResult;
+      }
+    }
+
+    const granted = options.grantPermissions?.length ? `, granted ${options.grantPermissions.join(', ')}` : '';
+    return {
+      success: true,
+      message: `App ${bundleName} reset successfully${granted}`,
+    };
+  }
+
+  /**
+   * 授予或撤销权限
+   * atm 以访问令牌 ID 标识应用，需先通过 atm dump 查询
+   */
+  private async updatePermission(bundleName: string, permission: string, grant: boolean): Promise<OperationResult> {
+    const verb = grant ? 'grant' : 'revoke';
+
+    try {
+      Validator.validateBundleName(bundleName);
+      Validator.validatePermissionName(permission);
+
+      const token = await this.getPermissions(bundleName);
+      if (!token) {
+        throw new HdcError('COMMAND_FAILED', `Access token of ${bundleName} not found, the app may not be installed`);
+      }
+
+      Logger.info(`${grant ? '授予' : '撤销'}权限: ${bundleName} ${permission}`);
+      const stdout = await this.shell([
+        'atm', 'perm', grant ? '-g' : '-c', '-i', token.tokenId, '-p', permission,
+      ]);
+
+      if (!/success/i.test(stdout)) {
+        throw new HdcError('COMMAND_FAILED', stdout.trim() || `atm perm returned no output`);
+      }
+
+      return {
+        success: true,
+        message: `Permission ${permission} ${grant ? 'granted to' : 'revoked from'} ${bundleName}`,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      Logger.error(`${grant ? '授予' : '撤销'}权限失败: ${errorMsg}`);
+      return {
+        success: false,
+        message: `Failed to ${verb} ${permission} for ${bundleName}: ${errorMsg}`,
+        ...HdcError.details(error),
+      };
+    }
+  }
+
+  /**
+   * 查询应用的进程 ID
+   * @param bundleName 应用包名（即进程名）
+   * @param priority 队列优先级，后台轮询使用 low
+   * @returns 进程 ID 数组，应用未运行时为空
+   */
+  async findPids(bundleName: string, priority: CommandPriority = 'normal'): Promise<number[]> {
+    Validator.validateBundleName(bundleName);
+
+    // 应用未运行时 pidof 的退出码为 1，不视为命令失败
+    const command = `${ShellCommand.build(['pidof', bundleName])} || true`;
+    const stdout = await this.shell(command, DEFAULT_COMMAND_TIMEOUT, { kind: 'read', priority });
+    return stdout
+      .split(/\s+/)
+      .map(p => parseInt(p))
+      .filter(p => !isNaN(p));
+  }
+
+  /**
+   * 获取设备当前时间，格式与 hilog 时间一致（MM-DD HH:mm:ss）
+   */
+  async getDeviceTime(): Promise<string> {
+    const stdout = (await this.shell(['date', '+%m-%d %H:%M:%S'])).trim();
+    if (!/^\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(stdout)) {
+      throw new HdcError('COMMAND_FAILED', `无法解析设备时间: ${stdout}`);
+    }
+    return stdout;
+  }
+
+  /**
+   * 获取设备当前本地时间（YYYY-MM-DD HH:mm:ss），与故障日志时间格式一致
+   */
+  async getDeviceDateTime(): Promise<string> {
+    const stdout = (await this.shell(['date', '+%Y-%m-%d %H:%M:%S'])).trim();
+    if (!/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(stdout)) {
+      throw new HdcError('COMMAND_FAILED', `无法解析设备时间: ${stdout}`);
+    }
+    return stdout;
+  }
+
+  /**
+   * 开始采集 hilog 日志
+   * 以流的方式运行 `hilog`（进程、标签、级别在设备端过滤），解析后按条件过滤写入内存环形缓冲区；
+   * 同一设备同时只有一个采集
+   * @param options 过滤条件与缓冲区容量
+   * @returns 启动结果
+   */
+  async startLogCapture(options: LogCaptureOptions = {}): Promise<OperationResult> {
+    try {
+      if (this.logCapture?.isRunning()) {
+        return {
+          success: false,
+          message: 'Log capture is already running, stop it first',
+        };
+      }
+      if (options.bundleName) {
+        Validator.validateBundleName(options.bundleName);
+      }
+      const stream = this.transport.stream?.bind(this.transport);
+      if (!stream) {
+        throw new HdcError('COMMAND_FAILED', `Transport ${this.transport.name} does not support log streaming`);
+      }
+
+      const target = await this.resolveTarget();
+      const capture = new LogCapture(options);
+
+      if (options.bundleName) {
+        const bundleName = options.bundleName;
+        capture.setPidResolver(() => this.findPids(bundleName, 'low'), await this.findPids(bundleName));
+      }
+      if (!options.includeHistory) {
+        capture.setStartTime(await this.getDeviceTime());
+      }
+
+      Logger.info(`开始采集日志: ${target}`);
+      capture.start((args, handlers) => stream(['shell', ShellCommand.build(['hilog', ...args])], { target, ...handlers }));
+      this.logCapture = capture;
+
+      const filters = Object.entries(capture.filter)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${value}`);
+      return {
+        success: true,
+        message: `Log capture started${filters.length ? ` (${filters.join(', ')})` : ''}`,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      Logger.error(`开始采集日志失败: ${errorMsg}`);
+      return {
+        success: false,
+        message: `Failed to start log capture: ${errorMsg}`,
+        ...HdcError.details(error),
+      };
+    }
+  }
+
+  /**
+   * 读取已采集的日志
+   * 采集停止后仍可读取缓冲区中的日志，直到下次开始采集
+   * @param query 读取条件
+   * @returns 日志与下次读取的游标，尚未开始采集时返回 null
+   */
+  readLogs(query: LogQuery = {}): LogReadResult | null {
+    return this.logCapture ? this.logCapture.read(query) : null;
+  }
+
+  /**
+   * 停止采集 hilog 日志
+   * @returns 停止结果
+   */
+  stopLogCapture(): OperationResult {
+    const capture = this.logCapture;
+    if (!capture?.isRunning()) {
+      return {
+        success: false,
+        message: 'No log capture is running',
+      };
+    }
+
+    capture.stop();
+    Logger.info('停止采集日志');
+    return {
+      success: true,
+      message: `Log capture stopped, ${capture.total} line(s) captured, ${capture.size} kept in buffer`,
+    };
+  }
+
+  /**
+   * 是否正在采集日志
+   */
+  isCapturingLogs(): boolean {
+    return this.logCapture?.isRunning() ?? false;
+  }
+
+  /**
+   * 获取图层的帧记录（RenderService 保留的最近几百帧的呈现时间戳）
+   * @param surface 图层名称（通常与 list_windows 中的窗口名称一致，如 rnsurface0）
+   * @returns 帧记录
+   */
+  async getFpsRecords(surface: string): Promise<FpsRecords> {
+    Validator.validateSurfaceName(surface);
+    return FpsParser.parse(await this.hidumper('RenderService', `fps ${surface}`));
+  }
+
+  /**
+   * 测量图层帧率
+   * 测量前后各读取一次帧记录，统计期间新增的帧；RenderService 只保留最近的几百帧，
+   * 测量时间过长时较早的帧会被覆盖（结果中 truncated 为 true）
+   * @param surface 图层名称
+   * @param options 测量时长、期间执行的操作与刷新率
+   * @returns 平均帧率、丢帧数与最长帧间隔
+   */
+  async measureFps(surface: string, options: FpsMeasureOptions = {}): Promise<FpsReport> {
+    Validator.validateSurfaceName(surface);
+    const durationMs = options.durationMs ?? (options.action ? DEFAULT_FPS_SETTLE : DEFAULT_FPS_DURATION);
+    if (typeof durationMs !== 'number' || durationMs < 0 || durationMs > MAX_FPS_DURATION) {
+      throw new Error(`durationMs 必须在 0-${MAX_FPS_DURATION} 之间`);
+    }
+
+    const baseline = await this.getFpsRecords(surface);
+    if (options.action) {
+      await options.action();
+    }
+    await new Promise((resolve) => setTimeout(resolve, durationMs));
+    const after = await this.getFpsRecords(surface);
+
+    const report = FpsParser.analyze(surface, baseline, after, options.refreshRate);
+    Logger.debug(`帧率测量 ${surface}: ${report.frames} 帧, 平均 ${report.avgFps} fps`);
+    return report;
+  }
+
+  /**
+   * 确定目标进程：指定 pid 时直接使用，其次为应用的主进程，都未指定时使用最上层窗口所属进程
+   * @param bundleName 应用包名
+   * @param pid 进程 ID
+   * @returns 进程 ID
+   * @throws 应用未运行或没有窗口时抛出错误
+   */
+  async resolveProcessId(bundleName?: string, pid?: number): Promise<number> {
+    if (pid !== undefined) {
+      Validator.validatePid(pid);
+      return pid;
+    }
+
+    if (bundleName) {
+      const pids = await this.findPids(bundleName);
+      if (pids.length === 0) {
+        throw new Error(`应用 ${bundleName} 未运行`);
+      }
+      return pids[0];
+    }
+
+    const topWindow = await this.getTopWindow();
+    if (!topWindow) {
+      throw new Error('未找到窗口，无法确定目标进程');
+    }
+    Logger.debug(`使用最上层窗口: ${topWindow.name} (PID: ${topWindow.pid})`);
+    return topWindow.pid;
+  }
+
+  /**
+   * 获取进程 CPU 与内存占用
+   * RSS 优先取 hidumper 输出，旧版本不包含该列时读取 /proc/<pid>/status
+   * @param pid 进程 ID
+   * @param priority 排队优先级，持续采样时使用 low，避免阻塞交互操作
+   * @returns 资源占用，进程不存在时对应字段为 null
+   */
+  async getProcessStats(pid: number, priority: CommandPriority = 'normal'): Promise<ProcessStats> {
+    Validator.validatePid(pid);
+    const options: CommandOptions = { kind: 'read', priority };
+
+    const cpu = ProcessStatsParser.parseCpuUsage(
+      await this.shell(['hidumper', '--cpuusage', pid], DEFAULT_COMMAND_TIMEOUT, options),
+      pid
+    );
+    const memory = ProcessStatsParser.parseMemory(
+      await this.shell(['hidumper', '--mem', pid], DEFAULT_COMMAND_TIMEOUT, options),
+      pid
+    );
+
+    if (memory && memory.rss === undefined) {
+      memory.rss = ProcessStatsParser.parseRss(
+        await this.shell(['cat', `/proc/${pid}/status`], DEFAULT_COMMAND_TIMEOUT, options)
+      );
+    }
+
+    return { pid, name: cpu?.name, cpu, memory };
+  }
+
+  /**
+   * 按固定间隔采样进程 CPU 与内存占用
+   * 间隔从每次采样开始计时，单次采样耗时超过间隔时立即进行下一次
+   * @param pid 进程 ID
+   * @param options 采样次数与间隔
+   * @returns 采样序列与最小/最大/平均值
+   */
+  async sampleProcessStats(pid: number, options: SamplingOptions = {}): Promise<ProcessSampling> {
+    Validator.validatePid(pid);
+    const count = options.samples ?? 10;
+    const intervalMs = options.intervalMs ?? DEFAULT_SAMPLE_INTERVAL;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_SAMPLES) {
+      throw new Error(`samples 必须是 1-${MAX_SAMPLES} 之间的整数`);
+    }
+    if (typeof intervalMs !== 'number' || intervalMs < MIN_SAMPLE_INTERVAL) {
+      throw new Error(`intervalMs 不能小于 ${MIN_SAMPLE_INTERVAL}ms`);
+    }
+
+    const samples: ProcessSample[] = [];
+    const startTime = Date.now();
+    let name: string | undefined;
+
+    for (let i = 0; i < count; i++) {
+      const sampleStart = Date.now();
+      const stats = await this.getProcessStats(pid, 'low');
+      name = name || stats.name;
+      samples.push({
+        offsetMs: sampleStart - startTime,
+        cpu: stats.cpu?.total,
+        pss: stats.memory?.pss,
+        rss: stats.memory?.rss,
+      });
+
+      if (i < count - 1) {
+        const wait = intervalMs - (Date.now() - sampleStart);
+        if (wait > 0) {
+          await new Promise((resolve) => setTimeout(resolve, wait));
+        }
+      }
+    }
+
+    return {
+      pid,
+      name,
+      intervalMs,
+      samples,
+      summary: {
+        cpu: summarize(samples.map(s => s.cpu)),
+        pss: summarize(samples.map(s => s.pss)),
+        rss: summarize(samples.map(s => s.rss)),
+      },
+    };
+  }
+
+  /**
+   * 记录操作开始时的日志起点：设备时间与目标应用的进程 ID
+   * 失败时不抛出异常（错误记录在返回值中），不影响操作本身
+   * @param options 日志采集选项
+   * @returns 日志起点，传给 collectActionLogs()
+   */
+  async beginActionLogs(options: ActionLogOptions = {}): Promise<ActionLogMark> {
+    const mark: ActionLogMark = { options, bundleName: options.bundleName, pids: [] };
+
+    try {
+      mark.since = await this.getDeviceTime();
+
+      if (!mark.bundleName) {
+        const foreground = AbilityManagerParser.getForeground(AbilityManagerParser.parse(await this.listAbilities()));
+        mark.bundleName = foreground[0]?.bundleName;
+      }
+      if (mark.bundleName) {
+        mark.pids = await this.findPids(mark.bundleName);
+      }
+    } catch (error) {
+      mark.error = error instanceof Error ? error.message : String(error);
+      Logger.debug(`记录操作日志起点失败: ${mark.error}`);
+    }
+
+    return mark;
+  }
+
+  /**
+   * 获取从日志起点到现在目标应用输出的日志
+   * 先等待 settleMs 让操作引发的日志落盘，再通过 `hilog -x -P <pid> -L <级别>` 读取设备日志缓冲区中目标进程的日志；
+   * 设备时间只精确到秒，结果可能包含操作开始前同一秒内的日志
+   * @param mark beginActionLogs() 返回的日志起点
+   * @returns 目标应用的日志，失败时返回 error 而不抛出异常
+   */
+  async collectActionLogs(mark: ActionLogMark): Promise<ActionLogs> {
+    const {
+      settleMs = DEFAULT_ACTION_LOG_SETTLE,
+      level = DEFAULT_ACTION_LOG_LEVEL,
+      limit = DEFAULT_ACTION_LOG_LIMIT,
+    } = mark.options;
+    const logs: ActionLogs = { bundleName: mark.bundleName, since: mark.since, entries: [], truncated: 0 };
+
+    if (mark.error || !mark.since) {
+      logs.error = mark.error || 'Log start time is unknown';
+      return logs;
+    }
+    if (!mark.bundleName) {
+      logs.error = 'No foreground app to collect logs for';
+      return logs;
+    }
+
+    try {
+      await new Promise((resolve) => setTimeout(resolve, settleMs));
+
+      // 应用可能在操作期间崩溃或重启，合并操作前后的进程 ID
+      const pids = new Set([...mark.pids, ...(await this.findPids(mark.bundleName))]);
+      if (pids.size === 0) {
+        logs.error = `${mark.bundleName} is not running`;
+        return logs;
+      }
+
+      // 进程 ID 与级别在设备端过滤，避免传输整个 hilog 缓冲区；时间只能在本地过滤
+      const since = mark.since;
+      const output = await this.shell(
+        ['hilog', '-x', ...HilogParser.filterArgs({ pids: [...pids], level })],
+        DEFAULT_COMMAND_TIMEOUT,
+        { kind: 'read' }
+      );
+      const matched = HilogParser.parse(output).filter(
+        entry => entry.time >= since && pids.has(entry.pid) && HilogParser.isAtLeast(entry.level, level)
+      );
+
+      logs.entries = matched.slice(-Math.max(1, limit));
+      logs.truncated = matched.length - logs.entries.length;
+    } catch (error) {
+      logs.error = error instanceof Error ? error.message : String(error);
+      Logger.debug(`获取操作日志失败: ${logs.error}`);
+    }
+
+    return logs;
+  }
+
+  /**
+   * 执行操作并附带操作期间目标应用输出的日志
+   * @param action 要执行的操作
+   * @param options 日志采集选项
+   * @returns 操作结果与日志
+   */
+  async withActionLogs<T>(action: () => Promise<T>, options: ActionLogOptions = {}): Promise<{ result: T; logs: ActionLogs }> {
+    const mark = await this.beginActionLogs(options);
+    const result = await action();
+    return { result, logs: await this.collectActionLogs(mark) };
+  }
+
+  /**
+   * 列出应用的故障日志文件（faultlogger）
+   * @param bundleName 应用包名
+   * @param options 查询选项（limit 不生效）
+   * @returns 故障日志文件数组（按时间从新到旧排序）
+   */
+  async listFaultLogs(bundleName: string, options: CrashLogOptions = {}): Promise<FaultLogFile[]> {
+    Validator.validateBundleName(bundleName);
+    if (options.since) {
+      Validator.validateDateTime(options.since, 'since');
+    }
+    const types = options.types?.length ? options.types : FAULT_LOG_TYPES;
+    for (const type of types) {
+      if (!FAULT_LOG_TYPES.includes(type)) {
+        throw new Error(`无效的故障类型: ${type}（可选值: ${FAULT_LOG_TYPES.join('/')}）`);
+      }
+    }
+
+    // 目录不存在时 ls 以非零退出码退出，不视为命令失败
+    const command = `${ShellCommand.build(['ls', '-1', FAULT_LOG_DIR])} || true`;
+    const stdout = await this.shell(command, DEFAULT_COMMAND_TIMEOUT, { kind: 'read' });
+    if (/permission denied/i.test(stdout)) {
+      throw new HdcError('COMMAND_FAILED', `Cannot read ${FAULT_LOG_DIR}: ${stdout.trim()}`);
+    }
+
+    // 目录不存在（从未发生过故障）时 ls 只输出错误描述，解析结果为空
+    const since = options.since;
+    return FaultLogParser.parseList(stdout).filter(
+      file => file.bundleName === bundleName && types.includes(file.type) && (!since || file.time >= since)
+    );
+  }
+
+  /**
+   * 读取并解析故障日志
+   * @param file listFaultLogs() 返回的文件信息
+   * @returns 故障日志详情（原因、进程 ID、调用栈摘要与完整内容）
+   */
+  async readFaultLog(file: FaultLogFile): Promise<FaultLog> {
+    if (!FaultLogParser.parseFileName(file.fileName)) {
+      throw new Error(`故障日志文件名无效: ${file.fileName}`);
+    }
+
+    const content = await this.shell(['cat', `${FAULT_LOG_DIR}/${file.fileName}`], DEFAULT_COMMAND_TIMEOUT, {
+      kind: 'read',
+    });
+    return FaultLogParser.parse(content, file);
+  }
+
+  /**
+   * 获取应用的故障日志（JS 崩溃、Native 崩溃、应用无响应）
+   * @param bundleName 应用包名
+   * @param options 查询选项
+   * @returns 故障日志详情数组（按时间从新到旧排序）
+   */
+  async getCrashLogs(bundleName: string, options: CrashLogOptions = {}): Promise<FaultLog[]> {
+    const files = await this.listFaultLogs(bundleName, options);
+    const limit = options.limit && options.limit > 0 ? options.limit : DEFAULT_CRASH_LOG_LIMIT;
+
+    const logs: FaultLog[] = [];
+    for (const file of files.slice(0, limit)) {
+      logs.push(await this.readFaultLog(file));
+    }
+    return logs;
+  }
+
+  /**
+   * 提取 hdc install / uninstall 输出中的 msg 字段
+   */
+  private parseAppModMessage(output: string): string {
+    const match = output.match(/msg:\s*(.+)/);
+    return (match ? match[1] : output).replace(/AppMod finish.*/s, '').trim() || 'unknown error';
+  }
 }
 
 // 默认导出单例
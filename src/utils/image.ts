@@ -0,0 +1,306 @@
+import jpeg from 'jpeg-js';
+import pngjs from 'pngjs';
+
+// 常量定义
+const DEFAULT_JPEG_QUALITY = 80; // 默认 JPEG 压缩质量
+const MAX_DECODE_MEMORY_MB = 512; // 解码时允许使用的最大内存（MB）
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]; // PNG 文件头
+
+/**
+ * 解码后的图片（RGBA，每像素 4 字节）
+ */
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * 裁剪区域（像素）
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * RGB 颜色
+ */
+export type Rgb = [number, number, number];
+
+/**
+ * 文字标签样式
+ */
+export interface LabelStyle {
+  color?: Rgb;
+  background?: Rgb;
+  /** 字形放大倍数（字形为 3x5 像素），默认 4 */
+  scale?: number;
+}
+
+// 3x5 点阵数字字形，每行 3 位（高位在左）
+const DIGIT_GLYPHS: Record<string, number[]> = {
+  '0': [0b111, 0b101, 0b101, 0b101, 0b111],
+  '1': [0b010, 0b110, 0b010, 0b010, 0b111],
+  '2': [0b111, 0b001, 0b111, 0b100, 0b111],
+  '3': [0b111, 0b001, 0b111, 0b001, 0b111],
+  '4': [0b101, 0b101, 0b111, 0b001, 0b001],
+  '5': [0b111, 0b100, 0b111, 0b001, 0b111],
+  '6': [0b111, 0b100, 0b111, 0b101, 0b111],
+  '7': [0b111, 0b001, 0b001, 0b001, 0b001],
+  '8': [0b111, 0b101, 0b111, 0b101, 0b111],
+  '9': [0b111, 0b101, 0b111, 0b001, 0b111],
+};
+const GLYPH_WIDTH = 3;
+const GLYPH_HEIGHT = 5;
+
+/**
+ * 图片处理工具
+ * 基于 jpeg-js / pngjs 的纯 JS 实现，处理设备截图（snapshot_display 输出 JPEG）与 PNG 参考图
+ */
+export class ImageProcessor {
+  /**
+   * 创建纯色图片
+   * @param width 宽度
+   * @param height 高度
+   * @param color 背景颜色，默认黑色
+   */
+  static create(width: number, height: number, color: Rgb = [0, 0, 0]): RawImage {
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+      throw new Error(`无效的图片尺寸: ${width}x${height}`);
+    }
+    const image = { width, height, data: new Uint8Array(width * height * 4) };
+    this.fillRect(image, { x: 0, y: 0, width, height }, color);
+    return image;
+  }
+
+  /**
+   * 解码 JPEG / PNG 图片
+   * @param buffer 图片内容
+   * @returns RGBA 像素数据
+   * @throws 不是 JPEG 或 PNG 格式时抛出错误
+   */
+  static decode(buffer: Uint8Array): RawImage {
+    if (buffer.length >= 8 && PNG_SIGNATURE.every((byte, i) => buffer[i] === byte)) {
+      const png = pngjs.PNG.sync.read(Buffer.from(buffer));
+      return { width: png.width, height: png.height, data: new Uint8Array(png.data) };
+    }
+    if (buffer.length < 3 || buffer[0] !== 0xff || buffer[1] !== 0xd8 || buffer[2] !== 0xff) {
+      throw new Error('只支持 JPEG 或 PNG 格式的图片');
+    }
+
+    const image = jpeg.decode(buffer, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxMemoryUsageInMB: MAX_DECODE_MEMORY_MB,
+    });
+    return { width: image.width, height: image.height, data: image.data };
+  }
+
+  /**
+   * 编码为 JPEG
+   * @param image RGBA 像素数据
+   * @param quality 压缩质量（1-100），默认 80
+   * @returns JPEG 内容
+   */
+  static encode(image: RawImage, quality: number = DEFAULT_JPEG_QUALITY): Buffer {
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      throw new Error('quality 必须是 1-100 之间的整数');
+    }
+    return jpeg.encode(image, quality).data;
+  }
+
+  /**
+   * 裁剪图片，超出图片的部分会被截掉
+   * @param image 原图
+   * @param rect 裁剪区域
+   * @returns 裁剪后的图片
+   * @throws 裁剪区域与图片没有交集时抛出错误
+   */
+  static crop(image: RawImage, rect: CropRect): RawImage {
+    for (const key of ['x', 'y', 'width', 'height'] as const) {
+      if (typeof rect[key] !== 'number' || !isFinite(rect[key])) {
+        throw new Error(`crop.${key} 必须是数字`);
+      }
+    }
+
+    const x0 = Math.max(0, Math.round(rect.x));
+    const y0 = Math.max(0, Math.round(rect.y));
+    const x1 = Math.min(image.width, Math.round(rect.x + rect.width));
+    const y1 = Math.min(image.height, Math.round(rect.y + rect.height));
+    if (x1 <= x0 || y1 <= y0) {
+      throw new Error(`裁剪区域超出图片范围（图片尺寸 ${image.width}x${image.height}）`);
+    }
+
+    const width = x1 - x0;
+    const height = y1 - y0;
+    const data = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      const start = ((y0 + y) * image.width + x0) * 4;
+      data.set(image.data.subarray(start, start + width * 4), y * width * 4);
+    }
+    return { width, height, data };
+  }
+
+  /**
+   * 按最大宽度等比缩小图片（区域平均），不放大
+   * @param image 原图
+   * @param maxWidth 最大宽度
+   * @returns 缩小后的图片，原图不超过 maxWidth 时原样返回
+   */
+  static resize(image: RawImage, maxWidth: number): RawImage {
+    if (!Number.isInteger(maxWidth) || maxWidth < 1) {
+      throw new Error('maxWidth 必须是正整数');
+    }
+    if (image.width <= maxWidth) {
+      return image;
+    }
+
+    const width = maxWidth;
+    const height = Math.max(1, Math.round((image.height * maxWidth) / image.width));
+    return this.scale(image, width, height);
+  }
+
+  /**
+   * 缩放到指定尺寸（区域平均，适合缩小）
+   * @param image 原图
+   * @param width 目标宽度
+   * @param height 目标高度
+   * @returns 缩放后的图片
+   */
+  static scale(image: RawImage, width: number, height: number): RawImage {
+    const data = new Uint8Array(width * height * 4);
+    const scaleX = image.width / width;
+    const scaleY = image.height / height;
+
+    for (let y = 0; y < height; y++) {
+      const sy0 = Math.floor(y * scaleY);
+      const sy1 = Math.max(sy0 + 1, Math.min(image.height, Math.floor((y + 1) * scaleY)));
+
+      for (let x = 0; x < width; x++) {
+        const sx0 = Math.floor(x * scaleX);
+        const sx1 = Math.max(sx0 + 1, Math.min(image.width, Math.floor((x + 1) * scaleX)));
+
+        let r = 0, g = 0, b = 0, a = 0;
+        for (let sy = sy0; sy < sy1; sy++) {
+          let offset = (sy * image.width + sx0) * 4;
+          for (let sx = sx0; sx < sx1; sx++) {
+            r += image.data[offset];
+            g += image.data[offset + 1];
+            b += image.data[offset + 2];
+            a += image.data[offset + 3];
+            offset += 4;
+          }
+        }
+
+        const count = (sy1 - sy0) * (sx1 - sx0);
+        const out = (y * width + x) * 4;
+        data[out] = Math.round(r / count);
+        data[out + 1] = Math.round(g / count);
+        data[out + 2] = Math.round(b / count);
+        data[out + 3] = Math.round(a / count);
+      }
+    }
+
+    return { width, height, data };
+  }
+
+  /**
+   * 填充矩形（原地修改，超出图片的部分忽略）
+   * @param image 图片
+   * @param rect 矩形区域
+   * @param color 填充颜色
+   */
+  static fillRect(image: RawImage, rect: CropRect, color: Rgb): void {
+    const x0 = Math.max(0, Math.round(rect.x));
+    const y0 = Math.max(0, Math.round(rect.y));
+    const x1 = Math.min(image.width, Math.round(rect.x + rect.width));
+    const y1 = Math.min(image.height, Math.round(rect.y + rect.height));
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const offset = (y * image.width + x) * 4;
+        image.data[offset] = color[0];
+        image.data[offset + 1] = color[1];
+        image.data[offset + 2] = color[2];
+        image.data[offset + 3] = 255;
+      }
+    }
+  }
+
+  /**
+   * 绘制矩形边框（原地修改，边框向内绘制）
+   * @param image 图片
+   * @param rect 矩形区域
+   * @param color 边框颜色
+   * @param thickness 边框宽度（像素），默认 3
+   */
+  static strokeRect(image: RawImage, rect: CropRect, color: Rgb, thickness: number = 3): void {
+    const t = Math.max(1, Math.min(thickness, rect.width / 2, rect.height / 2));
+    this.fillRect(image, { x: rect.x, y: rect.y, width: rect.width, height: t }, color);
+    this.fillRect(image, { x: rect.x, y: rect.y + rect.height - t, width: rect.width, height: t }, color);
+    this.fillRect(image, { x: rect.x, y: rect.y, width: t, height: rect.height }, color);
+    this.fillRect(image, { x: rect.x + rect.width - t, y: rect.y, width: t, height: rect.height }, color);
+  }
+
+  /**
+   * 计算数字标签的尺寸（含背景边距）
+   * @param text 标签文字
+   * @param scale 字形放大倍数，默认 4
+   */
+  static measureLabel(text: string, scale: number = 4): { width: number; height: number } {
+    return {
+      width: text.length * (GLYPH_WIDTH + 1) * scale - scale + scale * 2,
+      height: GLYPH_HEIGHT * scale + scale * 2,
+    };
+  }
+
+  /**
+   * 绘制带背景的数字标签（原地修改），标签超出右侧或底部时向内移动
+   * @param image 图片
+   * @param x 标签左上角 X 坐标
+   * @param y 标签左上角 Y 坐标
+   * @param text 标签文字（只支持数字）
+   * @param style 颜色与大小
+   * @returns 标签所占区域
+   */
+  static drawLabel(image: RawImage, x: number, y: number, text: string, style: LabelStyle = {}): CropRect {
+    const scale = style.scale ?? 4;
+    const padding = scale;
+    const glyphs = [...text].map(char => {
+      const glyph = DIGIT_GLYPHS[char];
+      if (!glyph) {
+        throw new Error(`标签只支持数字: ${text}`);
+      }
+      return glyph;
+    });
+
+    const { width, height } = this.measureLabel(text, scale);
+    const rect = {
+      x: Math.max(0, Math.min(Math.round(x), image.width - width)),
+      y: Math.max(0, Math.min(Math.round(y), image.height - height)),
+      width,
+      height,
+    };
+
+    this.fillRect(image, rect, style.background ?? [0, 0, 0]);
+    glyphs.forEach((glyph, i) => {
+      const left = rect.x + padding + i * (GLYPH_WIDTH + 1) * scale;
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        for (let col = 0; col < GLYPH_WIDTH; col++) {
+          if (glyph[row] & (1 << (GLYPH_WIDTH - 1 - col))) {
+            this.fillRect(
+              image,
+              { x: left + col * scale, y: rect.y + padding + row * scale, width: scale, height: scale },
+              style.color ?? [255, 255, 255]
+            );
+          }
+        }
+      }
+    });
+
+    return rect;
+  }
+}
@@ -0,0 +1,146 @@
+import { RawImage, CropRect, Rgb } from './image.js';
+
+// 常量定义
+const DEFAULT_TOLERANCE = 16; // 默认单通道允许的差值（吸收 JPEG 压缩噪声）
+
+/**
+ * 像素对比选项
+ */
+export interface DiffOptions {
+  /** 单个像素 R/G/B 通道允许的最大差值（0-255），默认 16 */
+  tolerance?: number;
+  /** 不参与对比的区域（如状态栏、时钟、动态内容） */
+  ignoreRegions?: CropRect[];
+}
+
+/**
+ * 像素对比结果
+ */
+export interface DiffResult {
+  width: number;
+  height: number;
+  tolerance: number;
+  /** 参与对比的像素数（不含忽略区域） */
+  comparedPixels: number;
+  ignoredPixels: number;
+  mismatchedPixels: number;
+  /** 不一致像素占参与对比像素的百分比 */
+  mismatchPercent: number;
+  /** 不一致像素的外接矩形，完全一致时为 null */
+  mismatchBounds: CropRect | null;
+  /**
+   * 差异图：以变淡的灰度实际截图为底，不一致的像素标为红色，忽略区域标为蓝色
+   */
+  diffImage: RawImage;
+}
+
+/**
+ * 逐像素图片对比
+ */
+export class ImageDiff {
+  /**
+   * 对比两张尺寸相同的图片
+   * @param expected 基准图
+   * @param actual 实际图
+   * @param options 容差与忽略区域
+   * @returns 对比结果与差异图
+   * @throws 尺寸不一致或参数无效时抛出错误
+   */
+  static compare(expected: RawImage, actual: RawImage, options: DiffOptions = {}): DiffResult {
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    if (typeof tolerance !== 'number' || tolerance < 0 || tolerance > 255) {
+      throw new Error('tolerance 必须是 0-255 之间的数字');
+    }
+    if (expected.width !== actual.width || expected.height !== actual.height) {
+      throw new Error(
+        `截图尺寸 ${actual.width}x${actual.height} 与基准图 ${expected.width}x${expected.height} 不一致`
+      );
+    }
+
+    const { width, height } = actual;
+    const ignored = this.buildIgnoreMask(width, height, options.ignoreRegions || []);
+    const diff = new Uint8Array(width * height * 4);
+
+    let ignoredPixels = 0;
+    let mismatchedPixels = 0;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pixel = y * width + x;
+        const offset = pixel * 4;
+
+        if (ignored[pixel]) {
+          ignoredPixels++;
+          this.setPixel(diff, offset, [110, 150, 255]);
+          continue;
+        }
+
+        const delta = Math.max(
+          Math.abs(expected.data[offset] - actual.data[offset]),
+          Math.abs(expected.data[offset + 1] - actual.data[offset + 1]),
+          Math.abs(expected.data[offset + 2] - actual.data[offset + 2])
+        );
+
+        if (delta > tolerance) {
+          mismatchedPixels++;
+          if (x < minX) minX = x;
+          if (x > maxX) maxX = x;
+          if (y < minY) minY = y;
+          if (y > maxY) maxY = y;
+          this.setPixel(diff, offset, [255, 0, 0]);
+        } else {
+          // 变淡的灰度底图，便于突出差异
+          const gray = 0.299 * actual.data[offset] + 0.587 * actual.data[offset + 1] + 0.114 * actual.data[offset + 2];
+          const faded = Math.round(255 - (255 - gray) * 0.3);
+          this.setPixel(diff, offset, [faded, faded, faded]);
+        }
+      }
+    }
+
+    const comparedPixels = width * height - ignoredPixels;
+    return {
+      width,
+      height,
+      tolerance,
+      comparedPixels,
+      ignoredPixels,
+      mismatchedPixels,
+      mismatchPercent: comparedPixels > 0 ? Math.round((mismatchedPixels / comparedPixels) * 1e6) / 1e4 : 0,
+      mismatchBounds: maxX >= 0 ? { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } : null,
+      diffImage: { width, height, data: diff },
+    };
+  }
+
+  /**
+   * 生成忽略区域掩码（超出图片的部分截掉）
+   */
+  private static buildIgnoreMask(width: number, height: number, regions: CropRect[]): Uint8Array {
+    const mask = new Uint8Array(width * height);
+
+    for (const region of regions) {
+      for (const key of ['x', 'y', 'width', 'height'] as const) {
+        if (typeof region?.[key] !== 'number' || !isFinite(region[key])) {
+          throw new Error(`ignoreRegions 中的 ${key} 必须是数字`);
+        }
+      }
+
+      const x0 = Math.max(0, Math.round(region.x));
+      const y0 = Math.max(0, Math.round(region.y));
+      const x1 = Math.min(width, Math.round(region.x + region.width));
+      const y1 = Math.min(height, Math.round(region.y + region.height));
+      for (let y = y0; y < y1; y++) {
+        mask.fill(1, y * width + x0, y * width + Math.max(x0, x1));
+      }
+    }
+
+    return mask;
+  }
+
+  private static setPixel(data: Uint8Array, offset: number, color: Rgb): void {
+    data[offset] = color[0];
+    data[offset + 1] = color[1];
+    data[offset + 2] = color[2];
+    data[offset + 3] = 255;
+  }
+}
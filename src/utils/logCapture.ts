@@ -0,0 +1,364 @@
+import { HilogEntry, HilogLevel, HilogParser } from '../parsers/hilog.js';
+import { StreamHandle, StreamOptions } from '../transport/types.js';
+import { Logger } from './logger.js';
+
+// 常量定义
+const DEFAULT_BUFFER_SIZE = 5000; // 环形缓冲区默认容量（条）
+const DEFAULT_READ_LIMIT = 200; // 单次读取默认条数
+const PID_WATCH_INTERVAL = 5000; // 按应用过滤时，检查应用进程 ID 是否变化的间隔（毫秒）
+
+/**
+ * 日志采集过滤条件
+ */
+export interface LogFilter {
+  /** 只采集该应用进程的日志 */
+  bundleName?: string;
+  pid?: number;
+  /** 日志领域（如 A00001），前缀匹配 */
+  domain?: string;
+  /** 日志标签，精确匹配 */
+  tag?: string;
+  /** 最低日志级别 */
+  level?: HilogLevel;
+}
+
+/**
+ * 日志采集选项
+ */
+export interface LogCaptureOptions extends LogFilter {
+  /** 环形缓冲区容量（条），默认读取 HILOG_BUFFER_SIZE 环境变量 */
+  bufferSize?: number;
+  /** 是否保留开始采集前设备缓冲区中的历史日志 */
+  includeHistory?: boolean;
+}
+
+/**
+ * 启动 hilog 流式命令
+ * @param args hilog 参数（设备端过滤条件）
+ * @param handlers 输出与结束回调
+ */
+export type LogStreamOpener = (args: string[], handlers: Pick<StreamOptions, 'onData' | 'onExit'>) => StreamHandle;
+
+/**
+ * 读取日志条件
+ */
+export interface LogQuery {
+  /** 正则表达式，匹配标签或日志内容 */
+  pattern?: string;
+  /** 只返回序号大于该值的日志（上次读取返回的 nextCursor） */
+  cursor?: number;
+  /** 只返回设备时间不早于该值的日志（MM-DD HH:mm:ss[.SSS]） */
+  since?: string;
+  /** 最低日志级别 */
+  level?: HilogLevel;
+  tag?: string;
+  /** 最多返回条数，返回最新的部分 */
+  limit?: number;
+}
+
+/**
+ * 带序号的日志条目
+ */
+export interface CapturedLog extends HilogEntry {
+  /** 采集序号，单调递增 */
+  seq: number;
+}
+
+/**
+ * 读取日志结果
+ */
+export interface LogReadResult {
+  entries: CapturedLog[];
+  /** 下次读取时传入的游标 */
+  nextCursor: number;
+  /** 匹配条件但因 limit 未返回的条数 */
+  truncated: number;
+  /** 因缓冲区已满被丢弃的总条数 */
+  dropped: number;
+  running: boolean;
+  /** 采集异常结束时的原因 */
+  error?: string;
+}
+
+/**
+ * hilog 日志采集
+ *
+ * 按进程 ID、标签、级别在设备端过滤（hilog -P / -T / -L），接收流式输出，
+ * 按行解析并过滤后写入固定容量的环形缓冲区，缓冲区满时丢弃最旧的日志。
+ * 领域按前缀匹配，hilog -D 只支持完整的领域 ID，因此只在本地过滤。
+ *
+ * 按应用过滤时定期查询应用的进程 ID，变化（应用重启）后以新的进程 ID 重新启动 hilog；
+ * hilog 启动时会先输出设备缓冲区中已有的日志，因此不会丢失两次查询之间新进程输出的日志。
+ */
+export class LogCapture {
+  readonly filter: LogFilter;
+  readonly startedAt = new Date();
+  private capacity: number;
+  private buffer: CapturedLog[] = [];
+  private head = 0;
+  private seq = 0;
+  private dropped = 0;
+  private partial = '';
+  private open?: LogStreamOpener;
+  private handle?: StreamHandle;
+  private running = false;
+  private error?: string;
+  private startTime?: string;
+
+  private pids = new Set<number>();
+  private resolvePids?: () => Promise<number[]>;
+  private pidWatcher?: NodeJS.Timeout;
+  private refreshing = false;
+  /** 重新启动 hilog 时，已采集过的进程在该时间之前的日志会被重复输出，需要跳过 */
+  private replayed?: { pids: Set<number>; until: string };
+  private lastTime?: string;
+
+  constructor(options: LogCaptureOptions = {}) {
+    this.filter = {
+      bundleName: options.bundleName,
+      pid: options.pid,
+      domain: options.domain,
+      tag: options.tag,
+      level: options.level,
+    };
+
+    const envSize = parseInt(process.env.HILOG_BUFFER_SIZE || '', 10);
+    this.capacity = options.bufferSize || (envSize > 0 ? envSize : DEFAULT_BUFFER_SIZE);
+  }
+
+  /**
+   * 开始采集
+   * 按应用过滤且应用尚未运行时，等应用启动后再启动 hilog
+   * @param open 启动 hilog 流式命令的函数
+   */
+  start(open: LogStreamOpener): void {
+    this.open = open;
+    this.running = true;
+    this.openStream();
+
+    if (this.resolvePids) {
+      const resolvePids = this.resolvePids;
+      this.pidWatcher = setInterval(() => this.refreshPids(resolvePids), PID_WATCH_INTERVAL);
+      this.pidWatcher.unref();
+    }
+  }
+
+  /**
+   * 设备端过滤参数
+   */
+  get streamArgs(): string[] {
+    const pids = this.resolvePids ? [...this.pids] : this.filter.pid !== undefined ? [this.filter.pid] : [];
+    return HilogParser.filterArgs({ pids, tag: this.filter.tag, level: this.filter.level });
+  }
+
+  /**
+   * 只保留设备时间不早于该值的日志（用于丢弃开始采集前的历史日志）
+   * @param time 设备时间（MM-DD HH:mm:ss）
+   */
+  setStartTime(time: string): void {
+    this.startTime = time;
+  }
+
+  /**
+   * 设置应用进程 ID 查询函数（按 bundleName 过滤时使用）
+   * @param resolve 查询函数
+   * @param initial 初始进程 ID
+   */
+  setPidResolver(resolve: () => Promise<number[]>, initial: number[]): void {
+    this.resolvePids = resolve;
+    this.pids = new Set(initial);
+  }
+
+  /**
+   * 写入 hilog 输出片段
+   * @param chunk 输出片段（可能包含不完整的行）
+   */
+  write(chunk: string): void {
+    const lines = (this.partial + chunk).split('\n');
+    this.partial = lines.pop() || '';
+
+    for (const line of lines) {
+      const entry = HilogParser.parseLine(line);
+      if (entry) {
+        this.accept(entry);
+      }
+    }
+  }
+
+  /**
+   * 采集进程结束
+   * @param error 异常结束的原因
+   */
+  markStopped(error?: string): void {
+    if (this.partial) {
+      this.write('\n');
+    }
+    clearInterval(this.pidWatcher);
+    this.running = false;
+    this.handle = undefined;
+    if (error) {
+      this.error = error;
+      Logger.warn(`日志采集异常结束: ${error}`);
+    }
+  }
+
+  /**
+   * 停止采集
+   */
+  stop(): void {
+    this.handle?.stop();
+    this.markStopped();
+  }
+
+  /**
+   * 是否正在采集
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * 缓冲区中的日志条数
+   */
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * 已采集的日志总数（含已丢弃）
+   */
+  get total(): number {
+    return this.seq;
+  }
+
+  /**
+   * 读取日志
+   * @param query 读取条件
+   * @returns 匹配的日志与下次读取的游标
+   * @throws pattern 不是合法正则时抛出错误
+   */
+  read(query: LogQuery = {}): LogReadResult {
+    let regex: RegExp | undefined;
+    if (query.pattern) {
+      try {
+        regex = new RegExp(query.pattern, 'i');
+      } catch (error) {
+        throw new Error(`pattern 不是合法的正则表达式: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const matched = this.ordered().filter(entry =>
+      (query.cursor === undefined || entry.seq > query.cursor) &&
+      (!query.since || entry.time >= query.since) &&
+      (!query.level || HilogParser.isAtLeast(entry.level, query.level)) &&
+      (!query.tag || entry.tag === query.tag) &&
+      (!regex || regex.test(entry.tag) || regex.test(entry.message))
+    );
+
+    const limit = query.limit && query.limit > 0 ? query.limit : DEFAULT_READ_LIMIT;
+    const entries = matched.slice(-limit);
+
+    return {
+      entries,
+      nextCursor: this.seq,
+      truncated: matched.length - entries.length,
+      dropped: this.dropped,
+      running: this.running,
+      error: this.error,
+    };
+  }
+
+  /**
+   * 按采集顺序返回缓冲区中的日志
+   */
+  private ordered(): CapturedLog[] {
+    return this.buffer.length < this.capacity
+      ? this.buffer
+      : [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)];
+  }
+
+  /**
+   * 过滤并写入一条日志
+   */
+  private accept(entry: HilogEntry): void {
+    if (this.startTime && entry.time < this.startTime) return;
+    if (this.replayed && this.replayed.pids.has(entry.pid) && entry.time <= this.replayed.until) return;
+    // 设备端已按进程、标签、级别过滤，这里再检查一次（回放的录制数据可能未经过滤）
+    if (this.filter.pid !== undefined && entry.pid !== this.filter.pid) return;
+    if (this.resolvePids && !this.pids.has(entry.pid)) return;
+    if (this.filter.domain && !entry.domain.toLowerCase().startsWith(this.filter.domain.toLowerCase())) return;
+    if (this.filter.tag && entry.tag !== this.filter.tag) return;
+    if (this.filter.level && !HilogParser.isAtLeast(entry.level, this.filter.level)) return;
+
+    this.lastTime = entry.time;
+    this.push(entry);
+  }
+
+  /**
+   * 按当前过滤条件启动 hilog，替换之前的流式命令
+   */
+  private openStream(): void {
+    const previous = this.handle;
+    this.handle = undefined;
+    this.partial = '';
+    previous?.stop();
+
+    // 应用未运行时没有可过滤的进程 ID，等检查到进程后再启动
+    if (!this.open || (this.resolvePids && this.pids.size === 0)) {
+      return;
+    }
+
+    const handle: StreamHandle = this.open(this.streamArgs, {
+      onData: chunk => {
+        if (this.handle === handle) this.write(chunk);
+      },
+      onExit: (code, error) => {
+        if (this.handle !== handle) return;
+        this.markStopped(error?.message || (code ? `hilog exited with code ${code}` : undefined));
+      },
+    });
+    this.handle = handle;
+  }
+
+  /**
+   * 重新查询应用进程 ID，变化时重新启动 hilog
+   */
+  private refreshPids(resolvePids: () => Promise<number[]>): void {
+    if (this.refreshing || !this.running) return;
+
+    this.refreshing = true;
+    resolvePids()
+      .then(pids => {
+        if (!this.running || (pids.length === this.pids.size && pids.every(pid => this.pids.has(pid)))) {
+          return;
+        }
+
+        Logger.debug(`应用进程 ID 变化: [${[...this.pids].join(', ')}] -> [${pids.join(', ')}]，重新启动 hilog`);
+        if (this.lastTime) {
+          this.replayed = { pids: new Set(this.pids), until: this.lastTime };
+        }
+        this.pids = new Set(pids);
+        this.openStream();
+      })
+      .catch(error => {
+        Logger.debug(`刷新应用进程 ID 失败: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        this.refreshing = false;
+      });
+  }
+
+  /**
+   * 写入环形缓冲区
+   */
+  private push(entry: HilogEntry): void {
+    const captured: CapturedLog = { ...entry, seq: ++this.seq };
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(captured);
+    } else {
+      this.buffer[this.head] = captured;
+      this.head = (this.head + 1) % this.capacity;
+      this.dropped++;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * 日志记录器
+ */
+export class Logger {
+  private static isDebugMode = process.env.DEBUG === 'true';
+
+  static debug(message: string, ...args: unknown[]): void {
+    if (this.isDebugMode) {
+      console.error(`[DEBUG] ${message}`, ...args);
+    }
+  }
+
+  static info(message: string, ...args: unknown[]): void {
+    console.error(`[INFO] ${message}`, ...args);
+  }
+
+  static warn(message: string, ...args: unknown[]): void {
+    console.error(`[WARN] ${message}`, ...args);
+  }
+
+  static error(message: string, ...args: unknown[]): void {
+    console.error(`[ERROR] ${message}`, ...args);
+  }
+}
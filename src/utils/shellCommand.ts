@@ -0,0 +1,43 @@
+/**
+ * 设备端 shell 命令构造器
+ *
+ * hdc 会把 `hdc shell <command>` 中的命令交给设备上的 sh 解释执行，
+ * 因此即使本地使用参数数组启动 hdc（不经过本地 shell），
+ * 远程命令中的每个参数仍需按 POSIX sh 规则转义。
+ */
+export class ShellCommand {
+  /**
+   * 转义单个参数
+   * 只包含安全字符的参数原样返回，其余参数用单引号包裹，
+   * 参数内的单引号替换为 '\''
+   * @param arg 原始参数
+   * @returns 可以安全拼接到 sh 命令中的参数
+   */
+  static quote(arg: string): string {
+    if (typeof arg !== 'string') {
+      throw new Error('命令参数必须是字符串');
+    }
+    if (arg.includes('\0')) {
+      throw new Error('命令参数不能包含空字符');
+    }
+    if (arg === '') {
+      return "''";
+    }
+    if (/^[a-zA-Z0-9_@%+=:,./-]+$/.test(arg)) {
+      return arg;
+    }
+    return `'${arg.replace(/'/g, `'\\''`)}'`;
+  }
+
+  /**
+   * 将参数数组构造为设备端命令字符串
+   * @param args 命令及参数，例如 ['aa', 'start', '-b', bundleName]
+   * @returns 转义后的命令字符串
+   */
+  static build(args: Array<string | number>): string {
+    if (!Array.isArray(args) || args.length === 0) {
+      throw new Error('命令参数数组不能为空');
+    }
+    return args.map(arg => this.quote(String(arg))).join(' ');
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * 数值序列统计结果
+ */
+export interface SeriesSummary {
+  count: number;
+  min: number;
+  max: number;
+  avg: number;
+  /** 百分位数（最近秩法） */
+  p50: number;
+  p90: number;
+  p95: number;
+}
+
+/**
+ * 计算数值序列的最小值、最大值、平均值与百分位数
+ * @param values 数值序列（忽略 undefined 与 NaN）
+ * @returns 统计结果，序列为空时返回 null
+ */
+export function summarize(values: Array<number | undefined>): SeriesSummary | null {
+  const valid = values.filter((v): v is number => typeof v === 'number' && !isNaN(v)).sort((a, b) => a - b);
+  if (valid.length === 0) {
+    return null;
+  }
+
+  const sum = valid.reduce((total, v) => total + v, 0);
+  return {
+    count: valid.length,
+    min: valid[0],
+    max: valid[valid.length - 1],
+    avg: Math.round((sum / valid.length) * 100) / 100,
+    p50: percentile(valid, 50),
+    p90: percentile(valid, 90),
+    p95: percentile(valid, 95),
+  };
+}
+
+/**
+ * 计算百分位数（最近秩法）
+ * @param sorted 升序排列的非空数值序列
+ * @param p 百分位（0-100）
+ */
+export function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
@@ -0,0 +1,481 @@
+import { ImageProcessor, RawImage, CropRect } from './image.js';
+import { createAbortError } from './commandQueue.js';
+
+// 常量定义
+const DEFAULT_THRESHOLD = 0.8; // 默认最低匹配度
+const DEFAULT_SCALES = [0.75, 0.875, 1, 1.125, 1.25]; // 默认尝试的参考图缩放比例
+const DEFAULT_MAX_RESULTS = 5; // 默认最多返回的匹配数
+const MIN_TEMPLATE_SIZE = 8; // 缩放后参考图的最小边长（像素）
+const COARSE_WIDTH = 320; // 粗搜索时截图缩小到的宽度（像素）
+const MIN_COARSE_SIZE = 6; // 粗搜索时参考图的最小边长（像素），参考图过小时相应减小缩小倍数
+const MAX_COARSE_WORK = 2e7; // 每个缩放比例粗搜索的最大计算量（搜索位置数 × 参考图像素数）
+const MAX_FINE_PIXELS = 128 * 128; // 精确匹配时参考图的最大像素数，超出时先在缩小的截图上定位，再按该数量抽样
+const COARSE_CANDIDATES = 10; // 每个缩放比例保留的粗搜索候选数
+const MAX_OVERLAP = 0.3; // 匹配区域重叠超过该比例时只保留匹配度高的一个
+
+/**
+ * 模板匹配选项
+ */
+export interface TemplateMatchOptions {
+  /** 最低匹配度（0-1），默认 0.8 */
+  threshold?: number;
+  /** 尝试的参考图缩放比例，默认 [0.75, 0.875, 1, 1.125, 1.25] */
+  scales?: number[];
+  /** 最多返回的匹配数，默认 5 */
+  maxResults?: number;
+  /** 只在该区域内搜索（屏幕像素坐标） */
+  region?: CropRect;
+  /** 取消信号，每个缩放比例之间检查 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 模板匹配结果
+ */
+export interface ImageMatch {
+  /** 匹配度（归一化互相关系数，0-1） */
+  confidence: number;
+  /** 参考图的缩放比例 */
+  scale: number;
+  /** 匹配区域（屏幕像素坐标） */
+  bounds: CropRect;
+  center: { x: number; y: number };
+}
+
+/**
+ * 灰度图
+ */
+interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/**
+ * 灰度图的积分图（像素和与平方和），用于 O(1) 计算任意窗口的均值与方差
+ */
+interface Integrals {
+  width: number;
+  sum: Float64Array;
+  sqSum: Float64Array;
+}
+
+/**
+ * 按某个倍数缩小的截图
+ */
+interface PyramidLevel {
+  factor: number;
+  gray: GrayImage;
+  integrals: Integrals;
+}
+
+/**
+ * 去均值后的参考图
+ */
+interface ZeroMeanTemplate {
+  width: number;
+  height: number;
+  data: Float32Array;
+  /** 去均值后像素的平方和 */
+  energy: number;
+}
+
+/**
+ * 抽样的参考图（去均值），用于在原始分辨率下计算大参考图的匹配度
+ */
+interface SampledTemplate {
+  dx: Int32Array;
+  dy: Int32Array;
+  data: Float32Array;
+  energy: number;
+}
+
+/**
+ * 模板匹配（多尺度归一化互相关，纯 JS 实现）
+ *
+ * 每个缩放比例先在缩小到固定宽度（COARSE_WIDTH）的截图上粗搜索，再对候选位置的邻域精确计算匹配度
+ * （大参考图先在缩小的截图上定位，再用抽样像素在原始分辨率下修正）；
+ * 粗搜索与精确匹配的计算量都有上限，与截图和参考图的尺寸无关。缩放比例之间让出事件循环并检查取消信号。
+ * 参考图的透明像素按白色背景合成，建议使用从设备截图中裁剪的不透明图片。
+ */
+export class TemplateMatcher {
+  /**
+   * 在截图中查找参考图
+   * @param screen 截图
+   * @param template 参考图
+   * @param options 匹配度阈值、缩放比例、结果数量、搜索区域与取消信号
+   * @returns 按匹配度降序排列的匹配结果
+   * @throws 参数无效、参考图为纯色或已取消时抛出错误
+   */
+  static async match(screen: RawImage, template: RawImage, options: TemplateMatchOptions = {}): Promise<ImageMatch[]> {
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    const scales = options.scales ?? DEFAULT_SCALES;
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const signal = options.signal;
+
+    if (typeof threshold !== 'number' || threshold < 0 || threshold > 1) {
+      throw new Error('threshold 必须是 0-1 之间的数字');
+    }
+    if (!Array.isArray(scales) || scales.length === 0 || scales.some(s => typeof s !== 'number' || !(s > 0))) {
+      throw new Error('scales 必须是非空的正数数组');
+    }
+    if (!Number.isInteger(maxResults) || maxResults < 1) {
+      throw new Error('maxResults 必须是正整数');
+    }
+
+    // 限定搜索区域时先裁剪截图，结果坐标再加回偏移
+    let offsetX = 0;
+    let offsetY = 0;
+    if (options.region) {
+      const rect = options.region;
+      screen = ImageProcessor.crop(screen, rect);
+      offsetX = Math.max(0, Math.round(rect.x));
+      offsetY = Math.max(0, Math.round(rect.y));
+    }
+
+    const pyramid = new Map<number, PyramidLevel>();
+    const getLevel = (factor: number): PyramidLevel => {
+      let level = pyramid.get(factor);
+      if (!level) {
+        const scaled =
+          factor === 1
+            ? screen
+            : ImageProcessor.scale(
+                screen,
+                Math.max(1, Math.floor(screen.width / factor)),
+                Math.max(1, Math.floor(screen.height / factor))
+              );
+        const gray = this.toGray(scaled);
+        level = { factor, gray, integrals: this.buildIntegrals(gray) };
+        pyramid.set(factor, level);
+      }
+      return level;
+    };
+
+    let fullGray: GrayImage | undefined;
+    const matches: ImageMatch[] = [];
+    for (const scale of scales) {
+      // 每个缩放比例之间让出事件循环，使取消请求与其他请求能够及时处理
+      await new Promise(resolve => setImmediate(resolve));
+      if (signal?.aborted) {
+        throw createAbortError(signal.reason);
+      }
+
+      const width = Math.round(template.width * scale);
+      const height = Math.round(template.height * scale);
+      if (width < MIN_TEMPLATE_SIZE || height < MIN_TEMPLATE_SIZE || width > screen.width || height > screen.height) {
+        continue;
+      }
+
+      // 精确匹配：参考图超过 MAX_FINE_PIXELS 时先在缩小的截图上定位
+      const fineLevel = getLevel(this.quantize(Math.sqrt((width * height) / MAX_FINE_PIXELS)));
+      const fine = this.prepareTemplate(template, width, height, fineLevel.factor);
+      if (fine.energy === 0) {
+        throw new Error('参考图是纯色图片，无法匹配');
+      }
+
+      // 粗搜索：截图缩小到 COARSE_WIDTH，参考图过小时减小倍数，计算量超过 MAX_COARSE_WORK 时增大倍数
+      const screenFactor = screen.width / COARSE_WIDTH;
+      const templateFactor = Math.min(width, height) / MIN_COARSE_SIZE;
+      const workFactor = Math.pow((screen.width * screen.height * width * height) / MAX_COARSE_WORK, 1 / 4);
+      const coarseLevel = getLevel(
+        this.quantize(Math.max(fineLevel.factor, Math.min(screenFactor, templateFactor), workFactor))
+      );
+      const coarse =
+        coarseLevel === fineLevel ? fine : this.prepareTemplate(template, width, height, coarseLevel.factor);
+      if (
+        coarse.energy === 0 ||
+        coarse.width > coarseLevel.gray.width ||
+        coarse.height > coarseLevel.gray.height ||
+        fine.width > fineLevel.gray.width ||
+        fine.height > fineLevel.gray.height
+      ) {
+        continue;
+      }
+
+      const candidates = this.findCandidates(coarseLevel.gray, coarseLevel.integrals, coarse);
+
+      // 在精确匹配的分辨率下搜索候选位置的邻域
+      const ratio = coarseLevel.factor / fineLevel.factor;
+      let sampled: SampledTemplate | undefined;
+      for (const candidate of candidates) {
+        let best = this.searchAround(
+          (x, y) => this.scoreAt(fineLevel.gray, fineLevel.integrals, fine, x, y),
+          Math.round(candidate.x * ratio),
+          Math.round(candidate.y * ratio),
+          Math.ceil(ratio),
+          fineLevel.gray.width - fine.width,
+          fineLevel.gray.height - fine.height
+        );
+
+        // 在缩小的截图上精确匹配时，再用抽样的参考图在原始分辨率下修正位置与匹配度
+        if (fineLevel.factor > 1) {
+          fullGray ??= this.toGray(screen);
+          sampled ??= this.sampleTemplate(
+            this.toGray(ImageProcessor.scale(template, width, height)),
+            Math.ceil(Math.sqrt((width * height) / MAX_FINE_PIXELS))
+          );
+          const gray = fullGray;
+          const points = sampled;
+          best = this.searchAround(
+            (x, y) => this.sampledScoreAt(gray, points, x, y),
+            Math.round(best.x * fineLevel.factor),
+            Math.round(best.y * fineLevel.factor),
+            Math.ceil(fineLevel.factor),
+            screen.width - width,
+            screen.height - height
+          );
+        }
+
+        if (best.score >= threshold) {
+          const { x, y } = best;
+          matches.push({
+            confidence: Math.round(Math.min(1, best.score) * 1000) / 1000,
+            scale,
+            bounds: { x: x + offsetX, y: y + offsetY, width, height },
+            center: {
+              x: Math.round(x + offsetX + width / 2),
+              y: Math.round(y + offsetY + height / 2),
+            },
+          });
+        }
+      }
+    }
+
+    return this.suppressOverlaps(matches).slice(0, maxResults);
+  }
+
+  /**
+   * 在 (cx, cy) 周围 radius 范围内查找匹配度最高的位置
+   */
+  private static searchAround(
+    score: (x: number, y: number) => number,
+    cx: number,
+    cy: number,
+    radius: number,
+    maxX: number,
+    maxY: number
+  ): { score: number; x: number; y: number } {
+    let best = { score: -1, x: Math.max(0, Math.min(maxX, cx)), y: Math.max(0, Math.min(maxY, cy)) };
+    for (let y = Math.max(0, cy - radius); y <= Math.min(maxY, cy + radius); y++) {
+      for (let x = Math.max(0, cx - radius); x <= Math.min(maxX, cx + radius); x++) {
+        const value = score(x, y);
+        if (value > best.score) best = { score: value, x, y };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 按步长抽样参考图像素并去均值
+   */
+  private static sampleTemplate(gray: GrayImage, step: number): SampledTemplate {
+    const dx: number[] = [];
+    const dy: number[] = [];
+    const raw: number[] = [];
+    for (let y = Math.floor(step / 2); y < gray.height; y += step) {
+      for (let x = Math.floor(step / 2); x < gray.width; x += step) {
+        dx.push(x);
+        dy.push(y);
+        raw.push(gray.data[y * gray.width + x]);
+      }
+    }
+
+    const mean = raw.reduce((sum, value) => sum + value, 0) / raw.length;
+    const data = Float32Array.from(raw, value => value - mean);
+    const energy = data.reduce((sum, value) => sum + value * value, 0);
+    return { dx: Int32Array.from(dx), dy: Int32Array.from(dy), data, energy: energy < 1e-6 ? 0 : energy };
+  }
+
+  /**
+   * 只用抽样像素计算参考图放在 (x, y) 时的归一化互相关系数
+   */
+  private static sampledScoreAt(gray: GrayImage, template: SampledTemplate, x: number, y: number): number {
+    const n = template.data.length;
+    let sum = 0;
+    let sqSum = 0;
+    let cross = 0;
+    for (let k = 0; k < n; k++) {
+      const value = gray.data[(y + template.dy[k]) * gray.width + x + template.dx[k]];
+      sum += value;
+      sqSum += value * value;
+      cross += value * template.data[k];
+    }
+
+    const variance = sqSum - (sum * sum) / n;
+    if (variance <= 1e-6 || template.energy === 0) {
+      return 0;
+    }
+    return cross / Math.sqrt(variance * template.energy);
+  }
+
+  /**
+   * 缩小倍数取 0.25 的整数倍（不小于 1），使不同缩放比例能共用缩小后的截图
+   */
+  private static quantize(factor: number): number {
+    return Math.max(1, Math.ceil(factor * 4) / 4);
+  }
+
+  /**
+   * 将参考图缩放到 width x height 后再按 factor 缩小，转换为去均值的灰度图
+   */
+  private static prepareTemplate(template: RawImage, width: number, height: number, factor: number): ZeroMeanTemplate {
+    const targetWidth = Math.max(1, Math.round(width / factor));
+    const targetHeight = Math.max(1, Math.round(height / factor));
+    const scaled =
+      targetWidth === template.width && targetHeight === template.height
+        ? template
+        : ImageProcessor.scale(template, targetWidth, targetHeight);
+    return this.toZeroMean(this.toGray(scaled));
+  }
+
+  /**
+   * 在（缩小的）截图上计算全部位置的匹配度，返回互不重叠的最佳候选位置
+   */
+  private static findCandidates(
+    gray: GrayImage,
+    integrals: Integrals,
+    template: ZeroMeanTemplate
+  ): Array<{ x: number; y: number; score: number }> {
+    const columns = gray.width - template.width + 1;
+    const rows = gray.height - template.height + 1;
+    const scores = new Float32Array(columns * rows);
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < columns; x++) {
+        scores[y * columns + x] = this.scoreAt(gray, integrals, template, x, y);
+      }
+    }
+
+    // 依次取最高分，并清除其邻域（参考图尺寸的一半以内）的分数
+    const candidates: Array<{ x: number; y: number; score: number }> = [];
+    const rangeX = Math.ceil(template.width / 2) - 1;
+    const rangeY = Math.ceil(template.height / 2) - 1;
+    while (candidates.length < COARSE_CANDIDATES) {
+      let best = -1;
+      for (let i = 0; i < scores.length; i++) {
+        if (scores[i] > 0 && (best < 0 || scores[i] > scores[best])) best = i;
+      }
+      if (best < 0) break;
+
+      const x = best % columns;
+      const y = Math.floor(best / columns);
+      candidates.push({ x, y, score: scores[best] });
+      for (let j = Math.max(0, y - rangeY); j <= Math.min(rows - 1, y + rangeY); j++) {
+        scores.fill(0, j * columns + Math.max(0, x - rangeX), j * columns + Math.min(columns - 1, x + rangeX) + 1);
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * 计算参考图放在 (x, y) 时的归一化互相关系数
+   */
+  private static scoreAt(gray: GrayImage, integrals: Integrals, template: ZeroMeanTemplate, x: number, y: number): number {
+    const n = template.width * template.height;
+    const sum = this.windowSum(integrals.sum, integrals.width, x, y, template.width, template.height);
+    const sqSum = this.windowSum(integrals.sqSum, integrals.width, x, y, template.width, template.height);
+    const variance = sqSum - (sum * sum) / n;
+    if (variance <= 1e-6) {
+      return 0;
+    }
+
+    // 参考图已去均值，窗口像素无需再减均值
+    let cross = 0;
+    for (let j = 0; j < template.height; j++) {
+      const row = (y + j) * gray.width + x;
+      const templateRow = j * template.width;
+      for (let i = 0; i < template.width; i++) {
+        cross += gray.data[row + i] * template.data[templateRow + i];
+      }
+    }
+
+    return cross / Math.sqrt(variance * template.energy);
+  }
+
+  /**
+   * 按匹配度从高到低保留互不重叠的匹配
+   */
+  private static suppressOverlaps(matches: ImageMatch[]): ImageMatch[] {
+    const kept: ImageMatch[] = [];
+    for (const match of [...matches].sort((a, b) => b.confidence - a.confidence)) {
+      if (!kept.some(k => this.overlapRatio(k.bounds, match.bounds) > MAX_OVERLAP)) {
+        kept.push(match);
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * 交集面积占较小区域面积的比例
+   */
+  private static overlapRatio(a: CropRect, b: CropRect): number {
+    const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    if (width <= 0 || height <= 0) {
+      return 0;
+    }
+    return (width * height) / Math.min(a.width * a.height, b.width * b.height);
+  }
+
+  /**
+   * 转换为灰度图，透明像素按白色背景合成
+   */
+  private static toGray(image: RawImage): GrayImage {
+    const data = new Float32Array(image.width * image.height);
+    for (let i = 0; i < data.length; i++) {
+      const offset = i * 4;
+      const luma = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+      const alpha = image.data[offset + 3] / 255;
+      data[i] = luma * alpha + 255 * (1 - alpha);
+    }
+    return { width: image.width, height: image.height, data };
+  }
+
+  /**
+   * 参考图去均值并计算能量
+   */
+  private static toZeroMean(gray: GrayImage): ZeroMeanTemplate {
+    let mean = 0;
+    for (const value of gray.data) mean += value;
+    mean /= gray.data.length;
+
+    const data = new Float32Array(gray.data.length);
+    let energy = 0;
+    for (let i = 0; i < data.length; i++) {
+      data[i] = gray.data[i] - mean;
+      energy += data[i] * data[i];
+    }
+    return { width: gray.width, height: gray.height, data, energy: energy < 1e-6 ? 0 : energy };
+  }
+
+  /**
+   * 构建积分图（尺寸为 (width + 1) x (height + 1)）
+   */
+  private static buildIntegrals(gray: GrayImage): Integrals {
+    const width = gray.width + 1;
+    const sum = new Float64Array(width * (gray.height + 1));
+    const sqSum = new Float64Array(width * (gray.height + 1));
+
+    for (let y = 0; y < gray.height; y++) {
+      let rowSum = 0;
+      let rowSqSum = 0;
+      for (let x = 0; x < gray.width; x++) {
+        const value = gray.data[y * gray.width + x];
+        rowSum += value;
+        rowSqSum += value * value;
+        const index = (y + 1) * width + x + 1;
+        sum[index] = sum[index - width] + rowSum;
+        sqSum[index] = sqSum[index - width] + rowSqSum;
+      }
+    }
+
+    return { width, sum, sqSum };
+  }
+
+  /**
+   * 通过积分图计算窗口内的和
+   */
+  private static windowSum(table: Float64Array, width: number, x: number, y: number, w: number, h: number): number {
+    return table[(y + h) * width + x + w] - table[y * width + x + w] - table[(y + h) * width + x] + table[y * width + x];
+  }
+}
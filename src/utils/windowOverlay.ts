@@ -0,0 +1,73 @@
+import { WindowInfo, WindowCategory, WindowManagerParser } from '../parsers/windowManager.js';
+import { ImageProcessor, RawImage, CropRect, Rgb } from './image.js';
+
+/**
+ * 各类窗口的边框颜色与说明
+ */
+export const WINDOW_CATEGORY_STYLES: Record<WindowCategory, { color: Rgb; label: string }> = {
+  rnsurface: { color: [60, 180, 75], label: '绿色: RN 渲染窗口（rnsurface）' },
+  app: { color: [0, 130, 200], label: '蓝色: 应用主窗口' },
+  sub: { color: [145, 30, 180], label: '紫色: 应用子窗口' },
+  floating: { color: [245, 130, 48], label: '橙色: 悬浮/画中画窗口' },
+  system: { color: [230, 25, 75], label: '红色: 系统窗口' },
+};
+
+/**
+ * 窗口布局叠加图
+ * 按 Z 轴从低到高绘制每个窗口的 rect 边框，标签为窗口在列表中的编号（从 1 开始）
+ */
+export class WindowOverlay {
+  /**
+   * 在画布上绘制窗口边框（原地修改）
+   * @param canvas 截图或空白画布
+   * @param windows 窗口列表（编号按列表顺序）
+   * @returns 未绘制（尺寸为 0 或不在画布内）的窗口编号
+   */
+  static render(canvas: RawImage, windows: WindowInfo[]): number[] {
+    const thickness = Math.max(2, Math.round(canvas.width / 250));
+    const scale = Math.max(2, Math.round(canvas.width / 180));
+    const placed: CropRect[] = [];
+    const skipped: number[] = [];
+
+    const ordered = windows
+      .map((window, i) => ({ window, index: i + 1 }))
+      .sort((a, b) => a.window.zOrder - b.window.zOrder);
+
+    for (const { window, index } of ordered) {
+      const rect = { x: window.rect.x, y: window.rect.y, width: window.rect.w, height: window.rect.h };
+      if (rect.width <= 0 || rect.height <= 0 || rect.x >= canvas.width || rect.y >= canvas.height) {
+        skipped.push(index);
+        continue;
+      }
+
+      const { color } = WINDOW_CATEGORY_STYLES[WindowManagerParser.getCategory(window)];
+      ImageProcessor.strokeRect(canvas, rect, color, thickness);
+
+      // 多个窗口左上角重合时（如全屏窗口），标签依次向右排开
+      const text = String(index);
+      const size = ImageProcessor.measureLabel(text, scale);
+      let x = Math.max(0, rect.x);
+      const y = Math.max(0, rect.y);
+      while (placed.some(p => this.intersects(p, { x, y, ...size })) && x + size.width * 2 <= canvas.width) {
+        x += size.width + scale;
+      }
+      placed.push(ImageProcessor.drawLabel(canvas, x, y, text, { background: color, scale }));
+    }
+
+    return skipped.sort((a, b) => a - b);
+  }
+
+  /**
+   * 根据窗口区域估算画布尺寸（没有截图时使用）
+   * @param windows 窗口列表
+   */
+  static getCanvasSize(windows: WindowInfo[]): { width: number; height: number } | null {
+    const width = Math.max(0, ...windows.map(w => w.rect.x + w.rect.w));
+    const height = Math.max(0, ...windows.map(w => w.rect.y + w.rect.h));
+    return width > 0 && height > 0 ? { width, height } : null;
+  }
+
+  private static intersects(a: CropRect, b: CropRect): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+  }
+}
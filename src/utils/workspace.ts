@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { lstat, mkdir, realpath } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, isAbsolute, join, posix, relative, resolve, sep } from 'path';
+
+// 常量定义
+const DEFAULT_REMOTE_ALLOW_LIST = ['/data/local/tmp', '/storage/media/100/local/files/Docs'];
+const DEFAULT_MAX_TRANSFER_BYTES = 100 * 1024 * 1024; // 单次传输上限 100MB
+
+/**
+ * 工作区配置
+ */
+export interface WorkspaceOptions {
+  /** 本地工作区根目录，默认读取 HDC_WORKSPACE 环境变量 */
+  root?: string;
+  /** 允许访问的设备目录，默认读取 HDC_REMOTE_ALLOW 环境变量（逗号分隔） */
+  remoteAllowList?: string[];
+  /** 单次传输的最大字节数，默认读取 HDC_MAX_TRANSFER_BYTES 环境变量 */
+  maxBytes?: number;
+}
+
+/**
+ * 本地文件沙箱工作区
+ *
+ * 文件传输工具只能读写工作区根目录下的本地文件，
+ * 只能访问允许列表中的设备目录，并限制单次传输大小。
+ */
+export class Workspace {
+  readonly root: string;
+  readonly remoteAllowList: string[];
+  readonly maxBytes: number;
+
+  constructor(options: WorkspaceOptions = {}) {
+    this.root = resolve(options.root || process.env.HDC_WORKSPACE || join(tmpdir(), 'harmonyos-ui-workspace'));
+
+    const envAllow = process.env.HDC_REMOTE_ALLOW?.split(',').map(p => p.trim()).filter(Boolean);
+    this.remoteAllowList = (options.remoteAllowList || envAllow || DEFAULT_REMOTE_ALLOW_LIST).map(p =>
+      posix.normalize(p).replace(/\/+$/, '')
+    );
+
+    const envMax = parseInt(process.env.HDC_MAX_TRANSFER_BYTES || '', 10);
+    this.maxBytes = options.maxBytes || (envMax > 0 ? envMax : DEFAULT_MAX_TRANSFER_BYTES);
+  }
+
+  /**
+   * 将工作区内的相对路径解析为本地绝对路径
+   * @param relativePath 相对于工作区根目录的路径
+   * @returns 本地绝对路径
+   * @throws 路径为空、为绝对路径或跳出工作区时抛出错误
+   */
+  async resolveLocal(relativePath: string): Promise<string> {
+    if (!relativePath || typeof relativePath !== 'string') {
+      throw new Error('本地路径必须是非空字符串');
+    }
+    if (isAbsolute(relativePath)) {
+      throw new Error(`本地路径必须是相对于工作区的路径: ${relativePath}`);
+    }
+
+    const target = resolve(this.root, relativePath);
+    if (target === this.root || !this.isInside(this.root, target)) {
+      throw new Error(`本地路径超出工作区范围: ${relativePath}`);
+    }
+
+    // 按真实路径再检查一次，防止通过符号链接跳出工作区。
+    // 检查最近的已存在路径即可：其下尚不存在的部分之后会作为普通目录和文件创建
+    await mkdir(this.root, { recursive: true });
+    const realRoot = await realpath(this.root);
+    const real = await this.nearestRealpath(target, relativePath);
+    if (!this.isInside(realRoot, real)) {
+      throw new Error(`本地路径超出工作区范围: ${relativePath}`);
+    }
+
+    return target;
+  }
+
+  /**
+   * 检查设备路径是否在允许列表中
+   * @param remotePath 设备上的绝对路径
+   * @returns 规范化后的设备路径
+   * @throws 路径不合法或不在允许列表中时抛出错误
+   */
+  checkRemote(remotePath: string): string {
+    if (!remotePath || typeof remotePath !== 'string') {
+      throw new Error('设备路径必须是非空字符串');
+    }
+    if (!remotePath.startsWith('/')) {
+      throw new Error(`设备路径必须是绝对路径: ${remotePath}`);
+    }
+    if (remotePath.split('/').includes('..')) {
+      throw new Error(`设备路径不能包含 "..": ${remotePath}`);
+    }
+
+    const normalized = posix.normalize(remotePath);
+    const allowed = this.remoteAllowList.some(dir => normalized.startsWith(`${dir}/`));
+    if (!allowed) {
+      throw new Error(`设备路径不在允许列表中: ${remotePath}（允许: ${this.remoteAllowList.join(', ')}）`);
+    }
+
+    return normalized;
+  }
+
+  /**
+   * 检查传输大小
+   * @param bytes 文件字节数
+   * @throws 超过上限时抛出错误
+   */
+  checkSize(bytes: number): void {
+    if (bytes > this.maxBytes) {
+      throw new Error(`文件大小 ${bytes} 字节超过传输上限 ${this.maxBytes} 字节`);
+    }
+  }
+
+  /**
+   * 计算本地文件的 SHA-256
+   * @param localPath 本地文件路径
+   */
+  static sha256(localPath: string): Promise<string> {
+    return new Promise((resolvePromise, reject) => {
+      const hash = createHash('sha256');
+      createReadStream(localPath)
+        .on('data', chunk => hash.update(chunk))
+        .on('error', reject)
+        .on('end', () => resolvePromise(hash.digest('hex')));
+    });
+  }
+
+  /**
+   * 从 path 向上查找最近的已存在路径，返回其真实路径
+   * @throws 路径上存在悬空的符号链接时抛出错误（写入时会穿过链接在工作区外创建文件）
+   */
+  private async nearestRealpath(path: string, relativePath: string): Promise<string> {
+    for (let current = path; ; current = dirname(current)) {
+      try {
+        return await realpath(current);
+      } catch (error) {
+        const exists = await lstat(current).then(
+          () => true,
+          () => false
+        );
+        if (exists) {
+          throw new Error(`本地路径包含无法解析的符号链接: ${relativePath}`);
+        }
+        if (dirname(current) === current) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * 判断 child 是否为 parent 目录本身或位于其中
+   */
+  private isInside(parent: string, child: string): boolean {
+    const rel = relative(parent, child);
+    return rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { AbilityManagerParser } from '../src/parsers/abilityManager.js';
+
+const OUTPUT = readFileSync(new URL('./fixtures/parsers/hidumper-ability-manager.txt', import.meta.url), 'utf8');
+
+describe('AbilityManagerParser.parse', () => {
+  test('解析 Mission 中的 Ability 实例', () => {
+    const records = AbilityManagerParser.parse(OUTPUT);
+    assert.deepEqual(records[0], {
+      bundleName: 'com.example.app',
+      abilityName: 'EntryAbility',
+      moduleName: 'entry',
+      state: 'FOREGROUND',
+      appState: 'FOREGROUND',
+      missionId: 139,
+      recordId: 88,
+      pid: 12345,
+      abilityType: 'PAGE',
+      isForeground: true,
+    });
+    assert.deepEqual(
+      records.map(r => [r.bundleName, r.missionId, r.moduleName, r.state]),
+      [
+        ['com.example.app', 139, 'entry', 'FOREGROUND'],
+        ['com.huawei.hmos.settings', 137, 'phone_settings', 'BACKGROUND'],
+        ['com.ohos.sceneboard', 1, 'phone', 'BACKGROUND'],
+        ['com.example.app', undefined, undefined, 'ACTIVE'],
+      ]
+    );
+  });
+
+  test('Mission 列表之外的记录不关联 Mission，缺少 Ability 名称的记录被跳过', () => {
+    const records = AbilityManagerParser.parse(OUTPUT);
+    const extension = records[3];
+    assert.deepEqual([extension.abilityName, extension.recordId, extension.abilityType], ['SyncExtAbility', 95, 'EXTENSION']);
+    assert.equal(records.some(r => r.bundleName === 'com.example.broken'), false);
+  });
+
+  test('没有 Ability 时返回空数组', () => {
+    assert.deepEqual(AbilityManagerParser.parse('User ID #100\n  current mission lists:{\n  }\n'), []);
+  });
+});
+
+describe('AbilityManagerParser 过滤', () => {
+  const records = AbilityManagerParser.parse(OUTPUT);
+
+  test('按包名过滤并判断运行状态', () => {
+    const abilities = AbilityManagerParser.filterByBundle(records, 'com.example.app');
+    assert.deepEqual(abilities.map(a => a.abilityName), ['EntryAbility', 'SyncExtAbility']);
+    assert.ok(abilities.every(a => AbilityManagerParser.isRunning(a)));
+    assert.equal(AbilityManagerParser.isRunning({ ...abilities[0], state: 'INITIAL' }), false);
+  });
+
+  test('获取前台 Ability，ACTIVE 的扩展 Ability 不算前台', () => {
+    assert.deepEqual(AbilityManagerParser.getForeground(records).map(a => a.bundleName), ['com.example.app']);
+  });
+});
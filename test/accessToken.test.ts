@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { AccessTokenParser } from '../src/parsers/accessToken.js';
+
+const OUTPUT = readFileSync(new URL('./fixtures/parsers/atm-dump.txt', import.meta.url), 'utf8');
+
+describe('AccessTokenParser', () => {
+  test('解析第一个用户的令牌与权限状态（按名称排序）', () => {
+    assert.deepEqual(AccessTokenParser.parse(OUTPUT), {
+      tokenId: 537280173,
+      bundleName: 'com.example.app',
+      userId: 100,
+      permissions: [
+        { name: 'ohos.permission.APPROXIMATELY_LOCATION', granted: true, grantFlag: 1 },
+        { name: 'ohos.permission.CAMERA', granted: false, grantFlag: 1 },
+        { name: 'ohos.permission.INTERNET', granted: true, grantFlag: 4 },
+      ],
+    });
+  });
+
+  test('兼容旧版本的 grantConfig', () => {
+    const output = JSON.stringify({
+      tokenID: 672000001,
+      permStateList: [
+        { permissionName: 'ohos.permission.MICROPHONE', grantConfig: [{ grantStatus: 0, grantFlags: 2, resDeviceID: 'local' }] },
+      ],
+    });
+    assert.deepEqual(AccessTokenParser.parse(output)?.permissions, [
+      { name: 'ohos.permission.MICROPHONE', granted: true, grantFlag: 2 },
+    ]);
+  });
+
+  test('字符串中的花括号不影响截取', () => {
+    const output = '{"tokenID": 1, "bundleName": "a}{b", "permStateList": []}\n{"tokenID": 2}';
+    assert.equal(AccessTokenParser.parse(output)?.bundleName, 'a}{b');
+  });
+
+  test('应用未安装或输出无法解析时返回 null', () => {
+    assert.equal(AccessTokenParser.parse('get token info failed, ret = -1\n'), null);
+    assert.equal(AccessTokenParser.parse('{"tokenID": 0}'), null);
+    assert.equal(AccessTokenParser.parse('{"tokenID": 1, '), null);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { BaselineStore } from '../src/utils/baselineStore.js';
+import { Workspace } from '../src/utils/workspace.js';
+import { HDC } from '../src/utils/hdc.js';
+import { Workflow } from '../src/automation/workflow.js';
+import { FakeTransport } from './helpers.js';
+
+const SCREEN_FIXTURE = fileURLToPath(
+  new URL('./fixtures/cassette/files/0005-harmonyos-ui-screen-3f2a9c81d4e07b65.jpeg', import.meta.url)
+);
+
+/**
+ * 模拟设备：拉取截图时写出 fixture 图片
+ */
+class FakeScreen extends FakeTransport {
+  async exec(args: string[]) {
+    if (args[0] === 'file' && args[1] === 'recv') {
+      copyFileSync(SCREEN_FIXTURE, args[3]);
+    }
+    return super.exec(args);
+  }
+}
+
+describe('BaselineStore 目录', () => {
+  let dir: string;
+  let workspace: Workspace;
+  let savedEnv: string | undefined;
+
+  before(() => {
+    savedEnv = process.env.HDC_BASELINE_DIR;
+    delete process.env.HDC_BASELINE_DIR;
+    dir = realpathSync(mkdtempSync(join(tmpdir(), 'baseline-test-')));
+    workspace = new Workspace({ root: join(dir, 'workspace') });
+    mkdirSync(join(dir, 'outside'));
+    mkdirSync(workspace.root);
+    symlinkSync(join(dir, 'outside'), join(workspace.root, 'escape'));
+  });
+
+  after(() => {
+    if (savedEnv !== undefined) process.env.HDC_BASELINE_DIR = savedEnv;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('默认保存在工作区下的 baselines 目录', () => {
+    assert.equal(new BaselineStore({ workspace }).dir, join(workspace.root, 'baselines'));
+  });
+
+  test('Workflow 的 baselineDir 相对于工作区解析', async () => {
+    const hdc = new HDC({ deviceId: 'SER1', transport: new FakeScreen() });
+    await new BaselineStore({ dir: join(workspace.root, 'visual') }).save(hdc, 'home');
+
+    const result = await new Workflow(hdc, { workspace, baselineDir: 'visual' }).assertVisual('home');
+    assert.equal(result.success, true, result.message);
+    assert.equal(result.visual?.baselinePath, join(workspace.root, 'visual', 'home.jpeg'));
+  });
+
+  test('拒绝工作区之外的 baselineDir，且不截图', async () => {
+    for (const baselineDir of [join(dir, 'outside'), '../outside', 'escape']) {
+      const transport = new FakeScreen();
+      const workflow = new Workflow(new HDC({ deviceId: 'SER1', transport }), { workspace, baselineDir });
+
+      const result = await workflow.assertVisual('home');
+      assert.equal(result.success, false, baselineDir);
+      assert.match(result.message, /工作区/, baselineDir);
+      assert.equal(transport.commands.length, 0, baselineDir);
+    }
+    assert.equal(existsSync(join(dir, 'outside', 'home.actual.jpeg')), false);
+  });
+});
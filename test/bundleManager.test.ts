@@ -0,0 +1,77 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { BundleInfo, BundleManagerParser } from '../src/parsers/bundleManager.js';
+
+const LIST_OUTPUT = readFileSync(new URL('./fixtures/parsers/bm-dump-a.txt', import.meta.url), 'utf8');
+const INFO_OUTPUT = readFileSync(new URL('./fixtures/parsers/bm-dump-n.txt', import.meta.url), 'utf8');
+
+describe('BundleManagerParser.parseList', () => {
+  test('解析 bm dump -a 输出，排序并去重', () => {
+    assert.deepEqual(BundleManagerParser.parseList(LIST_OUTPUT), [
+      'com.example.app',
+      'com.huawei.hmos.settings',
+      'ohos.global.systemres',
+    ]);
+  });
+});
+
+describe('BundleManagerParser.parseInfo', () => {
+  test('解析 bm dump -n 输出', () => {
+    const info = BundleManagerParser.parseInfo(INFO_OUTPUT);
+    assert.ok(info);
+    assert.equal(info.bundleName, 'com.example.app');
+    assert.equal(info.versionName, '1.0.0');
+    assert.equal(info.versionCode, 1000000);
+    assert.equal(info.vendor, 'example');
+    assert.equal(info.installTime, '2025-10-19T05:00:00.000Z');
+    assert.equal(info.isSystemApp, false);
+    assert.deepEqual(info.modules, [
+      { name: 'entry', type: 'entry', mainElement: 'EntryAbility' },
+      { name: 'sync', type: 'feature', mainElement: undefined },
+    ]);
+    assert.deepEqual(info.permissions, ['ohos.permission.INTERNET', 'ohos.permission.CAMERA']);
+  });
+
+  test('解析 Ability 类型、可见性与 skills', () => {
+    const info = BundleManagerParser.parseInfo(INFO_OUTPUT);
+    assert.deepEqual(info?.abilities, [
+      {
+        name: 'EntryAbility',
+        moduleName: 'entry',
+        type: 'page',
+        exported: true,
+        label: '$string:EntryAbility_label',
+        skills: [{ actions: ['action.system.home'], entities: ['entity.system.home'] }],
+      },
+      { name: 'DetailAbility', moduleName: 'entry', type: 'page', exported: false, label: undefined, skills: [] },
+    ]);
+  });
+
+  test('应用未安装时返回 null', () => {
+    assert.equal(BundleManagerParser.parseInfo('error: failed to get information and the parameters may be wrong.\n'), null);
+    assert.equal(BundleManagerParser.parseInfo('com.example.app:\n{ "name": '), null);
+  });
+});
+
+describe('BundleManagerParser.getMainAbility', () => {
+  const info = BundleManagerParser.parseInfo(INFO_OUTPUT) as BundleInfo;
+
+  test('选择声明 home action 的 Ability', () => {
+    assert.deepEqual(BundleManagerParser.getMainAbility(info), { abilityName: 'EntryAbility', moduleName: 'entry' });
+  });
+
+  test('没有 home action 时使用 entry 模块的 mainElement，再退回第一个 page', () => {
+    const withoutHome = {
+      ...info,
+      modules: info.modules.map(m => (m.type === 'entry' ? { ...m, mainElement: 'DetailAbility' } : m)),
+      abilities: info.abilities.map(a => ({ ...a, skills: [] })),
+    };
+    assert.deepEqual(BundleManagerParser.getMainAbility(withoutHome), { abilityName: 'DetailAbility', moduleName: 'entry' });
+
+    const withoutMain = { ...withoutHome, modules: withoutHome.modules.map(m => ({ ...m, mainElement: undefined })) };
+    assert.deepEqual(BundleManagerParser.getMainAbility(withoutMain), { abilityName: 'EntryAbility', moduleName: 'entry' });
+
+    assert.equal(BundleManagerParser.getMainAbility({ ...withoutMain, abilities: [] }), null);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandQueue } from '../src/utils/commandQueue.js';
+
+/**
+ * 可由测试控制完成时机的任务
+ */
+function deferred<T = string>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+/**
+ * 等待队列处理完已就绪的任务
+ */
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('CommandQueue 优先级', () => {
+  test('按优先级出队，同优先级先进先出', async () => {
+    const queue = new CommandQueue();
+    const order: string[] = [];
+    const blocker = deferred();
+
+    const first = queue.enqueue(() => blocker.promise, { kind: 'input' });
+    await tick();
+    const rest = (
+      [['low', 'low-1'], ['normal', 'normal-1'], ['high', 'high-1'], ['normal', 'normal-2'], ['high', 'high-2']] as const
+    ).map(([priority, name]) =>
+      queue.enqueue(async () => {
+        order.push(name);
+        return name;
+      }, { kind: 'input', priority })
+    );
+
+    await tick();
+    assert.equal(queue.size, 6);
+    blocker.resolve('first');
+
+    assert.equal(await first, 'first');
+    await Promise.all(rest);
+    assert.deepEqual(order, ['high-1', 'high-2', 'normal-1', 'normal-2', 'low-1']);
+    assert.equal(queue.size, 0);
+  });
+
+  test('同一时刻只执行一条命令', async () => {
+    const queue = new CommandQueue();
+    let active = 0;
+    let maxActive = 0;
+    const run = async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await tick();
+      active--;
+    };
+
+    await Promise.all([1, 2, 3].map(() => queue.enqueue(run, { kind: 'read' })));
+    assert.equal(maxActive, 1);
+  });
+});
+
+describe('CommandQueue 合并', () => {
+  test('相同键的只读命令在排队或执行中时合并为一次', async () => {
+    const queue = new CommandQueue();
+    const blocker = deferred();
+    let calls = 0;
+    const run = () => {
+      calls++;
+      return blocker.promise;
+    };
+
+    const running = queue.enqueue(run, { kind: 'read', key: 'hidumper' });
+    await tick();
+    const merged = queue.enqueue(run, { kind: 'read', key: 'hidumper' });
+    blocker.resolve('dump');
+
+    assert.deepEqual(await Promise.all([running, merged]), ['dump', 'dump']);
+    assert.equal(calls, 1);
+  });
+
+  test('不同键、没有键或输入命令不合并', async () => {
+    const queue = new CommandQueue();
+    let calls = 0;
+    const run = async () => ++calls;
+
+    await Promise.all([
+      queue.enqueue(run, { kind: 'read', key: 'a' }),
+      queue.enqueue(run, { kind: 'read', key: 'b' }),
+      queue.enqueue(run, { kind: 'read' }),
+      queue.enqueue(run, { kind: 'read' }),
+      queue.enqueue(run, { kind: 'input', key: 'tap' }),
+      queue.enqueue(run, { kind: 'input', key: 'tap' }),
+    ]);
+    assert.equal(calls, 6);
+  });
+
+  test('合并后的命令只有全部调用方取消才取消', async () => {
+    const queue = new CommandQueue();
+    const blocker = deferred();
+    let taskSignal: AbortSignal | undefined;
+    const run = (signal: AbortSignal) => {
+      taskSignal = signal;
+      return blocker.promise;
+    };
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = queue.enqueue(run, { kind: 'read', key: 'dump', signal: first.signal });
+    const b = queue.enqueue(run, { kind: 'read', key: 'dump', signal: second.signal });
+    await tick();
+
+    first.abort();
+    await assert.rejects(a, { name: 'AbortError' });
+    assert.equal(taskSignal?.aborted, false);
+
+    blocker.resolve('dump');
+    assert.equal(await b, 'dump');
+  });
+});
+
+describe('CommandQueue 取消', () => {
+  test('排队中的命令取消后直接移除，不再执行', async () => {
+    const queue = new CommandQueue();
+    const blocker = deferred();
+    const controller = new AbortController();
+    let called = false;
+
+    const first = queue.enqueue(() => blocker.promise, { kind: 'input' });
+    const cancelled = queue.enqueue(async () => {
+      called = true;
+    }, { kind: 'input', signal: controller.signal });
+    const next = queue.enqueue(async () => 'next', { kind: 'input' });
+    await tick();
+
+    controller.abort();
+    await assert.rejects(cancelled, { name: 'AbortError' });
+    assert.equal(queue.size, 2);
+
+    blocker.resolve('first');
+    assert.deepEqual(await Promise.all([first, next]), ['first', 'next']);
+    assert.equal(called, false);
+  });
+
+  test('执行中的命令通过信号终止', async () => {
+    const queue = new CommandQueue();
+    const controller = new AbortController();
+    const run = (signal: AbortSignal) =>
+      new Promise<string>((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+      });
+
+    const pending = queue.enqueue(run, { kind: 'input', signal: controller.signal });
+    await tick();
+    controller.abort(new Error('client cancelled'));
+
+    await assert.rejects(pending, { name: 'AbortError', message: 'client cancelled' });
+    await tick();
+    assert.equal(queue.size, 0);
+  });
+
+  test('信号已取消时不入队', async () => {
+    const queue = new CommandQueue();
+    let called = false;
+    await assert.rejects(
+      queue.enqueue(async () => {
+        called = true;
+      }, { kind: 'input', signal: AbortSignal.abort() }),
+      { name: 'AbortError' }
+    );
+    await tick();
+    assert.equal(called, false);
+  });
+
+  test('默认使用请求上下文中的取消信号', async () => {
+    const queue = new CommandQueue();
+    const controller = new AbortController();
+    const blocker = deferred();
+
+    const pending = CommandQueue.runWithSignal(controller.signal, () =>
+      queue.enqueue(() => blocker.promise, { kind: 'input' })
+    );
+    await tick();
+    controller.abort();
+    await assert.rejects(pending, { name: 'AbortError' });
+    blocker.resolve('late');
+  });
+
+  test('cancelAll 取消排队中与执行中的命令', async () => {
+    const queue = new CommandQueue();
+    let runningSignal: AbortSignal | undefined;
+    const running = queue.enqueue(
+      (signal) =>
+        new Promise((_resolve, reject) => {
+          runningSignal = signal;
+          signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+        }),
+      { kind: 'input' }
+    );
+    const queued = queue.enqueue(async () => 'queued', { kind: 'input' });
+    await tick();
+
+    queue.cancelAll('closing');
+    await assert.rejects(queued, { name: 'AbortError', message: 'closing' });
+    await assert.rejects(running, { name: 'AbortError', message: 'closing' });
+    assert.equal(runningSignal?.aborted, true);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { DisplayManagerParser, DEVICE_PARAM_KEYS } from '../src/parsers/displayManager.js';
+import { HDC } from '../src/utils/hdc.js';
+import { FakeTransport } from './helpers.js';
+
+const OUTPUT = readFileSync(new URL('./fixtures/parsers/hidumper-display-manager.txt', import.meta.url), 'utf8');
+
+const PARAMS_OUTPUT = [
+  'ALN-AL00',
+  'HUAWEI',
+  'HUAWEI Mate 60 Pro',
+  'OpenHarmony-5.0.0.102',
+  'Get parameter "const.product.software.version" fail! errNum is:106!',
+  '12',
+].join('\n');
+
+describe('DisplayManagerParser.parse', () => {
+  test('解析显示屏列表，按 id 排序并去除无尺寸的条目', () => {
+    assert.deepEqual(DisplayManagerParser.parse(OUTPUT), [
+      { id: 0, name: undefined, width: 1260, height: 2720, density: 3.4375, dpi: 550, rotation: 1, refreshRate: 120 },
+      { id: 1000, name: 'VirtualScreen', width: 720, height: 1280, density: 2, dpi: undefined, rotation: 0, refreshRate: undefined },
+    ]);
+  });
+
+  test('同一显示 ID 重复出现时保留最先出现的值', () => {
+    const [display] = DisplayManagerParser.parse(OUTPUT);
+    assert.deepEqual([display.width, display.height], [1260, 2720]);
+  });
+
+  test('没有显示屏信息时返回空数组', () => {
+    assert.deepEqual(DisplayManagerParser.parse('hidumper: No such service\n'), []);
+  });
+});
+
+describe('DisplayManagerParser.parseParams', () => {
+  test('按顺序对应参数键，跳过读取失败的参数', () => {
+    const keys = Object.values(DEVICE_PARAM_KEYS);
+    const params = DisplayManagerParser.parseParams(PARAMS_OUTPUT, keys);
+    assert.equal(params[DEVICE_PARAM_KEYS.model], 'ALN-AL00');
+    assert.equal(params[DEVICE_PARAM_KEYS.apiLevel], '12');
+    assert.equal(DEVICE_PARAM_KEYS.softwareVersion in params, false);
+  });
+});
+
+describe('HDC.getDeviceInfo', () => {
+  test('组合设备参数与主显示屏', async () => {
+    const transport = new FakeTransport(args => args[1]?.startsWith('hidumper') ? OUTPUT : PARAMS_OUTPUT);
+    const hdc = new HDC({ deviceId: 'SER1', transport });
+
+    const info = await hdc.getDeviceInfo();
+    assert.equal(info.serial, 'SER1');
+    assert.equal(info.brand, 'HUAWEI');
+    assert.equal(info.osVersion, 'OpenHarmony-5.0.0.102');
+    assert.equal(info.softwareVersion, undefined);
+    assert.equal(info.apiLevel, 12);
+    assert.equal(info.displays.length, 2);
+    assert.deepEqual([info.screen?.width, info.screen?.height], [1260, 2720]);
+
+    // 第二次读取使用缓存
+    await hdc.getDeviceInfo();
+    assert.equal(transport.shellCommands.length, 2);
+  });
+});
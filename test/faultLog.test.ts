@@ -0,0 +1,86 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { FaultLogParser } from '../src/parsers/faultLog.js';
+import { HDC } from '../src/utils/hdc.js';
+import { FakeTransport } from './helpers.js';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/parsers/${name}`, import.meta.url), 'utf8');
+
+const LS_OUTPUT = fixture('faultlogger-ls.txt');
+const JS_CRASH = fixture('faultlog-jscrash.txt');
+const CPP_CRASH = fixture('faultlog-cppcrash.txt');
+
+describe('FaultLogParser.parseList', () => {
+  test('解析文件名并按时间从新到旧排序，忽略其他类型的日志', () => {
+    assert.deepEqual(
+      FaultLogParser.parseList(LS_OUTPUT).map(f => [f.type, f.bundleName, f.time]),
+      [
+        ['appfreeze', 'com.example.app', '2025-10-19 14:35:12'],
+        ['jscrash', 'com.example.app', '2025-10-19 14:03:25'],
+        ['jscrash', 'com.huawei.hmos.settings', '2025-10-19 12:00:00'],
+        ['cppcrash', 'com.example.app', '2025-10-19 09:12:44'],
+        ['cppcrash', 'foundation', '2025-10-18 22:01:01'],
+      ]
+    );
+  });
+
+  test('目录不存在时返回空数组', () => {
+    assert.deepEqual(FaultLogParser.parseList('ls: /data/log/faultlog/faultlogger: No such file or directory\n'), []);
+  });
+});
+
+describe('FaultLogParser.parse', () => {
+  test('解析 JS 崩溃的头部字段与调用栈', () => {
+    const file = FaultLogParser.parseFileName('jscrash-com.example.app-20020022-20251019140325123.log');
+    assert.ok(file);
+    const log = FaultLogParser.parse(JS_CRASH, file);
+
+    assert.deepEqual(
+      { pid: log.pid, reason: log.reason, errorName: log.errorName, foreground: log.foreground, timestamp: log.timestamp },
+      { pid: 12345, reason: 'TypeError', errorName: 'TypeError', foreground: true, timestamp: '2025-10-19 14:03:25.123' }
+    );
+    assert.equal(log.errorMessage, 'Cannot read property name of undefined');
+    assert.deepEqual(log.stack, [
+      'at onClick (entry/src/main/ets/pages/Index.ets:20:7)',
+      'at anonymous (entry/src/main/ets/pages/Index.ets:18:5)',
+      'at updateFunc (/usr/local/ark/ets/ArkUI/base.js:1:1)',
+    ]);
+    assert.equal(log.content, JS_CRASH);
+    assert.equal(
+      FaultLogParser.summarize(log),
+      'jscrash 2025-10-19 14:03:25 (pid 12345): TypeError: Cannot read property name of undefined' +
+        ' @ at onClick (entry/src/main/ets/pages/Index.ets:20:7)'
+    );
+  });
+
+  test('Native 崩溃只保留前 5 帧，调用栈之后的字段被忽略', () => {
+    const file = FaultLogParser.parseFileName('cppcrash-com.example.app-20020022-20251019091244000.log');
+    assert.ok(file);
+    const log = FaultLogParser.parse(CPP_CRASH, file);
+
+    assert.equal(log.pid, 23456);
+    assert.equal(log.foreground, false);
+    assert.match(log.reason || '', /^Signal:SIGSEGV\(SEGV_MAPERR\)/);
+    assert.equal(log.stack.length, 5);
+    assert.match(log.stack[0], /^#00 pc 00000000000a1b2c .*libentry\.so\(Crash\+12\)/);
+  });
+});
+
+describe('HDC.getCrashLogs', () => {
+  test('只读取指定应用与类型的故障日志', async () => {
+    const transport = new FakeTransport(args => {
+      const command = args[1] || '';
+      if (command.startsWith('ls')) return LS_OUTPUT;
+      if (command.includes('jscrash-')) return JS_CRASH;
+      return '';
+    });
+    const hdc = new HDC({ deviceId: 'SER1', transport });
+
+    const logs = await hdc.getCrashLogs('com.example.app', { types: ['jscrash'] });
+    assert.deepEqual(logs.map(l => [l.fileName, l.reason]), [
+      ['jscrash-com.example.app-20020022-20251019140325123.log', 'TypeError'],
+    ]);
+    assert.equal(transport.shellCommands.filter(c => c.startsWith('cat')).length, 1);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { FpsParser } from '../src/parsers/fps.js';
+import { HDC } from '../src/utils/hdc.js';
+import { FakeTransport } from './helpers.js';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/parsers/${name}`, import.meta.url), 'utf8');
+
+// 120Hz 下相邻帧间隔 8333333 纳秒；测量期间新增 8 帧，第 5、6 帧之间丢了 2 帧
+const BEFORE_OUTPUT = fixture('hidumper-fps-before.txt');
+const AFTER_OUTPUT = fixture('hidumper-fps-after.txt');
+
+describe('FpsParser.parse', () => {
+  test('解析刷新率与时间戳，忽略缓冲区中未填充的 0', () => {
+    const records = FpsParser.parse(BEFORE_OUTPUT);
+    assert.equal(records.refreshRate, 120);
+    assert.equal(records.timestamps.length, 5);
+    assert.equal(records.timestamps[0], 1760850000000000000n);
+    assert.equal(records.timestamps[4], 1760850000033333332n);
+  });
+
+  test('时间戳去重并升序排列', () => {
+    const records = FpsParser.parse('60\n1760850000016666666\n1760850000000000000\n1760850000016666666\n');
+    assert.equal(records.refreshRate, 60);
+    assert.deepEqual(records.timestamps, [1760850000000000000n, 1760850000016666666n]);
+  });
+});
+
+describe('FpsParser.analyze', () => {
+  test('只统计测量期间新增的帧，并计算丢帧与卡顿', () => {
+    const report = FpsParser.analyze('XComponent_EntryAbility', FpsParser.parse(BEFORE_OUTPUT), FpsParser.parse(AFTER_OUTPUT));
+    assert.deepEqual(
+      {
+        frames: report.frames,
+        durationMs: report.durationMs,
+        avgFps: report.avgFps,
+        refreshRate: report.refreshRate,
+        expectedFrameMs: report.expectedFrameMs,
+        droppedFrames: report.droppedFrames,
+        jankFrames: report.jankFrames,
+        worstFrames: report.worstFrames,
+        truncated: report.truncated,
+      },
+      {
+        frames: 8,
+        durationMs: 75,
+        avgFps: 93.33,
+        refreshRate: 120,
+        expectedFrameMs: 8.33,
+        droppedFrames: 2,
+        jankFrames: 1,
+        worstFrames: [25, 8.33, 8.33, 8.33, 8.33],
+        truncated: false,
+      }
+    );
+  });
+
+  test('测量前的末帧已被覆盖时标记 truncated', () => {
+    const after = FpsParser.parse(AFTER_OUTPUT);
+    const report = FpsParser.analyze('XComponent_EntryAbility', FpsParser.parse(BEFORE_OUTPUT), {
+      ...after,
+      timestamps: after.timestamps.slice(2),
+    });
+    assert.equal(report.frames, 8);
+    assert.equal(report.truncated, true);
+  });
+
+  test('没有新增帧时帧率为 0', () => {
+    const before = FpsParser.parse(BEFORE_OUTPUT);
+    const report = FpsParser.analyze('XComponent_EntryAbility', before, before, 60);
+    assert.deepEqual([report.frames, report.avgFps, report.refreshRate, report.frameTime], [0, 0, 60, null]);
+  });
+});
+
+describe('HDC.measureFps', () => {
+  test('测量前后各读取一次帧记录', async () => {
+    const outputs = [BEFORE_OUTPUT, AFTER_OUTPUT];
+    const transport = new FakeTransport(() => outputs.shift() || '');
+    const hdc = new HDC({ deviceId: 'SER1', transport });
+
+    const report = await hdc.measureFps('XComponent_EntryAbility', { durationMs: 0 });
+    assert.equal(report.frames, 8);
+    assert.deepEqual(transport.shellCommands, [
+      "hidumper -s RenderService -a 'fps XComponent_EntryAbility'",
+      "hidumper -s RenderService -a 'fps XComponent_EntryAbility'",
+    ]);
+  });
+});
@@ -0,0 +1,32 @@
+import { execFileSync } from 'child_process';
+import { HdcTransport, ExecOptions, ExecResult } from '../src/transport/types.js';
+
+/**
+ * 用本机 sh 解释设备端命令，返回 sh 实际收到的参数
+ */
+export function shellArgs(command: string): string[] {
+  const output = execFileSync('sh', ['-c', `printf '%s\\0' ${command}`], { encoding: 'utf-8' });
+  return output.split('\0').slice(0, -1);
+}
+
+/**
+ * 记录命令的测试传输层，按设备端命令返回预设输出
+ */
+export class FakeTransport implements HdcTransport {
+  readonly name = 'fake';
+  readonly commands: string[][] = [];
+
+  constructor(private respond: (args: string[]) => string = () => '') {}
+
+  async exec(args: string[], _options?: ExecOptions): Promise<ExecResult> {
+    this.commands.push(args);
+    return { stdout: this.respond(args), stderr: '', exitCode: 0 };
+  }
+
+  /**
+   * 发送到设备端 shell 的命令
+   */
+  get shellCommands(): string[] {
+    return this.commands.filter(args => args[0] === 'shell').map(args => args[1]);
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { HilogParser } from '../src/parsers/hilog.js';
+
+const OUTPUT = readFileSync(new URL('./fixtures/parsers/hilog.txt', import.meta.url), 'utf8');
+
+describe('HilogParser.parse', () => {
+  test('解析日志行并跳过缓冲区提示', () => {
+    const entries = HilogParser.parse(OUTPUT);
+    assert.equal(entries.length, 6);
+    assert.deepEqual(entries[0], {
+      time: '10-19 14:03:25.123',
+      pid: 1234,
+      tid: 1240,
+      level: 'I',
+      domain: 'A00001',
+      tag: 'MyApp',
+      message: 'onPageShow',
+    });
+    assert.deepEqual(entries.map(e => e.level), ['I', 'D', 'W', 'E', 'F', 'I']);
+  });
+
+  test('保留消息中的冒号，处理带空格的标签', () => {
+    const entries = HilogParser.parse(OUTPUT);
+    assert.equal(entries[3].message, 'load plugin failed: code=13');
+    assert.equal(entries[4].message, 'assertion failed:');
+    assert.deepEqual([entries[5].tag, entries[5].message], ['Net Service', 'request done']);
+  });
+
+  test('去掉行尾的回车', () => {
+    assert.equal(HilogParser.parse(OUTPUT.replace(/\n/g, '\r\n')).length, 6);
+    assert.equal(HilogParser.parseLine('10-19 14:03:25.123  1234  1240 I A00001/MyApp: done\r')?.message, 'done');
+  });
+});
+
+describe('HilogParser.normalizeLevel', () => {
+  test('接受级别字母与全称，不区分大小写', () => {
+    for (const [input, level] of [
+      ['D', 'D'], ['i', 'I'], [' w ', 'W'], ['E', 'E'], ['f', 'F'],
+      ['DEBUG', 'D'], ['info', 'I'], ['Warn', 'W'], ['error', 'E'], ['FATAL', 'F'],
+    ]) {
+      assert.equal(HilogParser.normalizeLevel(input), level, input);
+    }
+  });
+
+  test('拒绝其他输入', () => {
+    for (const input of ['', 'X', 'Whatever', 'Fatal-ish', 'DEB', 'WARNING', 'E,F']) {
+      assert.equal(HilogParser.normalizeLevel(input), null, input);
+    }
+  });
+});
+
+describe('HilogParser.filterArgs', () => {
+  test('最低级别转换为级别列表', () => {
+    assert.deepEqual(HilogParser.filterArgs({ pids: [1234, 1240], tag: 'MyApp', level: 'W' }), [
+      '-P', '1234,1240', '-T', 'MyApp', '-L', 'W,E,F',
+    ]);
+    assert.deepEqual(HilogParser.filterArgs({ pids: [], level: 'D' }), []);
+  });
+
+  test('无效级别抛出错误', () => {
+    assert.throws(() => HilogParser.filterArgs({ level: 'X' as 'D' }), /无效的日志级别/);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { ProcessStatsParser } from '../src/parsers/processStats.js';
+import { HDC } from '../src/utils/hdc.js';
+import { FakeTransport } from './helpers.js';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/parsers/${name}`, import.meta.url), 'utf8');
+
+const CPU_OUTPUT = fixture('hidumper-cpuusage.txt');
+const MEM_OUTPUT = fixture('hidumper-mem.txt');
+const STATUS_OUTPUT = fixture('proc-status.txt');
+
+describe('ProcessStatsParser.parseCpuUsage', () => {
+  test('解析进程与整机 CPU 占用', () => {
+    assert.deepEqual(ProcessStatsParser.parseCpuUsage(CPU_OUTPUT, 12345), {
+      pid: 12345,
+      name: 'com.example.app',
+      total: 5.2,
+      user: 3.1,
+      kernel: 2.1,
+      systemTotal: 25.3,
+    });
+  });
+
+  test('输出中没有该进程时返回 null', () => {
+    assert.equal(ProcessStatsParser.parseCpuUsage(CPU_OUTPUT, 1234), null);
+  });
+});
+
+describe('ProcessStatsParser.parseMemory', () => {
+  test('按两行表头匹配 Total 行的数值', () => {
+    assert.deepEqual(ProcessStatsParser.parseMemory(MEM_OUTPUT, 12345), {
+      pid: 12345,
+      pss: 98765,
+      rss: undefined,
+      privateDirty: 68244,
+      swapPss: 2048,
+      heapSize: 32768,
+      heapAlloc: 25600,
+    });
+  });
+
+  test('进程不存在时返回 null', () => {
+    assert.equal(ProcessStatsParser.parseMemory('hidumper: pid 99999 not exist\n', 99999), null);
+  });
+});
+
+describe('ProcessStatsParser.parseRss', () => {
+  test('读取 VmRSS', () => {
+    assert.equal(ProcessStatsParser.parseRss(STATUS_OUTPUT), 231424);
+    assert.equal(ProcessStatsParser.parseRss('cat: /proc/99999/status: No such file or directory\n'), undefined);
+  });
+});
+
+describe('HDC.getProcessStats', () => {
+  test('hidumper 不输出 RSS 时读取 /proc/<pid>/status', async () => {
+    const transport = new FakeTransport(args => {
+      const command = args[1] || '';
+      if (command.startsWith('hidumper --cpuusage')) return CPU_OUTPUT;
+      if (command.startsWith('hidumper --mem')) return MEM_OUTPUT;
+      if (command === 'cat /proc/12345/status') return STATUS_OUTPUT;
+      return '';
+    });
+    const hdc = new HDC({ deviceId: 'SER1', transport });
+
+    const stats = await hdc.getProcessStats(12345);
+    assert.equal(stats.name, 'com.example.app');
+    assert.equal(stats.cpu?.total, 5.2);
+    assert.deepEqual([stats.memory?.pss, stats.memory?.rss], [98765, 231424]);
+  });
+});
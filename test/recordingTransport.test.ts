@@ -0,0 +1,123 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFileSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { HDC } from '../src/utils/hdc.js';
+import { HdcError } from '../src/utils/errors.js';
+import { CassetteEntry, cassetteKey, readCassette, ReplayTransport } from '../src/transport/index.js';
+import { FakeTransport } from './helpers.js';
+
+const SCREEN_FIXTURE = fileURLToPath(
+  new URL('./fixtures/cassette/files/0005-harmonyos-ui-screen-3f2a9c81d4e07b65.jpeg', import.meta.url)
+);
+const NO_RETRY = { maxAttempts: 1, initialDelayMs: 1, maxDelayMs: 1, backoffFactor: 1 };
+
+/**
+ * 模拟设备：截图命令写出 fixture 图片，cat /proc/loadavg 超时
+ */
+class FakeDevice extends FakeTransport {
+  constructor() {
+    super(args => (args[1]?.startsWith('pidof') ? '4321\n' : ''));
+  }
+
+  async exec(args: string[]) {
+    if (args[0] === 'shell' && args[1] === 'cat /proc/loadavg') {
+      this.commands.push(args);
+      throw Object.assign(new Error('Command failed: hdc shell cat /proc/loadavg'), { killed: true, signal: 'SIGTERM' });
+    }
+    if (args[0] === 'file' && args[1] === 'recv') {
+      copyFileSync(SCREEN_FIXTURE, args[3]);
+    }
+    return super.exec(args);
+  }
+}
+
+describe('cassetteKey', () => {
+  test('忽略设备临时文件名的随机后缀', () => {
+    assert.equal(
+      cassetteKey(['shell', 'snapshot_display -f /data/local/tmp/screenshot-0123456789abcdef.jpeg']),
+      cassetteKey(['shell', 'snapshot_display -f /data/local/tmp/screenshot-fedcba9876543210.jpeg'])
+    );
+    assert.equal(
+      cassetteKey(['shell', 'rm -f /data/local/tmp/screenshot-0123456789abcdef.jpeg']),
+      cassetteKey(['shell', 'rm -f /data/local/tmp/screenshot-fedcba9876543210.jpeg'])
+    );
+  });
+
+  test('file recv 不比较本地路径', () => {
+    assert.equal(
+      cassetteKey(['file', 'recv', '/data/local/tmp/screenshot-0123456789abcdef.jpeg', '/tmp/a.jpeg']),
+      cassetteKey(['file', 'recv', '/data/local/tmp/screenshot-fedcba9876543210.jpeg', '/tmp/b.jpeg'])
+    );
+  });
+
+  test('不是随机后缀的文件名与其他目录保持原样', () => {
+    assert.notEqual(
+      cassetteKey(['shell', 'cat /data/local/tmp/report-2026.txt']),
+      cassetteKey(['shell', 'cat /data/local/tmp/report-2027.txt'])
+    );
+    assert.notEqual(
+      cassetteKey(['shell', 'cat /data/app/screenshot-0123456789abcdef.jpeg']),
+      cassetteKey(['shell', 'cat /data/app/screenshot-fedcba9876543210.jpeg'])
+    );
+  });
+});
+
+describe('RecordingTransport', () => {
+  let dir: string;
+  let entries: CassetteEntry[];
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'recording-test-'));
+    const hdc = new HDC({ deviceId: 'SER1', transport: new FakeDevice(), retryPolicy: NO_RETRY });
+
+    hdc.startRecording(dir);
+    await hdc.findPids('com.example.app');
+    await hdc.captureScreenImage();
+    await assert.rejects(hdc.shell(['cat', '/proc/loadavg'], 1000, { kind: 'read' }), { code: 'TIMEOUT' });
+    assert.equal((await hdc.stopRecording())?.commandCount, 5);
+
+    entries = await readCassette(dir);
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('按执行顺序记录命令、目标设备与输出', () => {
+    assert.deepEqual(
+      entries.map(e => e.args[0] === 'shell' ? e.args[1].split(' ')[0] : `${e.args[0]} ${e.args[1]}`),
+      ['pidof', 'snapshot_display', 'file recv', 'rm', 'cat']
+    );
+    assert.ok(entries.every(e => e.target === 'SER1' && typeof e.durationMs === 'number' && e.timestamp));
+    assert.equal(entries[0].stdout, '4321\n');
+  });
+
+  test('拉取的文件保存在 files/ 下', () => {
+    const recv = entries[2];
+    assert.match(recv.artifact || '', /^files\/0003-harmonyos-ui-screen-[0-9a-f]{16}\.jpeg$/);
+    assert.deepEqual(readdirSync(join(dir, 'files')), [recv.artifact?.slice('files/'.length)]);
+    assert.deepEqual(readFileSync(join(dir, recv.artifact || '')), readFileSync(SCREEN_FIXTURE));
+  });
+
+  test('记录错误的 killed / signal', () => {
+    const { exitCode, error, killed, signal } = entries[4];
+    assert.deepEqual({ exitCode, killed, signal }, { exitCode: -1, killed: true, signal: 'SIGTERM' });
+    assert.match(error || '', /cat \/proc\/loadavg/);
+  });
+
+  test('录制目录可直接回放，临时文件名不同也能匹配', async () => {
+    const hdc = new HDC({ deviceId: 'SER1', transport: new ReplayTransport(dir), retryPolicy: NO_RETRY });
+
+    assert.deepEqual(await hdc.findPids('com.example.app'), [4321]);
+    const image = await hdc.captureScreenImage();
+    assert.deepEqual([image.width, image.height], [16, 32]);
+    await assert.rejects(hdc.shell(['cat', '/proc/loadavg'], 1000, { kind: 'read' }), (error: unknown) => {
+      assert.ok(error instanceof HdcError);
+      assert.equal(error.code, 'TIMEOUT');
+      return true;
+    });
+  });
+});
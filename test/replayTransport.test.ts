@@ -0,0 +1,89 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import { HDC } from '../src/utils/hdc.js';
+import { HdcError } from '../src/utils/errors.js';
+import { ReplayTransport } from '../src/transport/index.js';
+
+const CASSETTE_DIR = fileURLToPath(new URL('./fixtures/cassette', import.meta.url));
+const RETRY_POLICY = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 1, backoffFactor: 1 };
+
+/**
+ * 创建回放 fixtures/cassette 的 HDC，并统计传输层收到某条设备端命令的次数
+ */
+function createHdc(): { hdc: HDC; calls: (command: string) => number } {
+  const transport = new ReplayTransport(CASSETTE_DIR);
+  const exec = transport.exec.bind(transport);
+  const commands: string[] = [];
+  transport.exec = (args, options) => {
+    commands.push(args.join(' '));
+    return exec(args, options);
+  };
+  return {
+    hdc: new HDC({ deviceId: 'SER1', transport, retryPolicy: RETRY_POLICY }),
+    calls: (command) => commands.filter(c => c === `shell ${command}`).length,
+  };
+}
+
+describe('ReplayTransport', () => {
+  test('回放设备列表并自动选择唯一设备', async () => {
+    const hdc = new HDC({ transport: new ReplayTransport(CASSETTE_DIR) });
+    assert.equal(await hdc.resolveTarget(), 'SER1');
+    assert.deepEqual(await HDC.listTargets(new ReplayTransport(CASSETTE_DIR)), [
+      { serial: 'SER1', connectType: 'USB', state: 'Connected' },
+    ]);
+  });
+
+  test('按命令参数匹配 shell 输出', async () => {
+    const { hdc } = createHdc();
+    assert.deepEqual(await hdc.findPids('com.example.app'), [1234, 1240]);
+    assert.equal(await hdc.getDeviceTime(), '10-19 20:15:03');
+  });
+
+  test('截图忽略临时文件随机后缀，并从 files/ 复制拉取的文件', async () => {
+    const { hdc } = createHdc();
+    const image = await hdc.captureScreenImage();
+    assert.equal(image.width, 16);
+    assert.equal(image.height, 32);
+  });
+
+  test('没有录制的命令报错', async () => {
+    const { hdc } = createHdc();
+    await assert.rejects(hdc.shell(['ls', '/data']), /回放数据中没有该命令/);
+  });
+
+  test('录制的超时错误按原有结构重建，只读查询同样重试', async () => {
+    const { hdc, calls } = createHdc();
+    await assert.rejects(hdc.shell(['cat', '/proc/loadavg'], 1000, { kind: 'read' }), (error: unknown) => {
+      assert.ok(error instanceof HdcError);
+      assert.equal(error.code, 'TIMEOUT');
+      return true;
+    });
+    assert.equal(calls('cat /proc/loadavg'), RETRY_POLICY.maxAttempts);
+  });
+
+  test('会改变设备状态的命令超时后不重试', async () => {
+    const { hdc, calls } = createHdc();
+    await assert.rejects(hdc.shell(['cat', '/proc/loadavg']), { code: 'TIMEOUT' });
+    assert.equal(calls('cat /proc/loadavg'), 1);
+  });
+
+  test('回放配置缺失时创建 HDC 不报错，执行命令时报错', async () => {
+    const saved = { transport: process.env.HDC_TRANSPORT, dir: process.env.HDC_CASSETTE_DIR };
+    process.env.HDC_TRANSPORT = 'replay';
+    delete process.env.HDC_CASSETTE_DIR;
+    try {
+      const hdc = new HDC({ deviceId: 'SER1' });
+      await assert.rejects(hdc.shell(['ls']), (error: unknown) => {
+        assert.ok(error instanceof HdcError);
+        assert.match(error.message, /HDC_CASSETTE_DIR/);
+        return true;
+      });
+    } finally {
+      for (const [key, value] of [['HDC_TRANSPORT', saved.transport], ['HDC_CASSETTE_DIR', saved.dir]] as const) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    }
+  });
+});
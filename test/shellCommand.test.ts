@@ -0,0 +1,94 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ShellCommand } from '../src/utils/shellCommand.js';
+import { shellArgs } from './helpers.js';
+
+const HOSTILE_ARGS = [
+  "it's",
+  "'",
+  "''",
+  "'\\''",
+  '$(reboot)',
+  '`reboot`',
+  '${HOME}',
+  '$HOME',
+  'a; rm -rf /',
+  'a && b || c',
+  'a | b',
+  'a > /data/out',
+  'line1\nline2',
+  '\n',
+  '*',
+  '/data/*.log',
+  '?',
+  '[abc]',
+  '~',
+  '~/x',
+  '#comment',
+  'a b\tc',
+  '"double"',
+  '\\',
+  '-n',
+  '中文 参数',
+];
+
+describe('ShellCommand.quote', () => {
+  test('安全字符原样返回', () => {
+    for (const arg of ['uitest', 'com.example.app', '/data/local/tmp/a.jpeg', '-b', 'key=value', '100,200', 'a@b%c+d:e']) {
+      assert.equal(ShellCommand.quote(arg), arg);
+    }
+  });
+
+  test('空字符串转为空引号', () => {
+    assert.equal(ShellCommand.quote(''), "''");
+  });
+
+  test('单引号替换为 \'\\\'\'', () => {
+    assert.equal(ShellCommand.quote("it's"), `'it'\\''s'`);
+  });
+
+  test('含特殊字符的参数用单引号包裹', () => {
+    assert.equal(ShellCommand.quote('$(reboot)'), "'$(reboot)'");
+    assert.equal(ShellCommand.quote('`id`'), "'`id`'");
+    assert.equal(ShellCommand.quote('a;b'), "'a;b'");
+    assert.equal(ShellCommand.quote('*'), "'*'");
+    assert.equal(ShellCommand.quote('a\nb'), "'a\nb'");
+  });
+
+  test('拒绝空字符与非字符串参数', () => {
+    assert.throws(() => ShellCommand.quote('a\0b'), /空字符/);
+    assert.throws(() => ShellCommand.quote(1 as unknown as string), /必须是字符串/);
+  });
+
+  test('sh 解释后得到原始参数（往返）', () => {
+    for (const arg of HOSTILE_ARGS) {
+      assert.deepEqual(shellArgs(ShellCommand.quote(arg)), [arg], `参数 ${JSON.stringify(arg)}`);
+    }
+  });
+});
+
+describe('ShellCommand.build', () => {
+  test('按空格拼接转义后的参数', () => {
+    assert.equal(ShellCommand.build(['aa', 'start', '-b', 'com.example.app']), 'aa start -b com.example.app');
+    assert.equal(ShellCommand.build(['uitest', 'uiInput', 'click', 100, 200]), 'uitest uiInput click 100 200');
+  });
+
+  test('拒绝空数组', () => {
+    assert.throws(() => ShellCommand.build([]), /不能为空/);
+  });
+
+  test('sh 解释后参数个数与内容不变（往返）', () => {
+    const args = ['input', ...HOSTILE_ARGS, '', 42];
+    assert.deepEqual(shellArgs(ShellCommand.build(args)), args.map(arg => String(arg)));
+  });
+
+  test('恶意参数不会执行额外命令', () => {
+    const marker = join(tmpdir(), `shell-command-test-${process.pid}`);
+    const args = [`; touch ${marker}`, `$(touch ${marker})`, `\`touch ${marker}\``, `\ntouch ${marker}`];
+    shellArgs(ShellCommand.build(args));
+    assert.equal(existsSync(marker), false);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ShellSession } from '../src/transport/shellSession.js';
+
+const TIMEOUT = 2000;
+const MAX_BUFFER = 1024 * 1024;
+
+describe('ShellSession', () => {
+  let dir: string;
+  let session: ShellSession;
+
+  before(() => {
+    // 测试用 hdc：`hdc -t <serial> shell` 启动本机 sh
+    dir = mkdtempSync(join(tmpdir(), 'shell-session-test-'));
+    const hdcPath = join(dir, 'hdc');
+    writeFileSync(hdcPath, '#!/bin/sh\nexec sh\n', { mode: 0o755 });
+    session = new ShellSession(hdcPath, 'SER1');
+  });
+
+  after(() => {
+    session.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('截取标记之间的输出', async () => {
+    assert.deepEqual(await session.run('echo hello; echo world', TIMEOUT, MAX_BUFFER), {
+      stdout: 'hello\nworld\n',
+      stderr: '',
+      exitCode: 0,
+    });
+  });
+
+  test('输出末尾没有换行时不等待超时', async () => {
+    const result = await session.run('printf abc', TIMEOUT, MAX_BUFFER);
+    assert.equal(result.stdout, 'abc');
+  });
+
+  test('没有输出时返回空字符串', async () => {
+    assert.equal((await session.run('true', TIMEOUT, MAX_BUFFER)).stdout, '');
+  });
+
+  test('返回命令的退出码', async () => {
+    assert.deepEqual(await session.run('echo failed; (exit 3)', TIMEOUT, MAX_BUFFER), {
+      stdout: 'failed\n',
+      stderr: '',
+      exitCode: 3,
+    });
+    assert.equal((await session.run('false', TIMEOUT, MAX_BUFFER)).exitCode, 1);
+  });
+});
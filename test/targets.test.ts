@@ -0,0 +1,32 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { TargetsParser } from '../src/parsers/targets.js';
+
+const OUTPUT = readFileSync(new URL('./fixtures/parsers/list-targets-v.txt', import.meta.url), 'utf8');
+
+describe('TargetsParser', () => {
+  test('解析 list targets -v 输出', () => {
+    assert.deepEqual(TargetsParser.parse(OUTPUT), [
+      { serial: 'FMR0223C13000649', connectType: 'USB', state: 'Connected' },
+      { serial: '127.0.0.1:5555', connectType: 'TCP', state: 'Offline' },
+      { serial: '23E0223A18005417', connectType: 'USB', state: 'Unauthorized' },
+    ]);
+  });
+
+  test('解析只有序列号的 list targets 输出', () => {
+    assert.deepEqual(TargetsParser.parse('FMR0223C13000649\r\n127.0.0.1:5555\r\n'), [
+      { serial: 'FMR0223C13000649', connectType: 'unknown', state: 'Connected' },
+      { serial: '127.0.0.1:5555', connectType: 'unknown', state: 'Connected' },
+    ]);
+  });
+
+  test('没有设备时返回空数组', () => {
+    assert.deepEqual(TargetsParser.parse('[Empty]\r\n'), []);
+    assert.deepEqual(TargetsParser.parse(''), []);
+  });
+
+  test('只保留在线设备', () => {
+    assert.deepEqual(TargetsParser.getConnected(TargetsParser.parse(OUTPUT)).map(t => t.serial), ['FMR0223C13000649']);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RawImage } from '../src/utils/image.js';
+import { TemplateMatcher } from '../src/utils/templateMatcher.js';
+import { Workspace } from '../src/utils/workspace.js';
+import { HDC } from '../src/utils/hdc.js';
+import { UIController } from '../src/automation/controller.js';
+import { FakeTransport } from './helpers.js';
+
+const SCREEN_WIDTH = 1080;
+const SCREEN_HEIGHT = 2340;
+const ICON_SIZE = 40;
+
+/**
+ * 图标图案（u, v 为 0-1 的相对坐标），不对称以避免误匹配
+ */
+function iconValue(u: number, v: number): number {
+  const r = Math.hypot(u - 0.5, v - 0.5);
+  if (r > 0.3 && r < 0.42) return 20;
+  if (u > 0.15 && u < 0.45 && v > 0.55 && v < 0.85) return 240;
+  if (u > 0.6 && v < 0.3) return 200;
+  return 90;
+}
+
+/**
+ * 创建带随机噪声背景的截图（固定种子）
+ */
+function createScreen(): RawImage {
+  const data = new Uint8Array(SCREEN_WIDTH * SCREEN_HEIGHT * 4);
+  let seed = 12345;
+  for (let i = 0; i < SCREEN_WIDTH * SCREEN_HEIGHT; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    const value = 120 + (seed % 40);
+    data.set([value, value, value, 255], i * 4);
+  }
+  return { width: SCREEN_WIDTH, height: SCREEN_HEIGHT, data };
+}
+
+/**
+ * 在截图的 (x, y) 处绘制 size x size 的图标
+ */
+function drawIcon(screen: RawImage, x: number, y: number, size: number): void {
+  for (let j = 0; j < size; j++) {
+    for (let i = 0; i < size; i++) {
+      const value = iconValue((i + 0.5) / size, (j + 0.5) / size);
+      screen.data.set([value, value, value, 255], ((y + j) * screen.width + x + i) * 4);
+    }
+  }
+}
+
+/**
+ * 创建 size x size 的参考图
+ */
+function createIcon(size: number): RawImage {
+  const icon = { width: size, height: size, data: new Uint8Array(size * size * 4) };
+  drawIcon(icon, 0, 0, size);
+  return icon;
+}
+
+describe('TemplateMatcher.match', () => {
+  test('原尺寸命中', async () => {
+    const screen = createScreen();
+    drawIcon(screen, 500, 1200, ICON_SIZE);
+
+    const matches = await TemplateMatcher.match(screen, createIcon(ICON_SIZE));
+    assert.ok(matches.length > 0);
+    assert.equal(matches[0].scale, 1);
+    assert.deepEqual(matches[0].bounds, { x: 500, y: 1200, width: ICON_SIZE, height: ICON_SIZE });
+    assert.deepEqual(matches[0].center, { x: 520, y: 1220 });
+    assert.ok(matches[0].confidence > 0.95);
+  });
+
+  test('按缩放比例命中', async () => {
+    const screen = createScreen();
+    drawIcon(screen, 300, 800, 50);
+
+    const [match] = await TemplateMatcher.match(screen, createIcon(ICON_SIZE), { maxResults: 1 });
+    assert.ok(match);
+    assert.equal(match.scale, 1.25);
+    assert.equal(match.bounds.width, 50);
+    assert.ok(Math.abs(match.bounds.x - 300) <= 1 && Math.abs(match.bounds.y - 800) <= 1, JSON.stringify(match.bounds));
+    assert.ok(match.confidence > 0.9);
+  });
+
+  test('限定区域时只在区域内搜索，坐标加回区域偏移', async () => {
+    const screen = createScreen();
+    drawIcon(screen, 100, 200, ICON_SIZE);
+    drawIcon(screen, 700, 1900, ICON_SIZE);
+
+    const matches = await TemplateMatcher.match(screen, createIcon(ICON_SIZE), {
+      region: { x: 600, y: 1800, width: 300, height: 300 },
+    });
+    assert.equal(matches.length, 1);
+    assert.deepEqual(matches[0].bounds, { x: 700, y: 1900, width: ICON_SIZE, height: ICON_SIZE });
+  });
+
+  test('没有匹配时返回空数组', async () => {
+    assert.deepEqual(await TemplateMatcher.match(createScreen(), createIcon(ICON_SIZE)), []);
+  });
+
+  test('纯色参考图抛出错误', async () => {
+    const template = { width: 20, height: 20, data: new Uint8Array(20 * 20 * 4).fill(255) };
+    await assert.rejects(TemplateMatcher.match(createScreen(), template), /纯色/);
+  });
+
+  test('取消信号触发后停止匹配', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(
+      TemplateMatcher.match(createScreen(), createIcon(ICON_SIZE), { signal: controller.signal }),
+      { name: 'AbortError' }
+    );
+  });
+});
+
+describe('UIController 参考图路径', () => {
+  test('拒绝工作区之外的参考图，且不截图', async () => {
+    const transport = new FakeTransport();
+    const workspace = new Workspace({ root: join(tmpdir(), `template-workspace-${process.pid}`) });
+    const controller = new UIController(new HDC({ deviceId: 'SER1', transport }), workspace);
+
+    for (const templatePath of ['/etc/passwd', '../outside.png', 'icons/../../outside.png']) {
+      await assert.rejects(controller.findImage(templatePath), /工作区/, templatePath);
+    }
+    assert.equal((await controller.tapImage('/etc/passwd')).success, false);
+    assert.equal(transport.commands.length, 0);
+  });
+});
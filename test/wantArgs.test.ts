@@ -0,0 +1,104 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HDC, StartAppOptions } from '../src/utils/hdc.js';
+import { FakeTransport, shellArgs } from './helpers.js';
+
+const BUNDLE = 'com.example.app';
+
+/**
+ * 创建绑定测试传输层的 HDC，aa start 总是成功
+ */
+function createHdc(): { hdc: HDC; transport: FakeTransport } {
+  const transport = new FakeTransport(() => 'start ability successfully.\n');
+  return { hdc: new HDC({ deviceId: 'SER1', transport }), transport };
+}
+
+/**
+ * 启动应用，返回设备端 sh 解析出的 aa start 参数；参数被拒绝时返回 null
+ */
+async function startArgs(options: StartAppOptions): Promise<string[] | null> {
+  const { hdc, transport } = createHdc();
+  const result = await hdc.startApp(BUNDLE, { abilityName: 'EntryAbility', verify: false, ...options });
+  if (!result.success) {
+    assert.equal(transport.shellCommands.length, 0, '参数被拒绝时不应发送任何命令');
+    return null;
+  }
+  assert.equal(transport.shellCommands.length, 1);
+  return shellArgs(transport.shellCommands[0]);
+}
+
+/**
+ * 打开 URI，返回设备端 sh 解析出的 aa start 参数；参数被拒绝时返回 null
+ */
+async function openUriArgs(uri: string): Promise<string[] | null> {
+  const { hdc, transport } = createHdc();
+  const result = await hdc.openUri(uri);
+  if (!result.success) {
+    assert.equal(transport.shellCommands.length, 0, '参数被拒绝时不应发送任何命令');
+    return null;
+  }
+  return shellArgs(transport.shellCommands[0]);
+}
+
+describe('startApp Want 参数', () => {
+  test('按类型构造 --ps / --pi / --pb / --psn 参数', async () => {
+    const args = await startArgs({ params: { name: 'Alice', count: 3, debug: true, empty: null } });
+    assert.deepEqual(args, [
+      'aa', 'start', '-a', 'EntryAbility', '-b', BUNDLE,
+      '--ps', 'name', 'Alice',
+      '--pi', 'count', '3',
+      '--pb', 'debug', 'true',
+      '--psn', 'empty',
+    ]);
+  });
+
+  test('字符串值中的 shell 语法原样作为一个参数传递', async () => {
+    for (const value of ['$(reboot)', '`reboot`', "a'; reboot; '", 'a b  c', 'x && y', '*', '${PATH}', 'a --pi k 1']) {
+      const args = await startArgs({ params: { key: value } });
+      assert.deepEqual(args?.slice(-3), ['--ps', 'key', value], `值 ${JSON.stringify(value)}`);
+      assert.equal(args?.length, 9);
+    }
+  });
+
+  test('拒绝可能变成额外选项或命令的值', async () => {
+    for (const value of ['-U', '--pi', '-b com.evil.app', 'a\nreboot', 'a\rb', 'a\0b']) {
+      assert.equal(await startArgs({ params: { key: value } }), null, `值 ${JSON.stringify(value)}`);
+    }
+  });
+
+  test('拒绝格式无效的参数名', async () => {
+    for (const key of ['-U', '--ps', 'a b', 'a;reboot', '$(reboot)', 'a\nb', '', '1abc']) {
+      assert.equal(await startArgs({ params: { [key]: 'v' } }), null, `参数名 ${JSON.stringify(key)}`);
+    }
+  });
+
+  test('拒绝非整数与不支持类型的值', async () => {
+    for (const value of [1.5, NaN, Infinity, { a: 1 }, ['a'], undefined]) {
+      const params = { key: value } as unknown as StartAppOptions['params'];
+      assert.equal(await startArgs({ params }), null, `值 ${String(value)}`);
+    }
+  });
+
+  test('拒绝格式无效的 action 与 entity', async () => {
+    assert.equal(await startArgs({ action: '-b com.evil.app' }), null);
+    assert.equal(await startArgs({ action: 'a;reboot' }), null);
+    assert.equal(await startArgs({ entities: ['entity.system.home', '$(reboot)'] }), null);
+  });
+});
+
+describe('openUri', () => {
+  test('URI 作为 -U 的一个参数传递', async () => {
+    const uri = "https://example.com/path?a=1&b=$(reboot);c='x'`id`#frag";
+    assert.deepEqual(await openUriArgs(uri), ['aa', 'start', '-U', uri, '-A', 'ohos.want.action.viewData']);
+  });
+
+  test('拒绝没有 scheme、包含空白或控制字符的 URI', async () => {
+    for (const uri of ['', '-b com.evil.app', '--pi:x', 'example.com/path', 'https://a b', 'https://a\nreboot', 'https://a\tb', 'https://a\x7f']) {
+      assert.equal(await openUriArgs(uri), null, `URI ${JSON.stringify(uri)}`);
+    }
+  });
+
+  test('拒绝超长 URI', async () => {
+    assert.equal(await openUriArgs(`https://example.com/${'a'.repeat(5000)}`), null);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Workspace } from '../src/utils/workspace.js';
+
+describe('Workspace.resolveLocal', () => {
+  let dir: string;
+  let root: string;
+  let outside: string;
+  let workspace: Workspace;
+
+  before(() => {
+    // dir/
+    //   root/              工作区
+    //     inner/file.txt
+    //     inner-link -> inner
+    //     escape -> ../outside
+    //     escape-file -> ../outside/secret.txt
+    //     dangling -> ../outside/missing
+    //   outside/secret.txt
+    dir = realpathSync(mkdtempSync(join(tmpdir(), 'workspace-test-')));
+    root = join(dir, 'root');
+    outside = join(dir, 'outside');
+    mkdirSync(join(root, 'inner'), { recursive: true });
+    mkdirSync(outside);
+    writeFileSync(join(root, 'inner', 'file.txt'), 'inside');
+    writeFileSync(join(outside, 'secret.txt'), 'outside');
+    symlinkSync(join(root, 'inner'), join(root, 'inner-link'));
+    symlinkSync(outside, join(root, 'escape'));
+    symlinkSync(join(outside, 'secret.txt'), join(root, 'escape-file'));
+    symlinkSync(join(outside, 'missing'), join(root, 'dangling'));
+    workspace = new Workspace({ root });
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('解析工作区内的相对路径，包括尚不存在的文件', async () => {
+    assert.equal(await workspace.resolveLocal('inner/file.txt'), join(root, 'inner', 'file.txt'));
+    assert.equal(await workspace.resolveLocal('new/dir/screen.png'), join(root, 'new', 'dir', 'screen.png'));
+    assert.equal(await workspace.resolveLocal('inner/../inner/file.txt'), join(root, 'inner', 'file.txt'));
+    assert.equal(await workspace.resolveLocal('..data.json'), join(root, '..data.json'));
+  });
+
+  test('拒绝空路径、绝对路径与工作区根目录本身', async () => {
+    await assert.rejects(workspace.resolveLocal(''), /非空字符串/);
+    await assert.rejects(workspace.resolveLocal(join(outside, 'secret.txt')), /相对于工作区/);
+    await assert.rejects(workspace.resolveLocal('.'), /超出工作区范围/);
+  });
+
+  test('拒绝通过 .. 跳出工作区', async () => {
+    for (const path of ['..', '../outside/secret.txt', 'inner/../../outside/secret.txt', 'a/b/../../../root2/x']) {
+      await assert.rejects(workspace.resolveLocal(path), /超出工作区范围/, path);
+    }
+  });
+
+  test('拒绝通过符号链接跳出工作区', async () => {
+    for (const path of ['escape/secret.txt', 'escape/new.txt', 'escape/new/dir/file.txt', 'escape-file']) {
+      await assert.rejects(workspace.resolveLocal(path), /超出工作区范围/, path);
+    }
+  });
+
+  test('拒绝悬空的符号链接', async () => {
+    await assert.rejects(workspace.resolveLocal('dangling'), /无法解析的符号链接/);
+    await assert.rejects(workspace.resolveLocal('dangling/file.txt'), /无法解析的符号链接/);
+  });
+
+  test('允许指向工作区内的符号链接', async () => {
+    assert.equal(await workspace.resolveLocal('inner-link/file.txt'), join(root, 'inner-link', 'file.txt'));
+  });
+
+  test('工作区根目录本身是符号链接时按真实路径比较', async () => {
+    const linkedRoot = join(dir, 'root-link');
+    symlinkSync(root, linkedRoot);
+    const linked = new Workspace({ root: linkedRoot });
+    assert.equal(await linked.resolveLocal('inner/file.txt'), join(linkedRoot, 'inner', 'file.txt'));
+    await assert.rejects(linked.resolveLocal('escape/secret.txt'), /超出工作区范围/);
+  });
+
+  test('工作区根目录不存在时自动创建', async () => {
+    const fresh = new Workspace({ root: join(dir, 'fresh') });
+    assert.equal(await fresh.resolveLocal('a.txt'), join(dir, 'fresh', 'a.txt'));
+  });
+});
+
+describe('Workspace.checkRemote', () => {
+  const workspace = new Workspace({ root: tmpdir(), remoteAllowList: ['/data/local/tmp/'] });
+
+  test('允许列表中的设备路径', () => {
+    assert.equal(workspace.checkRemote('/data/local/tmp/a.png'), '/data/local/tmp/a.png');
+    assert.equal(workspace.checkRemote('/data/local/tmp//dir/./b.png'), '/data/local/tmp/dir/b.png');
+  });
+
+  test('拒绝相对路径、.. 与允许目录之外的路径', () => {
+    assert.throws(() => workspace.checkRemote('data/local/tmp/a.png'), /绝对路径/);
+    assert.throws(() => workspace.checkRemote('/data/local/tmp/../../system/etc/hosts'), /不能包含/);
+    assert.throws(() => workspace.checkRemote('/data/local/tmp'), /不在允许列表中/);
+    assert.throws(() => workspace.checkRemote('/data/local/tmpfoo/a.png'), /不在允许列表中/);
+    assert.throws(() => workspace.checkRemote('/system/etc/hosts'), /不在允许列表中/);
+  });
+});
+
+describe('Workspace.checkSize', () => {
+  test('超过传输上限时抛出错误', () => {
+    const workspace = new Workspace({ root: tmpdir(), maxBytes: 1024 });
+    assert.doesNotThrow(() => workspace.checkSize(1024));
+    assert.throws(() => workspace.checkSize(1025), /超过传输上限/);
+  });
+});